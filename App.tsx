@@ -1,65 +1,38 @@
 
-import React, { useState, useCallback, useEffect, useRef, useMemo } from 'react';
-import { convertImageToSalt, getAvailableModels, refineSalt } from './services/geminiService';
-import * as pako from 'pako';
-
-// --- PLANTUML ENCODING UTILS ---
-const encode6bit = (b: number): string => {
-  if (b < 10) return String.fromCharCode(48 + b);
-  if (b < 36) return String.fromCharCode(65 + b - 10);
-  if (b < 62) return String.fromCharCode(97 + b - 36);
-  if (b === 62) return '-';
-  if (b === 63) return '_';
-  return '?';
-};
-
-const encode3bytes = (b1: number, b2: number, b3: number): string => {
-  const c1 = b1 >> 2;
-  const c2 = ((b1 & 0x3) << 4) | (b2 >> 4);
-  const c3 = ((b2 & 0xf) << 2) | (b3 >> 6);
-  const c4 = b3 & 0x3f;
-  return encode6bit(c1 & 0x3f) +
-         encode6bit(c2 & 0x3f) +
-         encode6bit(c3 & 0x3f) +
-         encode6bit(c4 & 0x3f);
-};
-
-const encode64 = (data: Uint8Array): string => {
-  let r = "";
-  for (let i = 0; i < data.length; i += 3) {
-    if (i + 2 < data.length) {
-      r += encode3bytes(data[i], data[i + 1], data[i + 2]);
-    } else if (i + 1 < data.length) {
-      const b1 = data[i];
-      const b2 = data[i + 1];
-      const c1 = b1 >> 2;
-      const c2 = ((b1 & 0x3) << 4) | (b2 >> 4);
-      const c3 = (b2 & 0xf) << 2;
-      r += encode6bit(c1 & 0x3f) + encode6bit(c2 & 0x3f) + encode6bit(c3 & 0x3f);
-    } else {
-      const b1 = data[i];
-      const c1 = b1 >> 2;
-      const c2 = (b1 & 0x3) << 4;
-      r += encode6bit(c1 & 0x3f) + encode6bit(c2 & 0x3f);
-    }
-  }
-  return r;
-};
-
-const getPlantUMLUrl = (code: string): string => {
-  if (!code) return "";
-  try {
-    let cleanCode = code.replace(/```[a-z]*\n?/gi, '').replace(/```\n?/gi, '').trim();
-    const utf8Encoder = new TextEncoder();
-    const data = utf8Encoder.encode(cleanCode);
-    const compressed = pako.deflate(data, { level: 9 });
-    const encoded = encode64(compressed);
-    return `https://plantuml.com/plantuml/svg/~1${encoded}`;
-  } catch (e) {
-    console.error("Encoding error", e);
-    return "";
-  }
-};
+import React, { createContext, useContext, useState, useCallback, useEffect, useLayoutEffect, useRef, useMemo } from 'react';
+import { convertImageToSalt, extractImageLabels, getAvailableModels, locateElements, refineSalt, setRequestsPerMinute, DEFAULT_MAX_REPAIR_ROUNDS, ElementBox } from './services/geminiService';
+import { completeSaltPrefix, hasErrors, parseSalt, SaltDiagnostic } from './services/saltParser';
+import {
+  createProvider, getProviderEndpoint, loadProviderSettings, saveProviderSettings, LLM_ERROR_INFO, PROVIDER_OPTIONS, LLMError, ProviderId, ProviderSettings, TokenUsage
+} from './services/providers';
+import { runQueue, toOutputNames } from './services/batchService';
+import { createZip } from './services/zipService';
+import { findMatchingBracket, matchSnippets, tokenizeSaltLine, SaltSnippet, SaltTokenType } from './services/saltSyntax';
+import {
+  cropImage, isUsableRegion, loadPreprocessSettings, preprocessImage, regionFromPoints, savePreprocessSettings, svgToPng,
+  ImageRegion, PreprocessResult, PreprocessSettings
+} from './services/imageService';
+import { exportSalt, EXPORT_FORMATS, ExportFormat } from './services/exportService';
+import { layoutSalt } from './services/saltRenderer';
+import {
+  applyLintFixes, formatSalt, lintSalt, loadLintSettings, saveLintSettings, SALT_LINT_RULES, SaltLintIssue, SaltLintSettings
+} from './services/saltLint';
+import { scoreFidelity, FidelityScore, MismatchCell } from './services/fidelityService';
+import {
+  buildConvertPrompt, DEFAULT_PROFILE_ID, DEFAULT_PROMPT_PROFILE, duplicatePromptProfile, getSelectedPromptProfile, listPromptProfiles,
+  loadLabelSettings, loadPromptProfileSettings, parsePromptProfiles, resolveFidelityLevel, saveLabelSettings, savePromptProfileSettings,
+  serializePromptProfiles, FidelityLevel, LabelMode, LabelSettings, LABEL_MODES, PromptProfile, PromptProfileSettings
+} from './services/promptProfiles';
+import { clearResultCache, deleteCachedResult, getCachedResult, listCachedResults, putCachedResult, resultCacheKey, CachedResult } from './services/resultCache';
+import { buildFlowDiagram, listFlowTriggers, FlowScreen, FlowTransition } from './services/flowService';
+import { diffLines, toSideBySide, DiffLine } from './services/diffService';
+import {
+  addVersion, branchProject, createId, createProject, deleteProject, getCurrentVersion, listProjects, projectImageFile, saveProject,
+  ChatTurn, Project, ProjectVersion
+} from './services/projectStore';
+import { dateLocale, loadLocale, saveLocale, toLocalizedError, translate, translateError, Locale, LocalizedError, LOCALES, MessageParams } from './services/i18n';
+import { buildEmbedSnippet, buildShareUrl, getEmbedImageUrl, parseShareFragment, SharedState, SNIPPET_FORMATS, SnippetFormat } from './services/shareService';
+import { getPreviewUrl, stripCodeFence, loadRenderSettings, saveRenderSettings, RenderBackend, RenderSettings } from './services/plantumlService';
 
 const fileToBase64 = (file: File): Promise<{ base64: string, mimeType: string }> => {
   return new Promise((resolve, reject) => {
@@ -79,6 +52,77 @@ const fileToBase64 = (file: File): Promise<{ base64: string, mimeType: string }>
   });
 };
 
+const readEntryFiles = async (entry: FileSystemEntry): Promise<File[]> => {
+  if (entry.isFile) {
+    return new Promise(resolve => (entry as FileSystemFileEntry).file(file => resolve([file]), () => resolve([])));
+  }
+  if (!entry.isDirectory) return [];
+  const reader = (entry as FileSystemDirectoryEntry).createReader();
+  const children: FileSystemEntry[] = [];
+  // readEntries returns directory contents in batches until it yields an empty list.
+  while (true) {
+    const batch = await new Promise<FileSystemEntry[]>(resolve => reader.readEntries(resolve, () => resolve([])));
+    if (!batch.length) break;
+    children.push(...batch);
+  }
+  const nested = await Promise.all(children.map(readEntryFiles));
+  return nested.flat();
+};
+
+/**
+ * Collects the image files of a drop, descending into dropped folders, sorted by name.
+ */
+const collectImageFiles = async (dataTransfer: DataTransfer): Promise<File[]> => {
+  // Entries must be taken synchronously, before the drop event's data transfer is released.
+  const entries = Array.from(dataTransfer.items || [])
+    .map(item => item.kind === 'file' ? item.webkitGetAsEntry() : null)
+    .filter((entry): entry is FileSystemEntry => !!entry);
+  const files = entries.length
+    ? (await Promise.all(entries.map(readEntryFiles))).flat()
+    : Array.from(dataTransfer.files);
+  return sortImageFiles(files);
+};
+
+// HEIC files often come without a MIME type; they are kept so that preprocessing can explain why they fail.
+const sortImageFiles = (files: File[]): File[] =>
+  files
+    .filter(file => file.type.startsWith('image/') || /\.hei[cf]$/i.test(file.name))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+
+const formatBytes = (bytes: number): string =>
+  bytes >= 1024 * 1024 ? `${(bytes / 1024 / 1024).toFixed(1)} MB` : `${Math.max(1, Math.round(bytes / 1024))} KB`;
+
+const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
+
+// --- I18N ---
+
+interface I18n {
+  locale: Locale;
+  t: (text: string, params?: MessageParams) => string;
+  /** The message of a thrown error, or '' when it has none. */
+  tError: (error: unknown) => string;
+}
+
+const I18nContext = createContext<I18n>({
+  locale: 'ja',
+  t: (text, params) => translate('ja', text, params),
+  tError: error => translateError('ja', error),
+});
+
+/** The current UI language and the function translating Japanese source strings into it. */
+const useI18n = (): I18n => useContext(I18nContext);
+
+/** A parser diagnostic or lint issue in the current language; results cached before keys existed fall back to the Japanese text. */
+const diagnosticMessage = (diagnostic: { message: string; messageKey?: string; messageParams?: MessageParams }, t: I18n['t']): string =>
+  diagnostic.messageKey ? t(diagnostic.messageKey, diagnostic.messageParams) : diagnostic.message;
+
 // --- CHILD COMPONENTS ---
 
 interface ConversionOptionsProps {
@@ -87,6 +131,16 @@ interface ConversionOptionsProps {
   selectedModel: string;
   onModelChange: (model: string) => void;
   modelOptions: { value: string; label: string }[];
+  providerSettings: ProviderSettings;
+  onProviderSettingsChange: (settings: ProviderSettings) => void;
+  maxRepairRounds: number;
+  onMaxRepairRoundsChange: (value: number) => void;
+  promptProfiles: PromptProfile[];
+  promptProfile: PromptProfile;
+  onPromptProfileSelect: (id: string) => void;
+  onEditPromptProfiles: () => void;
+  labelSettings: LabelSettings;
+  onLabelSettingsChange: (settings: LabelSettings) => void;
   disabled: boolean;
 }
 
@@ -94,21 +148,42 @@ const ConversionOptions: React.FC<ConversionOptionsProps> = ({
   fidelity, onFidelityChange,
   selectedModel, onModelChange,
   modelOptions,
+  providerSettings, onProviderSettingsChange,
+  maxRepairRounds, onMaxRepairRoundsChange,
+  promptProfiles, promptProfile, onPromptProfileSelect, onEditPromptProfiles,
+  labelSettings, onLabelSettingsChange,
   disabled
 }) => {
-  const fidelityOptions = [
-    { label: 'シンプル', value: 10 },
-    { label: '標準', value: 50 },
-    { label: '詳細', value: 100 },
-  ];
+  const { t } = useI18n();
+  const fidelityOptions = [...promptProfile.fidelityLevels].sort((a, b) => a.value - b.value);
+  const selectedFidelity = resolveFidelityLevel(promptProfile, fidelity)?.value;
 
   return (
     <section className="bg-slate-800 rounded-lg p-6 shadow-lg mb-8 border border-slate-700">
-      <h2 className="text-xl font-semibold text-slate-200 mb-6">変換オプション</h2>
-      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+      <h2 className="text-xl font-semibold text-slate-200 mb-6">{t('変換オプション')}</h2>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-5 gap-6">
+        <div className="space-y-2">
+          <label htmlFor="provider-select" className={`text-slate-300 ${disabled ? 'text-slate-500' : ''}`}>
+            {t('プロバイダー')}
+          </label>
+          <select
+            id="provider-select"
+            value={providerSettings.provider}
+            onChange={(e) => onProviderSettingsChange({ ...providerSettings, provider: e.target.value as ProviderId })}
+            disabled={disabled}
+            className="w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {PROVIDER_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {t(option.label)}
+              </option>
+            ))}
+          </select>
+        </div>
+
         <div className="space-y-2">
           <label htmlFor="model-select" className={`text-slate-300 ${disabled ? 'text-slate-500' : ''}`}>
-            使用モデル
+            {t('使用モデル')}
           </label>
           <select
             id="model-select"
@@ -127,9 +202,9 @@ const ConversionOptions: React.FC<ConversionOptionsProps> = ({
 
         <div className="space-y-2">
           <label className={`text-slate-300 ${disabled ? 'text-slate-500' : ''}`}>
-            再現レベル
+            {t('再現レベル')}
           </label>
-          <div className="grid grid-cols-3 gap-2 rounded-lg bg-slate-700 p-1">
+          <div className="grid gap-2 rounded-lg bg-slate-700 p-1" style={{ gridTemplateColumns: `repeat(${fidelityOptions.length}, minmax(0, 1fr))` }}>
             {fidelityOptions.map((option) => (
               <div key={option.value}>
                 <input
@@ -137,7 +212,7 @@ const ConversionOptions: React.FC<ConversionOptionsProps> = ({
                   id={`fidelity-${option.value}`}
                   name="fidelity"
                   value={option.value}
-                  checked={fidelity === option.value}
+                  checked={selectedFidelity === option.value}
                   onChange={(e) => onFidelityChange(Number(e.target.value))}
                   disabled={disabled}
                   className="sr-only"
@@ -147,73 +222,444 @@ const ConversionOptions: React.FC<ConversionOptionsProps> = ({
                   className={`
                     block w-full text-center text-sm font-semibold rounded-md py-2 px-2 transition-colors duration-200
                     ${disabled ? 'cursor-not-allowed opacity-50' : 'cursor-pointer'}
-                    ${fidelity === option.value
+                    ${selectedFidelity === option.value
                       ? 'bg-blue-600 text-white shadow'
                       : 'bg-slate-700 text-slate-300 hover:bg-slate-600'
                     }
                   `}
                 >
-                  {option.label}
+                  {t(option.label)}
                 </label>
               </div>
             ))}
           </div>
         </div>
+
+        <div className="space-y-2">
+          <label htmlFor="repair-select" className={`text-slate-300 ${disabled ? 'text-slate-500' : ''}`}>
+            {t('構文エラー時の自動修復')}
+          </label>
+          <select
+            id="repair-select"
+            value={maxRepairRounds}
+            onChange={(e) => onMaxRepairRoundsChange(Number(e.target.value))}
+            disabled={disabled}
+            className="w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5 disabled:cursor-not-allowed disabled:opacity-50"
+          >
+            {[0, 1, 2, 3, 5].map((value) => (
+              <option key={value} value={value}>
+                {value === 0 ? t('修復しない') : t('最大 {count} 回', { count: value })}
+              </option>
+            ))}
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          <label htmlFor="profile-select" className={`text-slate-300 ${disabled ? 'text-slate-500' : ''}`}>
+            {t('プロンプトプロファイル')}
+          </label>
+          <div className="flex gap-2">
+            <select
+              id="profile-select"
+              value={promptProfile.id}
+              onChange={(e) => onPromptProfileSelect(e.target.value)}
+              disabled={disabled}
+              className="w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-lg focus:ring-blue-500 focus:border-blue-500 block p-2.5 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {promptProfiles.map((profile) => (
+                <option key={profile.id} value={profile.id}>
+                  {profile.id === DEFAULT_PROFILE_ID ? t(profile.name) : profile.name}
+                </option>
+              ))}
+            </select>
+            <button
+              onClick={onEditPromptProfiles}
+              disabled={disabled}
+              className="px-3 bg-slate-600 rounded-lg text-white text-sm hover:bg-slate-500 disabled:opacity-50 shrink-0"
+            >
+              {t('編集')}
+            </button>
+          </div>
+        </div>
+      </div>
+
+      {/* Endpoint settings are committed on blur so typing does not trigger a reconversion per keystroke. */}
+      {providerSettings.provider === 'openai' && (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mt-6">
+          <input
+            key={`openai-url-${providerSettings.openai.baseUrl}`}
+            type="url"
+            defaultValue={providerSettings.openai.baseUrl}
+            onBlur={(e) => e.target.value !== providerSettings.openai.baseUrl && onProviderSettingsChange({ ...providerSettings, openai: { ...providerSettings.openai, baseUrl: e.target.value } })}
+            placeholder="https://api.openai.com/v1"
+            disabled={disabled}
+            aria-label={t('OpenAI互換APIのURL')}
+            className="w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-lg p-2.5 disabled:opacity-50"
+          />
+          <input
+            key={`openai-key-${providerSettings.openai.apiKey}`}
+            type="password"
+            defaultValue={providerSettings.openai.apiKey}
+            onBlur={(e) => e.target.value !== providerSettings.openai.apiKey && onProviderSettingsChange({ ...providerSettings, openai: { ...providerSettings.openai, apiKey: e.target.value } })}
+            placeholder={t('APIキー')}
+            disabled={disabled}
+            aria-label={t('OpenAI互換APIのAPIキー')}
+            className="w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-lg p-2.5 disabled:opacity-50"
+          />
+        </div>
+      )}
+      {providerSettings.provider === 'ollama' && (
+        <div className="mt-6">
+          <input
+            key={`ollama-url-${providerSettings.ollama.baseUrl}`}
+            type="url"
+            defaultValue={providerSettings.ollama.baseUrl}
+            onBlur={(e) => e.target.value !== providerSettings.ollama.baseUrl && onProviderSettingsChange({ ...providerSettings, ollama: { baseUrl: e.target.value } })}
+            placeholder="http://localhost:11434"
+            disabled={disabled}
+            aria-label={t('OllamaサーバーのURL')}
+            className="w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded-lg p-2.5 disabled:opacity-50"
+          />
+        </div>
+      )}
+      <div className="mt-6 flex items-center gap-2 text-sm">
+        <label htmlFor="rate-limit-input" className="text-slate-400">{t('1分あたりのリクエスト数の上限')}</label>
+        <input
+          id="rate-limit-input"
+          key={`rate-limit-${providerSettings.requestsPerMinute}`}
+          type="number"
+          min={0}
+          defaultValue={providerSettings.requestsPerMinute}
+          onBlur={(e) => {
+            const value = Math.max(0, Math.floor(Number(e.target.value) || 0));
+            if (value !== providerSettings.requestsPerMinute) onProviderSettingsChange({ ...providerSettings, requestsPerMinute: value });
+          }}
+          disabled={disabled}
+          className="w-20 bg-slate-700 border border-slate-600 text-slate-200 rounded p-1 disabled:opacity-50"
+        />
+        <span className="text-slate-500 text-xs">{t('0 で無制限。一時的なエラーは自動で再試行します。')}</span>
+      </div>
+      <div className="mt-4 flex flex-wrap items-center gap-2 text-sm">
+        <label htmlFor="label-mode-select" className="text-slate-400">{t('ラベルの扱い')}</label>
+        <select
+          id="label-mode-select"
+          value={labelSettings.mode}
+          onChange={(e) => onLabelSettingsChange({ ...labelSettings, mode: e.target.value as LabelMode })}
+          disabled={disabled}
+          className="bg-slate-700 border border-slate-600 text-slate-200 rounded p-1 disabled:opacity-50"
+        >
+          {LABEL_MODES.map(option => <option key={option.value} value={option.value}>{t(option.label)}</option>)}
+        </select>
+        {labelSettings.mode === 'translate' && (
+          <>
+            <input
+              key={`label-language-${labelSettings.targetLanguage}`}
+              defaultValue={labelSettings.targetLanguage}
+              onBlur={(e) => e.target.value !== labelSettings.targetLanguage && onLabelSettingsChange({ ...labelSettings, targetLanguage: e.target.value })}
+              placeholder={t('例: English')}
+              disabled={disabled}
+              aria-label={t('翻訳先の言語')}
+              className="w-32 bg-slate-700 border border-slate-600 text-slate-200 rounded p-1 disabled:opacity-50"
+            />
+            <span className="text-slate-500 text-xs">{t('空欄の場合はプロファイルの出力言語を使用します')}</span>
+          </>
+        )}
       </div>
     </section>
   );
 };
 
+interface PromptProfileEditorProps {
+  settings: PromptProfileSettings;
+  onSave: (settings: PromptProfileSettings) => void;
+  onClose: () => void;
+}
+
+const PromptProfileEditor: React.FC<PromptProfileEditorProps> = ({ settings, onSave, onClose }) => {
+  const { t, tError } = useI18n();
+  // Edits stay in a draft until saved, so typing in a prompt does not trigger a reconversion.
+  const [profiles, setProfiles] = useState<PromptProfile[]>(settings.profiles);
+  const [editingId, setEditingId] = useState(settings.selectedId);
+  const [importError, setImportError] = useState<LocalizedError | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const editing = profiles.find(p => p.id === editingId) || DEFAULT_PROMPT_PROFILE;
+  const isBuiltIn = editing.id === DEFAULT_PROFILE_ID;
+  const fieldClass = "w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded p-2 disabled:opacity-60";
+
+  const updateEditing = (patch: Partial<PromptProfile>) => {
+    setProfiles(list => list.map(p => p.id === editing.id ? { ...p, ...patch } : p));
+  };
+
+  const updateLevel = (index: number, patch: Partial<FidelityLevel>) => {
+    updateEditing({ fidelityLevels: editing.fidelityLevels.map((level, i) => i === index ? { ...level, ...patch } : level) });
+  };
+
+  const addProfile = (source: PromptProfile, name?: string) => {
+    const created = duplicatePromptProfile(source, name);
+    setProfiles(list => [...list, created]);
+    setEditingId(created.id);
+  };
+
+  const handleDelete = () => {
+    if (isBuiltIn || !window.confirm(t('「{name}」を削除しますか？', { name: editing.name }))) return;
+    setProfiles(list => list.filter(p => p.id !== editing.id));
+    setEditingId(DEFAULT_PROFILE_ID);
+  };
+
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parsePromptProfiles(await file.text());
+      setProfiles(list => [...list, ...imported]);
+      setEditingId(imported[0].id);
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(toLocalizedError(err, 'インポートに失敗しました'));
+    }
+  };
+
+  const handleExport = () => {
+    const exported = profiles.length > 0 ? profiles : [DEFAULT_PROMPT_PROFILE];
+    downloadBlob(new Blob([serializePromptProfiles(exported)], { type: 'application/json' }), 'image2salt-profiles.json');
+  };
+
+  const hasInvalidTemplate = profiles.some(p => !p.refineTemplate.includes('{{currentSalt}}') || p.fidelityLevels.length === 0);
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/60 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="w-full max-w-5xl max-h-full bg-slate-800 border border-slate-700 rounded-lg shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-slate-700">
+          <h2 className="text-lg font-semibold text-slate-200">{t('プロンプトプロファイル')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-sm">{t('閉じる')}</button>
+        </div>
+        <div className="flex flex-grow min-h-0">
+          <div className="w-56 border-r border-slate-700 flex flex-col">
+            <ul className="flex-grow overflow-auto">
+              {[DEFAULT_PROMPT_PROFILE, ...profiles].map(profile => (
+                <li key={profile.id}>
+                  <button
+                    onClick={() => setEditingId(profile.id)}
+                    className={`block w-full text-left px-4 py-2 text-sm truncate ${profile.id === editing.id ? 'bg-blue-600 text-white' : 'text-slate-300 hover:bg-slate-700'}`}
+                  >
+                    {profile.name}{profile.id === DEFAULT_PROFILE_ID ? t(' (組み込み)') : ''}
+                  </button>
+                </li>
+              ))}
+            </ul>
+            <div className="p-3 border-t border-slate-700 grid grid-cols-2 gap-2 text-xs">
+              <button onClick={() => addProfile(DEFAULT_PROMPT_PROFILE, t('新しいプロファイル'))} className="px-2 py-1 bg-slate-600 rounded text-white hover:bg-slate-500">{t('新規')}</button>
+              <button onClick={() => addProfile(editing)} className="px-2 py-1 bg-slate-600 rounded text-white hover:bg-slate-500">{t('複製')}</button>
+              <button onClick={() => importInputRef.current?.click()} className="px-2 py-1 bg-slate-600 rounded text-white hover:bg-slate-500">{t('インポート')}</button>
+              <button onClick={handleExport} className="px-2 py-1 bg-slate-600 rounded text-white hover:bg-slate-500">{t('エクスポート')}</button>
+              <input type="file" ref={importInputRef} accept="application/json,.json" className="hidden" onChange={(e) => { handleImport(e.target.files?.[0]); e.target.value = ''; }} />
+            </div>
+          </div>
+          <div className="flex-grow overflow-auto p-4 space-y-4 text-sm">
+            {importError && <div className="text-red-400 text-xs">{tError(importError)}</div>}
+            {isBuiltIn && (
+              <div className="flex items-center justify-between gap-2 bg-slate-700/50 rounded p-2 text-xs text-slate-300">
+                {t('組み込みプロファイルは編集できません。複製してから編集してください。')}
+                <button onClick={() => addProfile(editing, t('{name} (カスタム)', { name: editing.name }))} className="px-2 py-1 bg-blue-600 rounded text-white hover:bg-blue-700 shrink-0">{t('複製して編集')}</button>
+              </div>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <label className="space-y-1 block">
+                <span className="text-slate-300">{t('名前')}</span>
+                <input value={editing.name} onChange={(e) => updateEditing({ name: e.target.value })} disabled={isBuiltIn} className={fieldClass} />
+              </label>
+              <label className="space-y-1 block">
+                <span className="text-slate-300">{t('出力言語 (空欄で画像のまま)')}</span>
+                <input value={editing.outputLanguage} onChange={(e) => updateEditing({ outputLanguage: e.target.value })} disabled={isBuiltIn} placeholder={t('例: 英語')} className={fieldClass} />
+              </label>
+            </div>
+            <label className="space-y-1 block">
+              <span className="text-slate-300">{t('基本ルール')}</span>
+              <textarea value={editing.baseRules} onChange={(e) => updateEditing({ baseRules: e.target.value })} disabled={isBuiltIn} rows={10} className={`${fieldClass} font-mono text-xs`} />
+            </label>
+            <div className="space-y-2">
+              <div className="flex justify-between items-center">
+                <span className="text-slate-300">{t('再現レベル別の追加ルール')}</span>
+                {!isBuiltIn && (
+                  <button
+                    onClick={() => updateEditing({ fidelityLevels: [...editing.fidelityLevels, { value: 100, label: t('新しいレベル'), rules: '' }] })}
+                    className="px-2 py-1 bg-slate-600 rounded text-white text-xs hover:bg-slate-500"
+                  >
+                    {t('レベルを追加')}
+                  </button>
+                )}
+              </div>
+              {editing.fidelityLevels.map((level, index) => (
+                <div key={index} className="grid grid-cols-[8rem_5rem_1fr_auto] gap-2 items-start">
+                  <input value={level.label} onChange={(e) => updateLevel(index, { label: e.target.value })} disabled={isBuiltIn} aria-label={t('レベル名')} className={fieldClass} />
+                  <input type="number" min={1} max={100} value={level.value} onChange={(e) => updateLevel(index, { value: Number(e.target.value) })} disabled={isBuiltIn} aria-label={t('レベル値 (1-100)')} className={fieldClass} />
+                  <textarea value={level.rules} onChange={(e) => updateLevel(index, { rules: e.target.value })} disabled={isBuiltIn} rows={2} aria-label={t('追加ルール')} className={`${fieldClass} font-mono text-xs`} />
+                  {!isBuiltIn && (
+                    <button
+                      onClick={() => updateEditing({ fidelityLevels: editing.fidelityLevels.filter((_, i) => i !== index) })}
+                      disabled={editing.fidelityLevels.length <= 1}
+                      className="px-2 py-1 text-xs text-red-400 hover:underline disabled:opacity-50"
+                    >
+                      {t('削除')}
+                    </button>
+                  )}
+                </div>
+              ))}
+            </div>
+            <label className="space-y-1 block">
+              <span className="text-slate-300">{t('修正テンプレート ({currentSalt} と {instruction} が置き換えられます)', { currentSalt: '{{currentSalt}}', instruction: '{{instruction}}' })}</span>
+              <textarea value={editing.refineTemplate} onChange={(e) => updateEditing({ refineTemplate: e.target.value })} disabled={isBuiltIn} rows={8} className={`${fieldClass} font-mono text-xs`} />
+            </label>
+          </div>
+        </div>
+        <div className="flex justify-between items-center gap-2 p-4 border-t border-slate-700">
+          <button onClick={handleDelete} disabled={isBuiltIn} className="px-3 py-1 text-sm text-red-400 hover:underline disabled:opacity-40">{t('このプロファイルを削除')}</button>
+          <div className="flex items-center gap-2">
+            {hasInvalidTemplate && <span className="text-xs text-amber-400">{t('修正テンプレートには {currentSalt} が、各プロファイルには1つ以上のレベルが必要です', { currentSalt: '{{currentSalt}}' })}</span>}
+            <button onClick={onClose} className="px-4 py-2 bg-slate-600 rounded text-white text-sm hover:bg-slate-500">{t('キャンセル')}</button>
+            <button
+              onClick={() => onSave({ profiles, selectedId: editing.id })}
+              disabled={hasInvalidTemplate}
+              className="px-4 py-2 bg-blue-600 rounded text-white text-sm hover:bg-blue-700 disabled:opacity-50"
+            >
+              {t('保存して使用')}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+interface RepairStatus {
+  rounds: number;
+  errorCount: number;
+  warningCount: number;
+}
+
 interface ImageInputProps {
   onImageSelect: (file: File) => void;
-  onRetry: () => void;
+  onImagesSelect: (files: File[]) => void;
+  /** Converts again; force bypasses the result cache. */
+  onRetry: (force: boolean) => void;
   onCancel: () => void;
   imageFile: File | null;
   isLoading: boolean;
   elapsedTime: number;
   hasResult: boolean;
+  /** The result was taken from the cache instead of the model. */
+  fromCache: boolean;
+  repairStatus: RepairStatus;
+  region: ImageRegion | null;
+  onRegionChange: (region: ImageRegion | null) => void;
+  onConvertRegion: () => void;
+  /** Cells where the rendered Salt differs from the image, highlighted over it. */
+  mismatches: MismatchCell[];
+  /** Location of the element picked in the preview. */
+  highlight: ImageRegion | null;
+  /** Size of the loaded image before and after preprocessing. */
+  imageInfo: PreprocessResult | null;
+  preprocessSettings: PreprocessSettings;
+  onPreprocessSettingsChange: (settings: PreprocessSettings) => void;
 }
 
-const ImageInput: React.FC<ImageInputProps> = ({ onImageSelect, onRetry, onCancel, imageFile, isLoading, elapsedTime, hasResult }) => {
+const ImageInput: React.FC<ImageInputProps> = ({ onImageSelect, onImagesSelect, onRetry, onCancel, imageFile, isLoading, elapsedTime, hasResult, fromCache, repairStatus, region, onRegionChange, onConvertRegion, mismatches, highlight, imageInfo, preprocessSettings, onPreprocessSettingsChange }) => {
+  const { t } = useI18n();
   const [isDragging, setIsDragging] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [dragStart, setDragStart] = useState<{ x: number; y: number } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
   const imageUrl = useMemo(() => imageFile ? URL.createObjectURL(imageFile) : null, [imageFile]);
 
-  const handleFile = useCallback((file: File | null) => {
-    if (file && file.type.startsWith('image/')) {
-      onImageSelect(file);
+  useEffect(() => { if (!imageFile) setIsSelecting(false); }, [imageFile]);
+
+  // Pointer position as a fraction of the displayed image, so regions survive resizing.
+  const pointerFraction = (e: React.PointerEvent<HTMLDivElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return { x: (e.clientX - rect.left) / rect.width, y: (e.clientY - rect.top) / rect.height };
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!isSelecting || isLoading) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    const point = pointerFraction(e);
+    setDragStart(point);
+    onRegionChange(regionFromPoints(point.x, point.y, point.x, point.y));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const point = pointerFraction(e);
+    onRegionChange(regionFromPoints(dragStart.x, dragStart.y, point.x, point.y));
+  };
+
+  const handlePointerUp = () => {
+    if (!dragStart) return;
+    setDragStart(null);
+    if (!isUsableRegion(region)) onRegionChange(null);
+  };
+
+  // A single image opens in the editor; several images (or a folder) go to the batch queue.
+  const handleFiles = useCallback((files: File[]) => {
+    const images = sortImageFiles(files);
+    if (images.length === 1) {
+      onImageSelect(images[0]);
+    } else if (images.length > 1) {
+      onImagesSelect(images);
     }
-  }, [onImageSelect]);
+  }, [onImageSelect, onImagesSelect]);
 
   const handleDrop = useCallback((e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault();
     e.stopPropagation();
     setIsDragging(false);
-    if (e.dataTransfer.files && e.dataTransfer.files.length > 0) {
-      handleFile(e.dataTransfer.files[0]);
-    }
-  }, [handleFile]);
+    if (!isLoading) collectImageFiles(e.dataTransfer).then(handleFiles);
+  }, [handleFiles, isLoading]);
 
   const handlePaste = useCallback((e: React.ClipboardEvent<HTMLDivElement>) => {
     if (!isLoading && e.clipboardData.files.length > 0) {
-      handleFile(e.clipboardData.files[0]);
+      handleFiles(Array.from(e.clipboardData.files));
     }
-  }, [handleFile, isLoading]);
+  }, [handleFiles, isLoading]);
 
   return (
     <section className="bg-slate-800 rounded-lg p-6 flex flex-col shadow-lg border border-slate-700">
       <div className="flex justify-between items-center mb-4">
-        <h2 className="text-xl font-semibold text-slate-200">入力イメージ</h2>
+        <h2 className="text-xl font-semibold text-slate-200">{t('入力イメージ')}</h2>
         <div className="flex items-center gap-2">
           {isLoading ? (
-            <div className="text-slate-400 text-sm">変換中... ({elapsedTime}秒)</div>
+            <div className="text-slate-400 text-sm">
+              {t('変換中... ({seconds}秒{repair})', { seconds: elapsedTime, repair: repairStatus.rounds > 0 ? t(' / 自動修復 {count}回目', { count: repairStatus.rounds }) : '' })}
+            </div>
           ) : hasResult && imageFile ? (
-            <div className="text-slate-400 text-sm">完了 ({elapsedTime}秒)</div>
+            <div className="text-slate-400 text-sm">
+              {fromCache ? t('完了 (キャッシュ)') : t('完了 ({seconds}秒{repair})', { seconds: elapsedTime, repair: repairStatus.rounds > 0 ? t(' / 自動修復 {count}回', { count: repairStatus.rounds }) : '' })}
+              {repairStatus.errorCount > 0 ? (
+                <span className="ml-2 text-red-400">{t('エラー {count}件', { count: repairStatus.errorCount })}</span>
+              ) : repairStatus.warningCount > 0 ? (
+                <span className="ml-2 text-amber-400">{t('警告 {count}件', { count: repairStatus.warningCount })}</span>
+              ) : null}
+            </div>
           ) : null}
           {isLoading ? (
-            <button onClick={onCancel} className="px-3 py-1 bg-amber-600 rounded text-white text-sm hover:bg-amber-700">中断</button>
+            <button onClick={onCancel} className="px-3 py-1 bg-amber-600 rounded text-white text-sm hover:bg-amber-700">{t('中断')}</button>
           ) : (
-            <button onClick={onRetry} disabled={!imageFile} className="px-3 py-1 bg-blue-600 rounded text-white text-sm hover:bg-blue-700 disabled:opacity-50">リトライ</button>
+            <>
+              <button onClick={() => onRetry(false)} disabled={!imageFile} className="px-3 py-1 bg-blue-600 rounded text-white text-sm hover:bg-blue-700 disabled:opacity-50">{t('リトライ')}</button>
+              <button
+                onClick={() => onRetry(true)}
+                disabled={!imageFile}
+                title={t('キャッシュを使わずにモデルで再生成します')}
+                className="px-3 py-1 bg-slate-600 rounded text-white text-sm hover:bg-slate-500 disabled:opacity-50"
+              >
+                {t('強制再生成')}
+              </button>
+            </>
           )}
         </div>
       </div>
@@ -223,41 +669,279 @@ const ImageInput: React.FC<ImageInputProps> = ({ onImageSelect, onRetry, onCance
         onDragOver={(e) => { e.preventDefault(); if (!isLoading) setIsDragging(true); }}
         onDragLeave={() => setIsDragging(false)}
         onPaste={handlePaste}
-        onClick={() => !isLoading && fileInputRef.current?.click()}
+        onClick={() => !isLoading && !isSelecting && fileInputRef.current?.click()}
       >
-        <input type="file" ref={fileInputRef} onChange={(e) => handleFile(e.target.files?.[0] || null)} accept="image/*" className="hidden" disabled={isLoading} />
+        <input type="file" ref={fileInputRef} onChange={(e) => { handleFiles(Array.from(e.target.files || [])); e.target.value = ''; }} accept="image/*" multiple className="hidden" disabled={isLoading} />
+        <input type="file" ref={folderInputRef} onChange={(e) => { handleFiles(Array.from(e.target.files || [])); e.target.value = ''; }} {...{ webkitdirectory: '' }} className="hidden" disabled={isLoading} />
         {imageUrl ? (
-          <img src={imageUrl} alt="Upload preview" className="max-w-full max-h-[500px] object-contain rounded" />
+          <div
+            className={`relative inline-block select-none ${isSelecting ? 'cursor-crosshair' : ''}`}
+            onPointerDown={handlePointerDown}
+            onPointerMove={handlePointerMove}
+            onPointerUp={handlePointerUp}
+          >
+            <img src={imageUrl} alt="Upload preview" draggable={false} className="block max-w-full max-h-[500px] object-contain rounded" />
+            {mismatches.map((cell, index) => (
+              <div
+                key={index}
+                className="absolute bg-red-500/35 pointer-events-none"
+                style={{ left: `${cell.x * 100}%`, top: `${cell.y * 100}%`, width: `${cell.width * 100}%`, height: `${cell.height * 100}%` }}
+              />
+            ))}
+            {highlight && (
+              <div
+                className="absolute border-2 border-dashed border-sky-500 bg-sky-400/25 pointer-events-none"
+                style={{ left: `${highlight.x * 100}%`, top: `${highlight.y * 100}%`, width: `${highlight.width * 100}%`, height: `${highlight.height * 100}%` }}
+              />
+            )}
+            {region && (
+              <div
+                className="absolute border-2 border-blue-400 bg-blue-400/20 pointer-events-none"
+                style={{ left: `${region.x * 100}%`, top: `${region.y * 100}%`, width: `${region.width * 100}%`, height: `${region.height * 100}%` }}
+              />
+            )}
+          </div>
         ) : (
           <div className="text-center text-slate-500">
             <svg className="w-12 h-12 mx-auto mb-2 opacity-50" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M4 16l4.586-4.586a2 2 0 012.828 0L16 16m-2-2l1.586-1.586a2 2 0 012.828 0L20 14m-6-6h.01M6 20h12a2 2 0 002-2V6a2 2 0 00-2-2H6a2 2 0 00-2 2v12a2 2 0 002 2z"></path></svg>
-            <p>画像をペースト、ドラッグ＆ドロップ</p>
-            <p className="text-xs">またはクリックして選択</p>
+            <p>{t('画像をペースト、ドラッグ＆ドロップ')}</p>
+            <p className="text-xs">{t('またはクリックして選択（複数画像・フォルダで一括変換）')}</p>
+            <button
+              type="button"
+              onClick={(e) => { e.stopPropagation(); folderInputRef.current?.click(); }}
+              disabled={isLoading}
+              className="mt-2 text-xs text-blue-400 hover:underline disabled:opacity-50"
+            >
+              {t('フォルダを選択')}
+            </button>
           </div>
         )}
       </div>
+      {imageUrl && (
+        <div className="flex flex-wrap items-center gap-2 mt-3 text-sm">
+          <button
+            onClick={() => setIsSelecting(v => !v)}
+            disabled={isLoading}
+            className={`px-3 py-1 rounded text-white disabled:opacity-50 ${isSelecting ? 'bg-blue-600 hover:bg-blue-700' : 'bg-slate-600 hover:bg-slate-500'}`}
+          >
+            {isSelecting ? t('範囲選択中') : t('範囲選択')}
+          </button>
+          {isUsableRegion(region) ? (
+            <>
+              <button onClick={onConvertRegion} disabled={isLoading} className="px-3 py-1 bg-blue-600 rounded text-white hover:bg-blue-700 disabled:opacity-50">{t('選択範囲を変換')}</button>
+              <button onClick={() => onRegionChange(null)} disabled={isLoading} className="px-3 py-1 bg-slate-600 rounded text-white hover:bg-slate-500 disabled:opacity-50">{t('選択解除')}</button>
+              <span className="text-xs text-slate-400">{t('修正指示は選択範囲に対応するコードにのみ適用されます')}</span>
+            </>
+          ) : isSelecting ? (
+            <span className="text-xs text-slate-400">{t('画像上をドラッグして範囲を選択してください')}</span>
+          ) : null}
+        </div>
+      )}
+      {imageInfo && (
+        <div className="mt-3 text-xs text-slate-400">
+          {imageInfo.changed ? (
+            <>
+              {t('元画像')} {imageInfo.original.width}×{imageInfo.original.height} ・ {formatBytes(imageInfo.original.size)}
+              {' → '}{t('送信')} {imageInfo.width}×{imageInfo.height} ・ {formatBytes(imageInfo.file.size)}
+            </>
+          ) : (
+            <>{imageInfo.width}×{imageInfo.height} ・ {formatBytes(imageInfo.file.size)}{t('（そのまま送信）')}</>
+          )}
+        </div>
+      )}
+      <details className="mt-3 text-sm">
+        <summary className="cursor-pointer text-slate-400 hover:text-slate-300">{t('前処理の設定')}</summary>
+        <div className="mt-2 flex flex-wrap items-center gap-x-6 gap-y-2 text-slate-300">
+          <label className="flex items-center gap-2">
+            {t('最大サイズ')}
+            <select
+              value={preprocessSettings.maxDimension}
+              onChange={(e) => onPreprocessSettingsChange({ ...preprocessSettings, maxDimension: Number(e.target.value) })}
+              className="bg-slate-700 border border-slate-600 text-slate-200 rounded p-1"
+            >
+              {[1024, 1536, 2048, 3072, 0].map(value => (
+                <option key={value} value={value}>{value === 0 ? t('縮小しない') : `${value}px`}</option>
+              ))}
+            </select>
+          </label>
+          <label className="flex items-center gap-2">
+            {t('形式')}
+            <select
+              value={preprocessSettings.outputFormat}
+              onChange={(e) => onPreprocessSettingsChange({ ...preprocessSettings, outputFormat: e.target.value as PreprocessSettings['outputFormat'] })}
+              className="bg-slate-700 border border-slate-600 text-slate-200 rounded p-1"
+            >
+              <option value="auto">{t('自動')}</option>
+              <option value="png">PNG</option>
+              <option value="jpeg">JPEG</option>
+            </select>
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={preprocessSettings.trimBorders}
+              onChange={(e) => onPreprocessSettingsChange({ ...preprocessSettings, trimBorders: e.target.checked })}
+            />
+            {t('余白を自動トリミング')}
+          </label>
+          <label className="flex items-center gap-1">
+            <input
+              type="checkbox"
+              checked={preprocessSettings.stripMetadata}
+              onChange={(e) => onPreprocessSettingsChange({ ...preprocessSettings, stripMetadata: e.target.checked })}
+            />
+            {t('メタデータを削除')}
+          </label>
+          <span className="text-xs text-slate-500">{t('次に読み込む画像から適用されます')}</span>
+        </div>
+      </details>
     </section>
   );
 };
 
-interface RefinementControlProps {
-  onRefine: (instruction: string) => void;
+interface RefinementChatProps {
+  turns: ChatTurn[];
+  constraints: string[];
+  /** Version shown in the editor, to mark the turn that produced it. */
+  currentVersionId: string | null;
+  /** Turn whose proposal is open for review; other pending proposals were left undecided. */
+  reviewTurnId: string | null;
+  onSend: (instruction: string) => void;
+  onRestoreTurn: (turn: ChatTurn) => void;
+  onConstraintsChange: (constraints: string[]) => void;
+  onClear: () => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  canUndo: boolean;
+  canRedo: boolean;
   isLoading: boolean;
+  hasRegion: boolean;
 }
 
-const RefinementControl: React.FC<RefinementControlProps> = ({ onRefine, isLoading }) => {
+const TURN_STATUS_LABELS: Record<ChatTurn['status'], { label: string; className: string }> = {
+  pending: { label: '未採用', className: 'bg-slate-700 text-slate-300' },
+  accepted: { label: '採用済み', className: 'bg-emerald-900 text-emerald-200' },
+  rejected: { label: '却下', className: 'bg-slate-700 text-slate-300' },
+  failed: { label: '失敗', className: 'bg-red-900 text-red-200' },
+};
+
+const RefinementChat: React.FC<RefinementChatProps> = ({
+  turns, constraints, currentVersionId, reviewTurnId, onSend, onRestoreTurn, onConstraintsChange, onClear, onUndo, onRedo, canUndo, canRedo, isLoading, hasRegion,
+}) => {
+  const { t } = useI18n();
   const [instruction, setInstruction] = useState("");
-  const handleSubmit = () => { if (instruction.trim()) { onRefine(instruction); setInstruction(""); } };
+  const [newConstraint, setNewConstraint] = useState("");
+  const logRef = useRef<HTMLDivElement>(null);
+  const handleSubmit = () => { if (instruction.trim()) { onSend(instruction.trim()); setInstruction(""); } };
+
+  const addConstraint = (text: string) => {
+    const constraint = text.trim();
+    if (constraint && !constraints.includes(constraint)) onConstraintsChange([...constraints, constraint]);
+  };
+
+  useEffect(() => {
+    if (logRef.current) logRef.current.scrollTop = logRef.current.scrollHeight;
+  }, [turns.length]);
 
   return (
     <section className="bg-slate-800 rounded-lg p-6 shadow-lg border border-slate-700">
-      <h2 className="text-xl font-semibold text-slate-200 mb-4">修正指示</h2>
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-slate-200">
+          {t('修正指示')}
+          {hasRegion && <span className="ml-2 align-middle text-xs font-normal px-2 py-0.5 rounded bg-blue-900 text-blue-200">{t('選択範囲のみ')}</span>}
+        </h2>
+        <div className="flex gap-2">
+          <button onClick={onUndo} disabled={!canUndo || isLoading} className="px-3 py-1 bg-slate-600 rounded text-white text-sm hover:bg-slate-500 disabled:opacity-50">{t('元に戻す')}</button>
+          <button onClick={onRedo} disabled={!canRedo || isLoading} className="px-3 py-1 bg-slate-600 rounded text-white text-sm hover:bg-slate-500 disabled:opacity-50">{t('やり直す')}</button>
+        </div>
+      </div>
+      <div className="mb-4">
+        <div className="text-sm text-slate-300 mb-2">{t('常に守る制約')}</div>
+        {constraints.length > 0 && (
+          <ul className="space-y-1 mb-2">
+            {constraints.map((constraint, index) => (
+              <li key={index} className="flex items-start gap-2 text-sm bg-slate-900 rounded px-2 py-1 text-slate-200">
+                <span className="flex-grow">{constraint}</span>
+                <button
+                  onClick={() => onConstraintsChange(constraints.filter((_, i) => i !== index))}
+                  className="text-slate-500 hover:text-red-400"
+                  aria-label={t('制約を削除')}
+                >
+                  ×
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+        <div className="flex gap-2">
+          <input
+            value={newConstraint}
+            onChange={(e) => setNewConstraint(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') { addConstraint(newConstraint); setNewConstraint(""); } }}
+            placeholder={t('例: ヘッダーのロゴは出力しない')}
+            className="flex-grow bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded p-1.5"
+          />
+          <button
+            onClick={() => { addConstraint(newConstraint); setNewConstraint(""); }}
+            disabled={!newConstraint.trim()}
+            className="px-3 py-1 bg-slate-600 rounded text-white text-sm hover:bg-slate-500 disabled:opacity-50"
+          >
+            {t('追加')}
+          </button>
+        </div>
+      </div>
+      {turns.length > 0 && (
+        <>
+          <div className="flex justify-between items-center mb-2 text-sm text-slate-300">
+            <span>{t('やり取り ({count})', { count: turns.length })}</span>
+            <button onClick={onClear} disabled={isLoading} className="text-xs text-slate-400 hover:text-red-400 disabled:opacity-50">{t('履歴を消去')}</button>
+          </div>
+          <div ref={logRef} className="max-h-[320px] overflow-auto space-y-3 mb-4 pr-1">
+            {turns.map(turn => {
+              const status = turn.id === reviewTurnId ? { label: '確認待ち', className: 'bg-amber-900 text-amber-200' } : TURN_STATUS_LABELS[turn.status];
+              const isCurrent = !!turn.versionId && turn.versionId === currentVersionId;
+              return (
+                <div key={turn.id} className="space-y-1 text-sm">
+                  <div className="flex justify-end items-start gap-2">
+                    <button
+                      onClick={() => addConstraint(turn.instruction)}
+                      title={t('この指示を常に守る制約に追加します')}
+                      className="text-xs text-slate-500 hover:text-slate-200 mt-1"
+                    >
+                      {t('固定')}
+                    </button>
+                    <div className="bg-blue-900/60 text-slate-100 rounded-lg px-3 py-2 max-w-[85%] whitespace-pre-wrap">
+                      {turn.region && <span className="mr-1 text-xs text-blue-300">{t('[選択範囲]')}</span>}
+                      {turn.instruction}
+                    </div>
+                  </div>
+                  <div className={`rounded-lg px-3 py-2 max-w-[85%] border ${isCurrent ? 'border-sky-500 bg-slate-700' : 'border-slate-700 bg-slate-900'}`}>
+                    {turn.status === 'pending' && turn.code === null ? (
+                      <span className="text-slate-400">{t('生成中...')}</span>
+                    ) : (
+                      <div className={`whitespace-pre-wrap ${turn.status === 'failed' ? 'text-red-400' : 'text-slate-300'}`}>{turn.reply || t('(変更内容の説明はありません)')}</div>
+                    )}
+                    <div className="flex items-center gap-2 mt-1 text-xs">
+                      {(turn.code !== null || turn.status === 'failed') && <span className={`px-1.5 py-0.5 rounded ${status.className}`}>{t(status.label)}</span>}
+                      {isCurrent && <span className="text-sky-300">{t('現在のコード')}</span>}
+                      {turn.status === 'accepted' && !isCurrent && (
+                        <button onClick={() => onRestoreTurn(turn)} disabled={isLoading} className="text-slate-400 hover:text-slate-200 hover:underline disabled:opacity-50">{t('このコードに戻す')}</button>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
       <textarea
         className="w-full bg-slate-700 border border-slate-600 text-slate-200 rounded-lg p-3 focus:ring-blue-500 focus:border-blue-500 mb-4"
         rows={3}
-        placeholder="例: グリッドを境界線付きに変更して、ボタンを右側に寄せて..."
+        placeholder={t('例: グリッドを境界線付きに変更して、ボタンを右側に寄せて...')}
         value={instruction}
         onChange={(e) => setInstruction(e.target.value)}
+        onKeyDown={(e) => { if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) { e.preventDefault(); handleSubmit(); } }}
         disabled={isLoading}
       />
       <button
@@ -265,160 +949,2333 @@ const RefinementControl: React.FC<RefinementControlProps> = ({ onRefine, isLoadi
         disabled={!instruction.trim() || isLoading}
         className="w-full bg-blue-600 py-3 rounded-lg text-white font-semibold hover:bg-blue-700 disabled:opacity-50 transition-colors shadow-lg"
       >
-        {isLoading ? '生成中...' : '修正を適用'}
+        {isLoading ? t('生成中...') : t('修正を依頼 (Ctrl+Enter)')}
       </button>
     </section>
   );
 };
 
-interface SaltPreviewProps {
-  saltCode: string | null;
-  isLoading: boolean;
-  error: string | null;
-}
+const scoreColor = (score: number) => score >= 0.8 ? 'text-emerald-400' : score >= 0.6 ? 'text-amber-400' : 'text-red-400';
+const formatScore = (score: number) => `${Math.round(score * 100)}`;
 
-const SaltPreview: React.FC<SaltPreviewProps> = ({ saltCode, isLoading, error }) => {
-  const previewUrl = useMemo(() => saltCode ? getPlantUMLUrl(saltCode) : "", [saltCode]);
+interface FidelityPanelProps {
+  score: FidelityScore | null;
+  isScoring: boolean;
+  hasLabels: boolean;
+  isExtractingLabels: boolean;
+  labelError: LocalizedError | null;
+  onExtractLabels: () => void;
+  showOverlay: boolean;
+  onShowOverlayChange: (show: boolean) => void;
+  disabled: boolean;
+}
 
+const FidelityPanel: React.FC<FidelityPanelProps> = ({
+  score, isScoring, hasLabels, isExtractingLabels, labelError, onExtractLabels, showOverlay, onShowOverlayChange, disabled
+}) => {
+  const { t, tError } = useI18n();
   return (
-    <section className="bg-slate-800 rounded-lg p-6 flex flex-col shadow-lg border border-slate-700 h-[450px]">
-      <h2 className="text-xl font-semibold text-slate-200 mb-4">レンダリング結果 (PlantUML)</h2>
-      <div className="flex-grow bg-white rounded-md flex items-center justify-center overflow-auto p-4 border border-slate-600">
-        {isLoading ? (
-          <div className="animate-pulse flex flex-col items-center">
-             <div className="h-32 w-48 bg-slate-200 rounded mb-4"></div>
-             <p className="text-slate-400 text-sm">レンダリング中...</p>
+    <section className="bg-slate-800 rounded-lg p-6 shadow-lg border border-slate-700">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-xl font-semibold text-slate-200">{t('再現度スコア')}</h2>
+        <label className="flex items-center gap-2 text-sm text-slate-300">
+          <input type="checkbox" checked={showOverlay} onChange={(e) => onShowOverlayChange(e.target.checked)} disabled={!score} />
+          {t('差分を画像に重ねる')}
+        </label>
+      </div>
+      {!score ? (
+        <div className="text-slate-500 text-sm">{isScoring ? t('評価中...') : t('コードが生成されると評価されます')}</div>
+      ) : (
+        <div className={`space-y-3 ${isScoring ? 'opacity-60' : ''}`}>
+          <div className="flex items-end gap-6">
+            <div>
+              <div className={`text-4xl font-bold ${scoreColor(score.overall)}`}>{formatScore(score.overall)}</div>
+              <div className="text-xs text-slate-400">{t('総合')}</div>
+            </div>
+            <div className="text-sm text-slate-300 space-y-1">
+              <div>{t('レイアウト')}{' '}<span className={scoreColor(score.layout.score)}>{formatScore(score.layout.score)}</span>
+                <span className="text-xs text-slate-500 ml-2">{t('(エッジ一致 {edge} / 密度 {density} / 差分 {count}箇所)', { edge: formatScore(score.layout.edgeF1), density: formatScore(score.layout.cellSimilarity), count: score.layout.mismatches.length })}</span>
+              </div>
+              <div>
+                {t('テキスト再現率')}{' '}
+                {score.text ? (
+                  <span className={scoreColor(score.text.recall)}>{formatScore(score.text.recall)}</span>
+                ) : (
+                  <span className="text-slate-500">{t('未評価')}</span>
+                )}
+              </div>
+            </div>
           </div>
-        ) : error ? (
-           <div className="text-red-500 text-sm px-4 text-center">{error}</div>
-        ) : previewUrl ? (
-          <img src={previewUrl} alt="PlantUML Salt Preview" className="max-w-full max-h-full object-contain" />
-        ) : (
-          <div className="text-slate-400 text-sm">ここにプレビューが表示されます</div>
-        )}
+          {score.text && score.text.missing.length > 0 && (
+            <div className="text-xs">
+              <div className="text-slate-400 mb-1">{t('Saltに見つからないラベル ({missing}/{total})', { missing: score.text.missing.length, total: score.text.found.length + score.text.missing.length })}</div>
+              <div className="flex flex-wrap gap-1">
+                {score.text.missing.map((label, index) => (
+                  <span key={index} className="px-2 py-0.5 rounded bg-red-900/40 text-red-200">{label}</span>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+      <div className="mt-4 flex items-center gap-3">
+        <button
+          onClick={onExtractLabels}
+          disabled={disabled || isExtractingLabels}
+          className="px-3 py-1 bg-slate-600 rounded text-white text-sm hover:bg-slate-500 disabled:opacity-50"
+        >
+          {isExtractingLabels ? t('読み取り中...') : hasLabels ? t('ラベルを再読み取り') : t('画像のラベルを読み取る')}
+        </button>
+        <span className="text-xs text-slate-500">{t('テキスト再現率の評価には選択中のモデルを使用します')}</span>
       </div>
+      {labelError && <div className="mt-2 text-red-400 text-xs">{tError(labelError)}</div>}
     </section>
   );
 };
 
-interface CodeOutputProps {
-  saltCode: string | null;
-  isLoading: boolean;
+interface PendingRefinement {
+  before: string;
+  after: string;
+  instruction: string;
+  region?: ImageRegion;
+  /** Chat turn that proposed the change. */
+  turnId: string;
 }
 
-const CodeOutput: React.FC<CodeOutputProps> = ({ saltCode, isLoading }) => {
-  const [copied, setCopied] = useState(false);
-  const handleCopy = () => {
-    if (!saltCode) return;
-    navigator.clipboard.writeText(saltCode);
-    setCopied(true);
-    setTimeout(() => setCopied(false), 2000);
-  };
+const DIFF_LINE_STYLES: Record<DiffLine['type'], string> = {
+  equal: 'text-slate-400',
+  add: 'bg-emerald-900/40 text-emerald-200',
+  remove: 'bg-red-900/40 text-red-200',
+};
+
+interface RefinementReviewProps {
+  refinement: PendingRefinement;
+  renderSettings: RenderSettings;
+  onAccept: () => void;
+  onReject: () => void;
+}
+
+const RefinementReview: React.FC<RefinementReviewProps> = ({ refinement, renderSettings, onAccept, onReject }) => {
+  const { t } = useI18n();
+  const diff = useMemo(() => diffLines(refinement.before, refinement.after), [refinement]);
+  const rows = useMemo(() => toSideBySide(diff), [diff]);
+  const added = diff.filter(d => d.type === 'add').length;
+  const removed = diff.filter(d => d.type === 'remove').length;
+  const beforeUrl = useMemo(() => getPreviewUrl(refinement.before, renderSettings), [refinement.before, renderSettings]);
+  const afterUrl = useMemo(() => getPreviewUrl(refinement.after, renderSettings), [refinement.after, renderSettings]);
+
+  const renderCell = (line?: DiffLine) => (
+    <div className={`flex min-h-[1.25rem] ${line ? DIFF_LINE_STYLES[line.type] : 'bg-slate-800/60'}`}>
+      <span className="select-none text-slate-600 w-8 shrink-0 text-right pr-2">{line ? (line.type === 'add' ? line.newLine : line.oldLine) : ''}</span>
+      <span className="whitespace-pre-wrap break-all">{line?.text ?? ''}</span>
+    </div>
+  );
 
   return (
-    <section className="bg-slate-800 rounded-lg p-6 flex flex-col shadow-lg border border-slate-700 h-[450px]">
-      <div className="flex justify-between items-center mb-4">
-        <h2 className="text-xl font-semibold text-slate-200">PlantUML Salt コード</h2>
-        <button
-          onClick={handleCopy}
-          disabled={!saltCode || isLoading}
-          className="px-3 py-1 bg-indigo-600 rounded text-white text-sm hover:bg-indigo-700 disabled:opacity-50 transition-colors"
-        >
-          {copied ? 'コピー済み' : 'コードをコピー'}
-        </button>
+    <section className="bg-slate-800 rounded-lg p-6 shadow-lg border border-blue-700 mb-8">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <div>
+          <h2 className="text-xl font-semibold text-slate-200">{t('修正案の確認')}</h2>
+          <p className="text-sm text-slate-400 mt-1">
+            「{refinement.instruction}」 <span className="text-emerald-400">+{added}</span> <span className="text-red-400">-{removed}</span>
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <button onClick={onReject} className="px-4 py-2 bg-slate-600 rounded text-white text-sm hover:bg-slate-500">{t('破棄')}</button>
+          <button onClick={onAccept} className="px-4 py-2 bg-blue-600 rounded text-white text-sm font-semibold hover:bg-blue-700">{t('採用')}</button>
+        </div>
       </div>
-      <div className="flex-grow bg-slate-900 rounded-md p-4 overflow-auto font-mono text-sm border border-slate-700 text-blue-300">
-        {isLoading ? (
-          <div className="space-y-2 opacity-30">
-            <div className="h-4 bg-slate-700 w-3/4"></div>
-            <div className="h-4 bg-slate-700 w-full"></div>
-            <div className="h-4 bg-slate-700 w-1/2"></div>
+      <div className="grid grid-cols-2 gap-4 mb-2 text-sm text-slate-400">
+        <div>{t('修正前')}</div>
+        <div>{t('修正後')}</div>
+      </div>
+      <div className="bg-slate-900 rounded-md border border-slate-700 font-mono text-xs max-h-[320px] overflow-auto mb-4">
+        {rows.map((row, index) => (
+          <div key={index} className="grid grid-cols-2 gap-4">
+            {renderCell(row.left)}
+            {renderCell(row.right)}
           </div>
-        ) : saltCode ? (
-          <pre className="whitespace-pre-wrap"><code>{saltCode}</code></pre>
-        ) : (
-          <div className="text-slate-600">コードがここに表示されます</div>
-        )}
+        ))}
+      </div>
+      <div className="grid grid-cols-2 gap-4">
+        {[beforeUrl, afterUrl].map((url, index) => (
+          <div key={index} className="bg-white rounded-md flex items-center justify-center p-2 h-[260px] overflow-auto">
+            {url && <img src={url} alt={index === 0 ? t('修正前のプレビュー') : t('修正後のプレビュー')} className="max-w-full max-h-full object-contain" />}
+          </div>
+        ))}
       </div>
     </section>
   );
 };
 
-// --- MAIN APP COMPONENT ---
-const App: React.FC = () => {
-  const [imageFile, setImageFile] = useState<File | null>(null);
-  const [saltCode, setSaltCode] = useState<string | null>(null);
-  const [isLoading, setIsLoading] = useState(false);
-  const [error, setError] = useState<string | null>(null);
-  const [elapsedTime, setElapsedTime] = useState(0);
-  const timerRef = useRef<number | null>(null);
-  const isCancelledRef = useRef(false);
+/** Widget picked in the preview, identified by where it starts in the code. */
+interface InspectedElement {
+  offset: number;
+  line: number;
+}
 
-  // デフォルトの再現レベルを「詳細 (100)」に設定
-  const [fidelity, setFidelity] = useState(100);
-  const [selectedModel, setSelectedModel] = useState('gemini-3-flash-preview');
-  const [modelOptions, setModelOptions] = useState<{ value: string; label: string }[]>([
-    { label: 'Gemini 3.0 Flash Preview', value: 'gemini-3-flash-preview' },
-    { label: 'Gemini 3.0 Pro Preview', value: 'gemini-3-pro-preview' }
-  ]);
+/** Hover/click targets for the widgets of locally rendered Salt, positioned in percent of the SVG. */
+const inspectableElements = (saltCode: string) => {
+  const { document, diagnostics } = parseSalt(saltCode);
+  if (hasErrors(diagnostics)) return [];
+  const layout = layoutSalt(document);
+  const width = Math.ceil(layout.width);
+  const height = Math.ceil(layout.height);
+  return layout.elements
+    .filter(element => element.node.type !== 'block' && element.node.type !== 'separator')
+    .map(({ node, x, y, width: w, height: h }) => ({
+      offset: node.range.start.offset,
+      line: node.range.start.line,
+      left: `${x / width * 100}%`,
+      top: `${y / height * 100}%`,
+      width: `${w / width * 100}%`,
+      height: `${h / height * 100}%`,
+    }));
+};
 
-  useEffect(() => {
-    getAvailableModels().then(models => { if (models.length) setModelOptions(models); });
-  }, []);
+interface SaltPreviewProps {
+  saltCode: string | null;
+  isLoading: boolean;
+  /** API failures arrive as LLMError and are shown with their cause and a remedy. */
+  error: LocalizedError | null;
+  renderSettings: RenderSettings;
+  onRenderSettingsChange: (settings: RenderSettings) => void;
+  /** File name without extension used for downloads. */
+  fileBaseName: string;
+  inspected: InspectedElement | null;
+  onInspect: (element: InspectedElement | null) => void;
+  /** Where the inspected element is in the source image, once the model has located the elements. */
+  inspectedBox: ImageRegion | null;
+  hasElementBoxes: boolean;
+  isLocating: boolean;
+  locateError: LocalizedError | null;
+  onLocate: () => void;
+  onRefineElement: () => void;
+  canLocate: boolean;
+}
 
-  const handleImageSelect = (file: File) => {
-    setImageFile(file);
-    setSaltCode(null);
-    setError(null);
-    setElapsedTime(0);
-  };
+const SaltPreview: React.FC<SaltPreviewProps> = ({
+  saltCode, isLoading, error, renderSettings, onRenderSettingsChange, fileBaseName,
+  inspected, onInspect, inspectedBox, hasElementBoxes, isLocating, locateError, onLocate, onRefineElement, canLocate,
+}) => {
+  const { t, tError } = useI18n();
+  const previewUrl = useMemo(() => saltCode ? getPreviewUrl(saltCode, renderSettings) : "", [saltCode, renderSettings]);
+  const [downloadError, setDownloadError] = useState<LocalizedError | null>(null);
+  const [isInspecting, setIsInspecting] = useState(false);
+  // Element positions are only known for the built-in renderer, whose layout is computed here.
+  const canInspect = renderSettings.backend === 'local' && !!saltCode && !isLoading && !error;
+  const targets = useMemo(
+    () => isInspecting && canInspect && saltCode ? inspectableElements(saltCode) : [],
+    [isInspecting, canInspect, saltCode]
+  );
 
-  const processConversion = useCallback(async () => {
-    if (!imageFile) return;
-    isCancelledRef.current = false;
-    setIsLoading(true);
-    setError(null);
-    setElapsedTime(0);
-    if (timerRef.current) clearInterval(timerRef.current);
-    timerRef.current = window.setInterval(() => setElapsedTime(p => p + 1), 1000);
+  const toggleInspecting = () => {
+    if (isInspecting) onInspect(null);
+    setIsInspecting(!isInspecting);
+  };
 
+  // Server renders are fetched rather than linked so that the PNG can be drawn without tainting the canvas.
+  const handleDownload = async (format: 'svg' | 'png') => {
+    setDownloadError(null);
     try {
-      const { base64, mimeType } = await fileToBase64(imageFile);
-      const code = await convertImageToSalt(base64, mimeType, { fidelity, model: selectedModel });
-      if (!isCancelledRef.current) setSaltCode(code);
-    } catch (err: any) {
-      if (!isCancelledRef.current) setError(err.message || "エラーが発生しました");
-    } finally {
-      setIsLoading(false);
-      if (timerRef.current) { clearInterval(timerRef.current); timerRef.current = null; }
+      const response = await fetch(previewUrl);
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const svg = new Blob([await response.text()], { type: 'image/svg+xml' });
+      downloadBlob(format === 'svg' ? svg : await svgToPng(svg), `${fileBaseName}.${format}`);
+    } catch (err) {
+      console.error("Failed to download preview", err);
+      setDownloadError(new LocalizedError('プレビュー画像を取得できませんでした。サーバーがCORSを許可していない可能性があります。'));
     }
-  }, [imageFile, fidelity, selectedModel]);
+  };
+  const backendOptions: { value: RenderBackend; label: string }[] = [
+    { value: 'local', label: t('ブラウザ内 (オフライン)') },
+    { value: 'server', label: t('自前のPlantUMLサーバー') },
+    { value: 'public', label: t('plantuml.com (公開)') },
+  ];
 
-  const handleRefine = useCallback(async (instruction: string) => {
-    if (!imageFile || !saltCode) return;
-    setIsLoading(true);
+  return (
+    <section className="bg-slate-800 rounded-lg p-6 flex flex-col shadow-lg border border-slate-700 h-[450px]">
+      <div className="flex justify-between items-center mb-4 gap-2">
+        <h2 className="text-xl font-semibold text-slate-200">{t('レンダリング結果 (PlantUML)')}</h2>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={toggleInspecting}
+            disabled={renderSettings.backend !== 'local'}
+            title={renderSettings.backend === 'local' ? t('プレビュー上の要素を選択してコードと元画像の位置を表示します') : t('要素の選択はブラウザ内レンダラーでのみ利用できます')}
+            className={`px-2 py-1 rounded text-white text-xs disabled:opacity-50 ${isInspecting ? 'bg-sky-600 hover:bg-sky-700' : 'bg-slate-600 hover:bg-slate-500'}`}
+          >
+            {t('要素を選択')}
+          </button>
+          {(['svg', 'png'] as const).map(format => (
+            <button
+              key={format}
+              onClick={() => handleDownload(format)}
+              disabled={!previewUrl || isLoading}
+              className="px-2 py-1 bg-slate-600 rounded text-white text-xs hover:bg-slate-500 disabled:opacity-50"
+            >
+              {format.toUpperCase()}
+            </button>
+          ))}
+          <select
+            value={renderSettings.backend}
+            onChange={(e) => onRenderSettingsChange({ ...renderSettings, backend: e.target.value as RenderBackend })}
+            className="bg-slate-700 border border-slate-600 text-slate-200 text-xs rounded p-1.5"
+            aria-label={t('レンダラー')}
+          >
+            {backendOptions.map((option) => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </div>
+      </div>
+      {downloadError && <div className="mb-3 text-red-400 text-xs">{tError(downloadError)}</div>}
+      {renderSettings.backend === 'server' && (
+        <input
+          type="url"
+          value={renderSettings.serverUrl}
+          onChange={(e) => onRenderSettingsChange({ ...renderSettings, serverUrl: e.target.value })}
+          placeholder="http://localhost:8080"
+          className="mb-3 bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded p-2"
+          aria-label={t('PlantUMLサーバーのURL')}
+        />
+      )}
+      <div className="flex-grow bg-white rounded-md flex items-center justify-center overflow-auto p-4 border border-slate-600">
+        {isLoading && !previewUrl ? (
+          <div className="animate-pulse flex flex-col items-center">
+             <div className="h-32 w-48 bg-slate-200 rounded mb-4"></div>
+             <p className="text-slate-400 text-sm">{t('レンダリング中...')}</p>
+          </div>
+        ) : error instanceof LLMError ? (
+          <div className="text-sm px-4 text-center space-y-2 max-w-md">
+            <div className="text-red-600 font-semibold">{t(LLM_ERROR_INFO[error.kind].title)}</div>
+            <div className="text-red-500">{tError(error)}</div>
+            <div className="text-slate-500">{t(error.hint)}</div>
+          </div>
+        ) : error ? (
+           <div className="text-red-500 text-sm px-4 text-center">{tError(error)}</div>
+        ) : renderSettings.backend === 'server' && !renderSettings.serverUrl ? (
+          <div className="text-slate-400 text-sm">{t('PlantUMLサーバーのURLを入力してください')}</div>
+        ) : previewUrl && targets.length > 0 ? (
+          <div className="relative inline-block" onClick={() => onInspect(null)}>
+            <img src={previewUrl} alt="PlantUML Salt Preview" className="block max-w-full" />
+            {targets.map(target => (
+              <button
+                key={target.offset}
+                type="button"
+                onClick={(e) => { e.stopPropagation(); onInspect({ offset: target.offset, line: target.line }); }}
+                title={t('{line}行目', { line: target.line })}
+                className={`absolute rounded-sm ${inspected?.offset === target.offset ? 'outline outline-2 outline-sky-500 bg-sky-400/25' : 'hover:outline hover:outline-1 hover:outline-sky-400 hover:bg-sky-400/10'}`}
+                style={{ left: target.left, top: target.top, width: target.width, height: target.height }}
+                aria-label={t('{line}行目の要素', { line: target.line })}
+              />
+            ))}
+          </div>
+        ) : previewUrl ? (
+          <img src={previewUrl} alt="PlantUML Salt Preview" className={`max-w-full max-h-full object-contain ${isLoading ? 'opacity-60' : ''}`} />
+        ) : (
+          <div className="text-slate-400 text-sm">{t('ここにプレビューが表示されます')}</div>
+        )}
+      </div>
+      {isInspecting && (
+        <div className="mt-3 flex flex-wrap items-center gap-2 text-xs text-slate-400">
+          {inspected ? (
+            <>
+              <span className="text-slate-200">{t('{line}行目の要素を選択中', { line: inspected.line })}</span>
+              {inspectedBox ? (
+                <button onClick={onRefineElement} className="px-2 py-1 bg-blue-600 rounded text-white hover:bg-blue-700">{t('この要素を修正')}</button>
+              ) : hasElementBoxes ? (
+                <span>{t('元画像では見つかりませんでした')}</span>
+              ) : (
+                <button
+                  onClick={onLocate}
+                  disabled={!canLocate || isLocating}
+                  title={canLocate ? t('モデルに元画像での各要素の位置を問い合わせます') : t('入力画像がありません')}
+                  className="px-2 py-1 bg-slate-600 rounded text-white hover:bg-slate-500 disabled:opacity-50"
+                >
+                  {isLocating ? t('位置を特定中...') : t('元画像で位置を特定')}
+                </button>
+              )}
+              <button onClick={() => onInspect(null)} className="px-2 py-1 bg-slate-600 rounded text-white hover:bg-slate-500">{t('選択解除')}</button>
+            </>
+          ) : canInspect ? (
+            <span>{t('プレビュー上の要素をクリックすると、対応するコード行と元画像の位置を表示します')}</span>
+          ) : null}
+          {locateError && <span className="text-red-400">{tError(locateError)}</span>}
+        </div>
+      )}
+    </section>
+  );
+};
+
+const TOKEN_STYLES: Record<SaltTokenType, string> = {
+  marker: 'text-pink-400 font-semibold',
+  fence: 'text-slate-500',
+  comment: 'text-slate-500 italic',
+  directive: 'text-purple-300',
+  block: 'text-amber-300 font-semibold',
+  brace: 'text-amber-300',
+  button: 'text-sky-300',
+  checkbox: 'text-emerald-300',
+  radio: 'text-emerald-300',
+  textfield: 'text-lime-300',
+  combo: 'text-orange-300',
+  separator: 'text-slate-400',
+  pipe: 'text-slate-500',
+  tree: 'text-amber-300',
+  text: 'text-slate-200',
+  whitespace: '',
+};
+
+const EDITOR_LINE_HEIGHT = 20;
+const EDITOR_PADDING = 16;
+
+/** Width of text in monospace columns; full-width characters take two. */
+const columnWidth = (text: string): number =>
+  Array.from(text).reduce((sum, ch) => sum + (ch.charCodeAt(0) > 0x2e80 ? 2 : 1), 0);
+
+interface SaltEditorProps {
+  value: string;
+  onChange: (value: string) => void;
+  onBlur: () => void;
+  diagnostics: SaltDiagnostic[];
+  readOnly: boolean;
+  /** 1-based line of the element picked in the preview; it is marked and scrolled into view. */
+  highlightLine: number | null;
+}
+
+const SaltEditor: React.FC<SaltEditorProps> = ({ value, onChange, onBlur, diagnostics, readOnly, highlightLine }) => {
+  const { t } = useI18n();
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const highlightRef = useRef<HTMLPreElement>(null);
+  const gutterRef = useRef<HTMLDivElement>(null);
+  const pendingSelectionRef = useRef<[number, number] | null>(null);
+  const [cursor, setCursor] = useState(0);
+  const [scroll, setScroll] = useState({ top: 0, left: 0 });
+  const [suggestions, setSuggestions] = useState<{ start: number; items: SaltSnippet[]; index: number } | null>(null);
+
+  const lines = useMemo(() => value.split('\n'), [value]);
+  const brackets = useMemo(() => readOnly ? null : findMatchingBracket(value, cursor), [value, cursor, readOnly]);
+  const diagnosticsByLine = useMemo(() => {
+    const map = new Map<number, SaltDiagnostic[]>();
+    diagnostics.forEach(d => map.set(d.line, [...(map.get(d.line) || []), d]));
+    return map;
+  }, [diagnostics]);
+
+  useLayoutEffect(() => {
+    const selection = pendingSelectionRef.current;
+    if (selection && textareaRef.current) {
+      textareaRef.current.setSelectionRange(selection[0], selection[1]);
+      setCursor(selection[1]);
+      pendingSelectionRef.current = null;
+    }
+  }, [value]);
+
+  useEffect(() => {
+    if (highlightLine && textareaRef.current) textareaRef.current.scrollTop = Math.max(0, (highlightLine - 3) * EDITOR_LINE_HEIGHT);
+  }, [highlightLine]);
+
+  // Keep the streamed output scrolled to the end while the model is writing.
+  useEffect(() => {
+    if (readOnly && textareaRef.current) textareaRef.current.scrollTop = textareaRef.current.scrollHeight;
+  }, [value, readOnly]);
+
+  const handleScroll = () => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    if (highlightRef.current) {
+      highlightRef.current.scrollTop = textarea.scrollTop;
+      highlightRef.current.scrollLeft = textarea.scrollLeft;
+    }
+    if (gutterRef.current) gutterRef.current.scrollTop = textarea.scrollTop;
+    setScroll({ top: textarea.scrollTop, left: textarea.scrollLeft });
+  };
+
+  // The word being completed runs back from the caret to the last space or cell separator.
+  const openSuggestions = (text: string, caret: number) => {
+    const lineStart = text.lastIndexOf('\n', caret - 1) + 1;
+    const before = text.slice(lineStart, caret);
+    const prefix = before.match(/[^\s|]*$/)![0];
+    const items = matchSnippets(prefix);
+    setSuggestions(items.length ? { start: caret - prefix.length, items, index: 0 } : null);
+  };
+
+  const applySnippet = (snippet: SaltSnippet) => {
+    if (!suggestions || !textareaRef.current) return;
+    const caret = textareaRef.current.selectionStart;
+    const lineStart = value.lastIndexOf('\n', suggestions.start - 1) + 1;
+    const indent = value.slice(lineStart).match(/^\s*/)![0];
+    const insertText = snippet.insertText.replace(/\n/g, `\n${indent}`);
+    const next = value.slice(0, suggestions.start) + insertText + value.slice(caret);
+    // Placeholder offsets shift by the indentation added to the lines before them.
+    const shift = (offset: number) => offset + (snippet.insertText.slice(0, offset).split('\n').length - 1) * indent.length;
+    const [from, to] = snippet.select ? snippet.select.map(shift) : [insertText.length, insertText.length];
+    pendingSelectionRef.current = [suggestions.start + from, suggestions.start + to];
+    setSuggestions(null);
+    onChange(next);
+  };
+
+  const handleChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
+    const next = e.target.value;
+    const caret = e.target.selectionStart;
+    onChange(next);
+    setCursor(caret);
+    const typed = next.length > value.length ? next[caret - 1] : '';
+    if (typed === '{' || typed === '[' || (suggestions && typed && !/\s/.test(typed))) {
+      openSuggestions(next, caret);
+    } else {
+      setSuggestions(null);
+    }
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    const textarea = e.currentTarget;
+    if (suggestions) {
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        e.preventDefault();
+        const delta = e.key === 'ArrowDown' ? 1 : -1;
+        setSuggestions({ ...suggestions, index: (suggestions.index + delta + suggestions.items.length) % suggestions.items.length });
+        return;
+      }
+      if (e.key === 'Enter' || e.key === 'Tab') {
+        e.preventDefault();
+        applySnippet(suggestions.items[suggestions.index]);
+        return;
+      }
+      if (e.key === 'Escape') {
+        e.preventDefault();
+        setSuggestions(null);
+        return;
+      }
+    }
+    if (e.key === ' ' && e.ctrlKey) {
+      e.preventDefault();
+      openSuggestions(value, textarea.selectionStart);
+    } else if (e.key === 'Tab') {
+      e.preventDefault();
+      const { selectionStart, selectionEnd } = textarea;
+      pendingSelectionRef.current = [selectionStart + 2, selectionStart + 2];
+      onChange(value.slice(0, selectionStart) + '  ' + value.slice(selectionEnd));
+    }
+  };
+
+  const jumpTo = (d: SaltDiagnostic) => {
+    const textarea = textareaRef.current;
+    if (!textarea) return;
+    const offset = lines.slice(0, d.line - 1).reduce((sum, line) => sum + line.length + 1, 0) + d.column - 1;
+    textarea.focus();
+    textarea.setSelectionRange(offset, offset);
+    setCursor(offset);
+    textarea.scrollTop = Math.max(0, (d.line - 3) * EDITOR_LINE_HEIGHT);
+  };
+
+  const renderLine = (line: string, lineOffset: number) => {
+    const tokens = tokenizeSaltLine(line, lineOffset);
+    return tokens.map((token, index) => {
+      const marks = brackets?.filter(b => b >= token.offset && b < token.offset + token.text.length) || [];
+      if (!marks.length) return <span key={index} className={TOKEN_STYLES[token.type]}>{token.text}</span>;
+      // Split the token so that matched brackets can be outlined.
+      const pieces: React.ReactNode[] = [];
+      let start = 0;
+      marks.sort((a, b) => a - b).forEach((mark, markIndex) => {
+        const at = mark - token.offset;
+        if (at > start) pieces.push(token.text.slice(start, at));
+        pieces.push(<span key={markIndex} className="bg-slate-600 outline outline-1 outline-amber-300 rounded-sm">{token.text[at]}</span>);
+        start = at + 1;
+      });
+      if (start < token.text.length) pieces.push(token.text.slice(start));
+      return <span key={index} className={TOKEN_STYLES[token.type]}>{pieces}</span>;
+    });
+  };
+
+  const caretLine = value.slice(0, suggestions?.start ?? 0).split('\n');
+  const popupTop = EDITOR_PADDING + caretLine.length * EDITOR_LINE_HEIGHT - scroll.top;
+  const popupLeft = `calc(3rem + ${columnWidth(caretLine[caretLine.length - 1])}ch - ${scroll.left}px)`;
+
+  let lineOffset = 0;
+  return (
+    <div className="flex-grow flex flex-col min-h-0 gap-2">
+      <div className="relative flex-grow min-h-0 bg-slate-900 rounded-md border border-slate-700 overflow-hidden font-mono text-sm leading-5">
+        <div ref={gutterRef} className="absolute left-0 top-0 bottom-0 w-10 overflow-hidden select-none text-right text-slate-600" style={{ paddingTop: EDITOR_PADDING, paddingBottom: EDITOR_PADDING }}>
+          {lines.map((_, index) => {
+            const lineDiagnostics = diagnosticsByLine.get(index + 1);
+            const hasError = lineDiagnostics?.some(d => d.severity === 'error');
+            return (
+              <div key={index} title={lineDiagnostics?.map(d => diagnosticMessage(d, t)).join('\n')} className={`pr-2 ${lineDiagnostics ? (hasError ? 'text-red-400' : 'text-amber-400') : ''}`}>
+                {lineDiagnostics ? '●' : index + 1}
+              </div>
+            );
+          })}
+        </div>
+        <pre
+          ref={highlightRef}
+          aria-hidden="true"
+          className="absolute inset-0 m-0 overflow-hidden whitespace-pre pl-12 pr-4 pointer-events-none"
+          style={{ paddingTop: EDITOR_PADDING, paddingBottom: EDITOR_PADDING }}
+        >
+          {lines.map((line, index) => {
+            const start = lineOffset;
+            lineOffset += line.length + 1;
+            const lineDiagnostics = diagnosticsByLine.get(index + 1);
+            const hasError = lineDiagnostics?.some(d => d.severity === 'error');
+            return (
+              <div
+                key={index}
+                className={lineDiagnostics ? (hasError ? 'bg-red-900/30' : 'bg-amber-900/30') : index + 1 === highlightLine ? 'bg-sky-800/50' : ''}
+              >
+                {line ? renderLine(line, start) : ' '}
+              </div>
+            );
+          })}
+        </pre>
+        <textarea
+          ref={textareaRef}
+          value={value}
+          onChange={handleChange}
+          onKeyDown={handleKeyDown}
+          onSelect={(e) => setCursor(e.currentTarget.selectionStart)}
+          onScroll={handleScroll}
+          onBlur={() => { setSuggestions(null); onBlur(); }}
+          readOnly={readOnly}
+          spellCheck={false}
+          wrap="off"
+          aria-label={t('PlantUML Salt コード')}
+          className="absolute inset-0 w-full h-full resize-none bg-transparent text-transparent caret-slate-100 outline-none whitespace-pre overflow-auto pl-12 pr-4 selection:bg-blue-500/40"
+          style={{ paddingTop: EDITOR_PADDING, paddingBottom: EDITOR_PADDING }}
+        />
+        {suggestions && (
+          <ul
+            className="absolute z-10 bg-slate-800 border border-slate-600 rounded shadow-xl text-xs max-h-48 overflow-auto min-w-[14rem]"
+            style={{ top: popupTop, left: popupLeft }}
+          >
+            {suggestions.items.map((snippet, index) => (
+              <li
+                key={snippet.label}
+                onMouseDown={(e) => { e.preventDefault(); applySnippet(snippet); }}
+                className={`flex justify-between gap-4 px-2 py-1 cursor-pointer ${index === suggestions.index ? 'bg-blue-600 text-white' : 'text-slate-200 hover:bg-slate-700'}`}
+              >
+                <span className="font-mono">{snippet.label}</span>
+                <span className={index === suggestions.index ? 'text-blue-100' : 'text-slate-400'}>{t(snippet.description)}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+      {diagnostics.length > 0 && !readOnly && (
+        <ul className="max-h-20 overflow-auto text-xs font-mono space-y-0.5">
+          {diagnostics.map((d, index) => (
+            <li key={index}>
+              <button
+                onClick={() => jumpTo(d)}
+                className={`text-left hover:underline ${d.severity === 'error' ? 'text-red-400' : 'text-amber-400'}`}
+              >
+                {d.line}:{d.column} {diagnosticMessage(d, t)}
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+interface CodeOutputProps {
+  saltCode: string | null;
+  diagnostics: SaltDiagnostic[];
+  isLoading: boolean;
+  onCodeChange: (code: string) => void;
+  onCodeBlur: () => void;
+  /** File name without extension used for exports. */
+  fileBaseName: string;
+  highlightLine: number | null;
+  /** Replaces the code in one step, for formatting and lint fixes. */
+  onCodeReplace: (code: string) => void;
+  lintSettings: SaltLintSettings;
+  onLintSettingsChange: (settings: SaltLintSettings) => void;
+  onShare: () => void;
+}
+
+const CodeOutput: React.FC<CodeOutputProps> = ({
+  saltCode, diagnostics, isLoading, onCodeChange, onCodeBlur, fileBaseName, highlightLine, onCodeReplace, lintSettings, onLintSettingsChange, onShare,
+}) => {
+  const { locale, t, tError } = useI18n();
+  const [copied, setCopied] = useState(false);
+  const [exportFormat, setExportFormat] = useState<ExportFormat>('drawio');
+  const [exportError, setExportError] = useState<LocalizedError | null>(null);
+  const handleCopy = () => {
+    if (!saltCode) return;
+    navigator.clipboard.writeText(saltCode);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleExport = () => {
+    if (!saltCode) return;
+    const format = EXPORT_FORMATS.find(f => f.value === exportFormat)!;
+    try {
+      downloadBlob(new Blob([exportSalt(saltCode, format.value, { lang: locale })], { type: format.mimeType }), `${fileBaseName}.${format.extension}`);
+      setExportError(null);
+    } catch (err: any) {
+      setExportError(toLocalizedError(err, 'エクスポートに失敗しました'));
+    }
+  };
+
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+  const lintIssues = useMemo(
+    () => saltCode && !isLoading ? lintSalt(saltCode, lintSettings) : [],
+    [saltCode, isLoading, lintSettings]
+  );
+
+  const handleFormat = () => {
+    if (!saltCode) return;
+    const formatted = formatSalt(saltCode);
+    if (formatted !== saltCode) onCodeReplace(formatted);
+  };
+
+  const handleFix = (issues: SaltLintIssue[]) => {
+    if (saltCode) onCodeReplace(applyLintFixes(saltCode, issues));
+  };
+
+  return (
+    <section className="bg-slate-800 rounded-lg p-6 flex flex-col shadow-lg border border-slate-700 h-[450px]">
+      <div className="flex justify-between items-center mb-4">
+        <div className="flex items-center gap-3">
+          <h2 className="text-xl font-semibold text-slate-200">{t('PlantUML Salt コード')}</h2>
+          {saltCode && !isLoading && (
+            errorCount > 0 ? (
+              <span className="px-2 py-0.5 rounded bg-red-900/60 text-red-300 text-xs">{t('エラー {count}件', { count: errorCount })}{warningCount > 0 ? ` / ${t('警告 {count}件', { count: warningCount })}` : ''}</span>
+            ) : warningCount > 0 ? (
+              <span className="px-2 py-0.5 rounded bg-amber-900/60 text-amber-300 text-xs">{t('警告 {count}件', { count: warningCount })}</span>
+            ) : (
+              <span className="px-2 py-0.5 rounded bg-emerald-900/60 text-emerald-300 text-xs">{t('構文OK')}</span>
+            )
+          )}
+        </div>
+        <div className="flex items-center gap-2">
+          <select
+            value={exportFormat}
+            onChange={(e) => setExportFormat(e.target.value as ExportFormat)}
+            className="bg-slate-700 border border-slate-600 text-slate-200 text-xs rounded p-1.5"
+            aria-label={t('エクスポート形式')}
+          >
+            {EXPORT_FORMATS.map(format => (
+              <option key={format.value} value={format.value}>{t(format.label)}</option>
+            ))}
+          </select>
+          <button
+            onClick={handleFormat}
+            disabled={!saltCode || isLoading || errorCount > 0}
+            title={t('インデントを揃え、グリッドの列を整列します')}
+            className="px-3 py-1 bg-slate-600 rounded text-white text-sm hover:bg-slate-500 disabled:opacity-50 transition-colors"
+          >
+            {t('整形')}
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={!saltCode || isLoading}
+            className="px-3 py-1 bg-slate-600 rounded text-white text-sm hover:bg-slate-500 disabled:opacity-50 transition-colors"
+          >
+            {t('エクスポート')}
+          </button>
+          <button
+            onClick={onShare}
+            disabled={!saltCode || isLoading}
+            title={t('共有リンクと埋め込み用スニペットを作成します')}
+            className="px-3 py-1 bg-slate-600 rounded text-white text-sm hover:bg-slate-500 disabled:opacity-50 transition-colors"
+          >
+            {t('共有')}
+          </button>
+          <button
+            onClick={handleCopy}
+            disabled={!saltCode || isLoading}
+            className="px-3 py-1 bg-indigo-600 rounded text-white text-sm hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+          >
+            {copied ? t('コピー済み') : t('コードをコピー')}
+          </button>
+        </div>
+      </div>
+      {exportError && <div className="mb-3 text-red-400 text-xs">{tError(exportError)}</div>}
+      {isLoading && !saltCode ? (
+        <div className="flex-grow bg-slate-900 rounded-md p-4 font-mono text-sm border border-slate-700">
+          <div className="space-y-2 opacity-30">
+            <div className="h-4 bg-slate-700 w-3/4"></div>
+            <div className="h-4 bg-slate-700 w-full"></div>
+            <div className="h-4 bg-slate-700 w-1/2"></div>
+          </div>
+        </div>
+      ) : saltCode ? (
+        <SaltEditor value={saltCode} onChange={onCodeChange} onBlur={onCodeBlur} diagnostics={diagnostics} readOnly={isLoading} highlightLine={highlightLine} />
+      ) : (
+        <div className="flex-grow bg-slate-900 rounded-md p-4 font-mono text-sm border border-slate-700 text-slate-600">
+          {t('コードがここに表示されます')}
+        </div>
+      )}
+      {saltCode && !isLoading && errorCount === 0 && (
+        <div className="mt-2 text-xs">
+          <div className="flex items-center gap-2">
+            <span className={lintIssues.length > 0 ? 'text-sky-300' : 'text-slate-500'}>
+              {lintIssues.length > 0 ? t('スタイル指摘 {count}件', { count: lintIssues.length }) : t('スタイル指摘なし')}
+            </span>
+            {lintIssues.length > 0 && (
+              <button onClick={() => handleFix(lintIssues)} className="px-2 py-0.5 bg-sky-700 rounded text-white hover:bg-sky-600">{t('すべて修正')}</button>
+            )}
+            <details className="relative ml-auto">
+              <summary className="cursor-pointer text-slate-400 hover:text-slate-200">{t('ルール設定')}</summary>
+              <div className="absolute right-0 bottom-full mb-1 z-10 w-72 bg-slate-900 border border-slate-600 rounded p-3 space-y-2 shadow-xl">
+                {SALT_LINT_RULES.map(rule => (
+                  <label key={rule.id} className="flex items-start gap-2 text-slate-300">
+                    <input
+                      type="checkbox"
+                      checked={lintSettings[rule.id]}
+                      onChange={(e) => onLintSettingsChange({ ...lintSettings, [rule.id]: e.target.checked })}
+                      className="mt-0.5"
+                    />
+                    <span>
+                      {t(rule.label)}
+                      <span className="block text-slate-500">{t(rule.description)}</span>
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </details>
+          </div>
+          {lintIssues.length > 0 && (
+            <ul className="mt-1 max-h-20 overflow-auto font-mono space-y-0.5">
+              {lintIssues.map((issue, index) => (
+                <li key={index} className="flex items-start gap-2 text-sky-300">
+                  <button onClick={() => handleFix([issue])} className="shrink-0 px-1.5 bg-slate-600 rounded text-white hover:bg-slate-500">{t('修正')}</button>
+                  <span>{issue.line}:{issue.column} {diagnosticMessage(issue, t)}</span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </section>
+  );
+};
+
+type BatchStatus = 'pending' | 'running' | 'retrying' | 'done' | 'error';
+
+interface BatchItem {
+  id: string;
+  file: File;
+  outputName: string;
+  status: BatchStatus;
+  attempts: number;
+  code?: string;
+  errorCount?: number;
+  error?: LocalizedError;
+  elapsedMs?: number;
+}
+
+interface BatchConversionProps {
+  items: BatchItem[];
+  isRunning: boolean;
+  concurrency: number;
+  onConcurrencyChange: (value: number) => void;
+  maxRetries: number;
+  onMaxRetriesChange: (value: number) => void;
+  onStart: () => void;
+  onStop: () => void;
+  onClear: () => void;
+  onDownload: () => void;
+  onCreateFlow: () => void;
+  renderSettings: RenderSettings;
+}
+
+const BATCH_STATUS_LABELS: Record<BatchStatus, { label: string; className: string }> = {
+  pending: { label: '待機中', className: 'bg-slate-700 text-slate-300' },
+  running: { label: '変換中', className: 'bg-blue-900/60 text-blue-300 animate-pulse' },
+  retrying: { label: '再試行待ち', className: 'bg-amber-900/60 text-amber-300' },
+  done: { label: '完了', className: 'bg-emerald-900/60 text-emerald-300' },
+  error: { label: '失敗', className: 'bg-red-900/60 text-red-300' },
+};
+
+const BatchConversion: React.FC<BatchConversionProps> = ({
+  items, isRunning,
+  concurrency, onConcurrencyChange,
+  maxRetries, onMaxRetriesChange,
+  onStart, onStop, onClear, onDownload, onCreateFlow,
+  renderSettings
+}) => {
+  const { t, tError } = useI18n();
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const doneCount = items.filter(item => item.status === 'done').length;
+  const failedCount = items.filter(item => item.status === 'error').length;
+  const expanded = items.find(item => item.id === expandedId);
+  const expandedPreviewUrl = useMemo(
+    () => expanded?.code ? getPreviewUrl(expanded.code, renderSettings) : "",
+    [expanded?.code, renderSettings]
+  );
+
+  return (
+    <section className="bg-slate-800 rounded-lg p-6 shadow-lg border border-slate-700 mt-8">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <h2 className="text-xl font-semibold text-slate-200">
+          {t('一括変換')} <span className="text-sm text-slate-400">({t('{done}/{total} 完了', { done: doneCount, total: items.length })}{failedCount > 0 ? ` / ${t('失敗 {count}', { count: failedCount })}` : ''})</span>
+        </h2>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <label className="text-slate-400" htmlFor="batch-concurrency">{t('同時実行')}</label>
+          <select
+            id="batch-concurrency"
+            value={concurrency}
+            onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+            disabled={isRunning}
+            className="bg-slate-700 border border-slate-600 text-slate-200 rounded p-1 disabled:opacity-50"
+          >
+            {[1, 2, 3, 4].map(value => <option key={value} value={value}>{value}</option>)}
+          </select>
+          <label className="text-slate-400" htmlFor="batch-retries">{t('失敗時の再試行')}</label>
+          <select
+            id="batch-retries"
+            value={maxRetries}
+            onChange={(e) => onMaxRetriesChange(Number(e.target.value))}
+            disabled={isRunning}
+            className="bg-slate-700 border border-slate-600 text-slate-200 rounded p-1 disabled:opacity-50"
+          >
+            {[0, 1, 2, 3].map(value => <option key={value} value={value}>{t('{count}回', { count: value })}</option>)}
+          </select>
+          {isRunning ? (
+            <button onClick={onStop} className="px-3 py-1 bg-amber-600 rounded text-white hover:bg-amber-700">{t('中断')}</button>
+          ) : (
+            <button onClick={onStart} disabled={doneCount === items.length} className="px-3 py-1 bg-blue-600 rounded text-white hover:bg-blue-700 disabled:opacity-50">
+              {doneCount > 0 ? t('未完了分を変換') : t('変換開始')}
+            </button>
+          )}
+          <button onClick={onDownload} disabled={doneCount === 0} className="px-3 py-1 bg-indigo-600 rounded text-white hover:bg-indigo-700 disabled:opacity-50">
+            {t('ZIPでダウンロード')}
+          </button>
+          <button onClick={onCreateFlow} disabled={doneCount < 2} className="px-3 py-1 bg-indigo-600 rounded text-white hover:bg-indigo-700 disabled:opacity-50">
+            {t('画面遷移図を作成')}
+          </button>
+          <button onClick={onClear} disabled={isRunning} className="px-3 py-1 bg-slate-600 rounded text-white hover:bg-slate-500 disabled:opacity-50">
+            {t('クリア')}
+          </button>
+        </div>
+      </div>
+
+      <div className="h-1 bg-slate-700 rounded mb-4 overflow-hidden">
+        <div className="h-full bg-blue-500 transition-all" style={{ width: `${items.length ? (doneCount / items.length) * 100 : 0}%` }} />
+      </div>
+
+      <ul className="divide-y divide-slate-700 max-h-[360px] overflow-auto">
+        {items.map(item => (
+          <li key={item.id}>
+            <button
+              onClick={() => setExpandedId(expandedId === item.id ? null : item.id)}
+              disabled={!item.code}
+              className="w-full flex items-center gap-3 py-2 text-left text-sm disabled:cursor-default"
+            >
+              <span className={`px-2 py-0.5 rounded text-xs shrink-0 ${BATCH_STATUS_LABELS[item.status].className}`}>
+                {t(BATCH_STATUS_LABELS[item.status].label)}
+              </span>
+              <span className="text-slate-200 truncate flex-grow">{item.file.name}</span>
+              {item.errorCount ? <span className="text-red-400 text-xs shrink-0">{t('構文エラー {count}件', { count: item.errorCount })}</span> : null}
+              {item.error && <span className="text-red-400 text-xs truncate max-w-[40%]">{tError(item.error)}</span>}
+              {item.attempts > 1 && <span className="text-slate-500 text-xs shrink-0">{t('{count}回目', { count: item.attempts })}</span>}
+              {item.elapsedMs !== undefined && <span className="text-slate-500 text-xs shrink-0">{t('{seconds}秒', { seconds: Math.round(item.elapsedMs / 1000) })}</span>}
+              <span className="text-slate-500 text-xs shrink-0 font-mono">{item.outputName}</span>
+            </button>
+            {expanded?.id === item.id && item.code && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 pb-4">
+                <pre className="bg-slate-900 rounded p-3 text-xs text-blue-300 overflow-auto max-h-[300px] whitespace-pre-wrap">{item.code}</pre>
+                <div className="bg-white rounded p-2 flex items-center justify-center max-h-[300px] overflow-auto">
+                  {expandedPreviewUrl && <img src={expandedPreviewUrl} alt={`${item.file.name} preview`} className="max-w-full max-h-full object-contain" />}
+                </div>
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </section>
+  );
+};
+
+interface FlowState {
+  title: string;
+  /** Batch item ids in flow order; the first screen is the entry point. */
+  order: string[];
+  names: Record<string, string>;
+  transitions: FlowTransition[];
+}
+
+const EMPTY_FLOW: FlowState = { title: '', order: [], names: {}, transitions: [] };
+
+interface FlowEditorProps {
+  items: BatchItem[];
+  flow: FlowState;
+  onChange: (flow: FlowState) => void;
+  onClose: () => void;
+  renderSettings: RenderSettings;
+}
+
+const FlowEditor: React.FC<FlowEditorProps> = ({ items, flow, onChange, onClose, renderSettings }) => {
+  const { t } = useI18n();
+  const converted = items.filter(item => item.status === 'done' && item.code);
+  const ordered = [
+    ...flow.order.map(id => converted.find(item => item.id === id)).filter((item): item is BatchItem => !!item),
+    ...converted.filter(item => !flow.order.includes(item.id)),
+  ];
+  const screens: FlowScreen[] = ordered.map(item => ({
+    id: item.id,
+    name: flow.names[item.id] ?? item.outputName.replace(/\.[^.]+$/, ''),
+    code: item.code!,
+  }));
+  const [draft, setDraft] = useState<Omit<FlowTransition, 'id'>>({ from: '', to: '', trigger: '' });
+  const [copied, setCopied] = useState(false);
+  const from = screens.find(s => s.id === draft.from);
+  const triggers = useMemo(() => from ? listFlowTriggers(from.code) : [], [from?.code]);
+  const diagram = buildFlowDiagram(screens, flow.transitions, flow.title);
+  const previewUrl = renderSettings.backend === 'local' ? '' : getPreviewUrl(diagram, renderSettings);
+  const nameOf = (id: string) => screens.find(s => s.id === id)?.name || t('(削除された画面)');
+
+  const move = (index: number, offset: number) => {
+    const order = ordered.map(item => item.id);
+    [order[index], order[index + offset]] = [order[index + offset], order[index]];
+    onChange({ ...flow, order });
+  };
+
+  const addTransition = () => {
+    if (!draft.from || !draft.to) return;
+    onChange({ ...flow, transitions: [...flow.transitions, { ...draft, id: createId() }] });
+    setDraft({ ...draft, trigger: '' });
+  };
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(diagram).then(() => {
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    });
+  };
+
+  return (
+    <section className="bg-slate-800 rounded-lg p-6 shadow-lg border border-slate-700 mt-8">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <h2 className="text-xl font-semibold text-slate-200">{t('画面遷移図')}</h2>
+        <div className="flex items-center gap-2 text-sm">
+          <input
+            value={flow.title}
+            onChange={(e) => onChange({ ...flow, title: e.target.value })}
+            placeholder={t('タイトル (任意)')}
+            className="bg-slate-700 border border-slate-600 text-slate-200 rounded p-1"
+          />
+          <button onClick={handleCopy} className="px-3 py-1 bg-slate-600 rounded text-white hover:bg-slate-500">{copied ? t('コピーしました') : t('コピー')}</button>
+          <button
+            onClick={() => downloadBlob(new Blob([`${diagram}\n`], { type: 'text/plain' }), 'flow.puml')}
+            className="px-3 py-1 bg-indigo-600 rounded text-white hover:bg-indigo-700"
+          >
+            {t('.pumlをダウンロード')}
+          </button>
+          <button onClick={onClose} className="px-3 py-1 bg-slate-600 rounded text-white hover:bg-slate-500">{t('閉じる')}</button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        <div className="space-y-6">
+          <div>
+            <h3 className="text-slate-300 text-sm font-semibold mb-2">{t('画面 (先頭が開始画面)')}</h3>
+            <ol className="space-y-1">
+              {screens.map((screen, index) => (
+                <li key={screen.id} className="flex items-center gap-2 text-sm">
+                  <span className="text-slate-500 font-mono w-6 text-right shrink-0">{index + 1}</span>
+                  <input
+                    value={screen.name}
+                    onChange={(e) => onChange({ ...flow, names: { ...flow.names, [screen.id]: e.target.value } })}
+                    aria-label={t('画面{index}の名前', { index: index + 1 })}
+                    className="flex-grow bg-slate-700 border border-slate-600 text-slate-200 rounded p-1"
+                  />
+                  <button onClick={() => move(index, -1)} disabled={index === 0} className="px-2 text-slate-300 hover:text-white disabled:opacity-30" aria-label={t('上へ')}>↑</button>
+                  <button onClick={() => move(index, 1)} disabled={index === screens.length - 1} className="px-2 text-slate-300 hover:text-white disabled:opacity-30" aria-label={t('下へ')}>↓</button>
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          <div>
+            <h3 className="text-slate-300 text-sm font-semibold mb-2">{t('遷移')}</h3>
+            <div className="flex flex-wrap items-center gap-2 text-sm mb-2">
+              <select
+                value={draft.from}
+                onChange={(e) => setDraft({ ...draft, from: e.target.value, trigger: '' })}
+                aria-label={t('遷移元')}
+                className="bg-slate-700 border border-slate-600 text-slate-200 rounded p-1"
+              >
+                <option value="">{t('遷移元...')}</option>
+                {screens.map(screen => <option key={screen.id} value={screen.id}>{screen.name}</option>)}
+              </select>
+              <input
+                list="flow-triggers"
+                value={draft.trigger}
+                onChange={(e) => setDraft({ ...draft, trigger: e.target.value })}
+                placeholder={t('操作 (ボタン名など)')}
+                className="bg-slate-700 border border-slate-600 text-slate-200 rounded p-1"
+              />
+              <datalist id="flow-triggers">
+                {triggers.map(trigger => <option key={trigger} value={trigger} />)}
+              </datalist>
+              <span className="text-slate-400">→</span>
+              <select
+                value={draft.to}
+                onChange={(e) => setDraft({ ...draft, to: e.target.value })}
+                aria-label={t('遷移先')}
+                className="bg-slate-700 border border-slate-600 text-slate-200 rounded p-1"
+              >
+                <option value="">{t('遷移先...')}</option>
+                {screens.map(screen => <option key={screen.id} value={screen.id}>{screen.name}</option>)}
+              </select>
+              <button onClick={addTransition} disabled={!draft.from || !draft.to} className="px-3 py-1 bg-blue-600 rounded text-white hover:bg-blue-700 disabled:opacity-50">{t('追加')}</button>
+            </div>
+            {flow.transitions.length === 0 && <div className="text-slate-500 text-sm">{t('ボタンなどの操作と、その遷移先の画面を追加してください')}</div>}
+            <ul className="space-y-1 text-sm">
+              {flow.transitions.map(transition => (
+                <li key={transition.id} className="flex items-center gap-2 text-slate-300">
+                  <span className="truncate">{nameOf(transition.from)}</span>
+                  {transition.trigger && <span className="px-2 py-0.5 bg-slate-700 rounded text-xs shrink-0">{transition.trigger}</span>}
+                  <span className="text-slate-500">→</span>
+                  <span className="truncate flex-grow">{nameOf(transition.to)}</span>
+                  <button
+                    onClick={() => onChange({ ...flow, transitions: flow.transitions.filter(item => item.id !== transition.id) })}
+                    className="text-red-400 hover:underline text-xs shrink-0"
+                  >
+                    {t('削除')}
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </div>
+        </div>
+
+        <div className="space-y-3">
+          <pre className="bg-slate-900 rounded p-3 text-xs text-blue-300 overflow-auto max-h-[360px]">{diagram}</pre>
+          {previewUrl ? (
+            <div className="bg-white rounded p-2 overflow-auto max-h-[480px]">
+              <img src={previewUrl} alt={t('画面遷移図のプレビュー')} className="max-w-none" />
+            </div>
+          ) : (
+            <div className="text-slate-500 text-xs">{t('ブラウザ内レンダラーはSalt単体の図のみ対応しています。画面遷移図のプレビューはPlantUMLサーバーのレンダラーに切り替えると表示されます。')}</div>
+          )}
+        </div>
+      </div>
+    </section>
+  );
+};
+
+interface ComparisonResult {
+  id: string;
+  model: string;
+  fidelity: number;
+  status: BatchStatus;
+  code?: string;
+  errorCount?: number;
+  warningCount?: number;
+  repairRounds?: number;
+  error?: LocalizedError;
+  elapsedMs?: number;
+  usage?: TokenUsage | null;
+  /** Overall fidelity score against the source image (0-1). */
+  score?: number;
+}
+
+const ComparisonCard: React.FC<{
+  result: ComparisonResult;
+  modelLabel: string;
+  fidelityLabel: string;
+  renderSettings: RenderSettings;
+  isBest: boolean;
+  onAdopt: () => void;
+}> = ({ result, modelLabel, fidelityLabel, renderSettings, isBest, onAdopt }) => {
+  const { t, tError } = useI18n();
+  const [showCode, setShowCode] = useState(false);
+  const previewUrl = useMemo(() => result.code ? getPreviewUrl(result.code, renderSettings) : "", [result.code, renderSettings]);
+
+  return (
+    <div className={`w-80 shrink-0 bg-slate-900 rounded-lg border ${isBest ? 'border-emerald-500' : 'border-slate-700'} flex flex-col`}>
+      <div className="p-3 border-b border-slate-700 space-y-1">
+        <div className="flex justify-between items-center gap-2">
+          <span className="text-slate-200 text-sm font-semibold truncate" title={modelLabel}>{modelLabel}</span>
+          <span className={`px-2 py-0.5 rounded text-xs shrink-0 ${BATCH_STATUS_LABELS[result.status].className}`}>{t(BATCH_STATUS_LABELS[result.status].label)}</span>
+        </div>
+        <div className="flex flex-wrap gap-x-3 text-xs text-slate-400">
+          <span>{t('再現レベル:')} {fidelityLabel}</span>
+          {result.elapsedMs !== undefined && <span>{t('{seconds}秒', { seconds: (result.elapsedMs / 1000).toFixed(1) })}</span>}
+          {result.usage && <span>{t('トークン: 入力 {input} / 出力 {output}', { input: result.usage.inputTokens.toLocaleString(), output: result.usage.outputTokens.toLocaleString() })}</span>}
+          {result.score !== undefined && <span className={scoreColor(result.score)}>{t('スコア')} {formatScore(result.score)}</span>}
+          {result.errorCount ? <span className="text-red-400">{t('構文エラー {count}件', { count: result.errorCount })}</span> : null}
+        </div>
+        {result.error && <div className="text-xs text-red-400">{tError(result.error)}</div>}
+      </div>
+      <div className="bg-white h-56 flex items-center justify-center overflow-auto p-2">
+        {previewUrl ? <img src={previewUrl} alt={`${modelLabel} preview`} className="max-w-full max-h-full object-contain" /> : <span className="text-slate-400 text-xs">{result.status === 'running' ? t('変換中...') : ''}</span>}
+      </div>
+      {showCode && result.code && (
+        <pre className="bg-slate-950 p-3 text-xs text-blue-300 overflow-auto max-h-60 whitespace-pre-wrap">{result.code}</pre>
+      )}
+      <div className="p-3 flex gap-2 mt-auto">
+        <button onClick={() => setShowCode(v => !v)} disabled={!result.code} className="px-3 py-1 bg-slate-600 rounded text-white text-xs hover:bg-slate-500 disabled:opacity-50">
+          {showCode ? t('コードを隠す') : t('コードを表示')}
+        </button>
+        <button onClick={onAdopt} disabled={!result.code} className="px-3 py-1 bg-blue-600 rounded text-white text-xs hover:bg-blue-700 disabled:opacity-50 ml-auto">
+          {t('採用')}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+interface ModelComparisonProps {
+  modelOptions: { value: string; label: string }[];
+  fidelityLevels: FidelityLevel[];
+  defaultModel: string;
+  defaultFidelity: number;
+  results: ComparisonResult[];
+  isRunning: boolean;
+  canRun: boolean;
+  onRun: (models: string[], fidelities: number[]) => void;
+  onStop: () => void;
+  onAdopt: (result: ComparisonResult) => void;
+  onClose: () => void;
+  renderSettings: RenderSettings;
+}
+
+const ModelComparison: React.FC<ModelComparisonProps> = ({
+  modelOptions, fidelityLevels, defaultModel, defaultFidelity,
+  results, isRunning, canRun, onRun, onStop, onAdopt, onClose,
+  renderSettings
+}) => {
+  const { t } = useI18n();
+  const [models, setModels] = useState<string[]>(defaultModel ? [defaultModel] : []);
+  const [fidelities, setFidelities] = useState<number[]>([defaultFidelity]);
+  const toggle = <T,>(list: T[], value: T) => list.includes(value) ? list.filter(v => v !== value) : [...list, value];
+  const modelLabel = (value: string) => modelOptions.find(m => m.value === value)?.label || value;
+  const fidelityLabel = (value: number) => t(fidelityLevels.find(l => l.value === value)?.label || String(value));
+  const scored = results.filter(r => r.score !== undefined);
+  const bestId = scored.length > 1 ? scored.reduce((best, r) => r.score! > best.score! ? r : best).id : null;
+
+  return (
+    <section className="bg-slate-800 rounded-lg p-6 shadow-lg border border-slate-700 mt-8">
+      <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+        <h2 className="text-xl font-semibold text-slate-200">{t('モデル比較')}</h2>
+        <div className="flex items-center gap-2 text-sm">
+          {isRunning ? (
+            <button onClick={onStop} className="px-3 py-1 bg-amber-600 rounded text-white hover:bg-amber-700">{t('中断')}</button>
+          ) : (
+            <button
+              onClick={() => onRun(models, fidelities)}
+              disabled={!canRun || models.length === 0 || fidelities.length === 0}
+              className="px-3 py-1 bg-blue-600 rounded text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {t('比較を実行 ({count}件)', { count: models.length * fidelities.length })}
+            </button>
+          )}
+          <button onClick={onClose} disabled={isRunning} className="px-3 py-1 bg-slate-600 rounded text-white hover:bg-slate-500 disabled:opacity-50">{t('閉じる')}</button>
+        </div>
+      </div>
+      <div className="flex flex-wrap gap-x-8 gap-y-3 mb-4 text-sm">
+        <fieldset className="flex flex-wrap items-center gap-3" disabled={isRunning}>
+          <legend className="sr-only">{t('モデル')}</legend>
+          <span className="text-slate-400">{t('モデル:')}</span>
+          {modelOptions.map(option => (
+            <label key={option.value} className="flex items-center gap-1 text-slate-300">
+              <input type="checkbox" checked={models.includes(option.value)} onChange={() => setModels(list => toggle(list, option.value))} />
+              {option.label}
+            </label>
+          ))}
+        </fieldset>
+        <fieldset className="flex flex-wrap items-center gap-3" disabled={isRunning}>
+          <legend className="sr-only">{t('再現レベル')}</legend>
+          <span className="text-slate-400">{t('再現レベル:')}</span>
+          {fidelityLevels.map(level => (
+            <label key={level.value} className="flex items-center gap-1 text-slate-300">
+              <input type="checkbox" checked={fidelities.includes(level.value)} onChange={() => setFidelities(list => toggle(list, level.value))} />
+              {t(level.label)}
+            </label>
+          ))}
+        </fieldset>
+      </div>
+      {!canRun && <div className="text-slate-500 text-sm mb-4">{t('比較するには画像を読み込んでください')}</div>}
+      {results.length > 0 && (
+        <div className="flex gap-4 overflow-x-auto pb-2">
+          {results.map(result => (
+            <ComparisonCard
+              key={result.id}
+              result={result}
+              modelLabel={modelLabel(result.model)}
+              fidelityLabel={fidelityLabel(result.fidelity)}
+              renderSettings={renderSettings}
+              isBest={result.id === bestId}
+              onAdopt={() => onAdopt(result)}
+            />
+          ))}
+        </div>
+      )}
+    </section>
+  );
+};
+
+const ResultCacheManager: React.FC<{ onClose: () => void }> = ({ onClose }) => {
+  const { t, tError, locale } = useI18n();
+  const [entries, setEntries] = useState<CachedResult[] | null>(null);
+  const [expandedKey, setExpandedKey] = useState<string | null>(null);
+  const [error, setError] = useState<LocalizedError | null>(null);
+
+  const refresh = useCallback(() => {
+    listCachedResults().then(setEntries).catch(err => { console.error("Failed to load result cache", err); setError(new LocalizedError('キャッシュを読み込めませんでした。')); });
+  }, []);
+
+  useEffect(refresh, [refresh]);
+
+  const handleDelete = (key: string) => { deleteCachedResult(key).then(refresh); };
+  const handleClear = () => {
+    if (window.confirm(t('キャッシュをすべて削除しますか？'))) clearResultCache().then(refresh);
+  };
+  const totalSize = (entries || []).reduce((sum, entry) => sum + entry.code.length, 0);
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-lg border border-slate-700 shadow-2xl w-full max-w-3xl max-h-[85vh] flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center p-4 border-b border-slate-700">
+          <div>
+            <h2 className="text-lg font-semibold text-slate-200">{t('変換キャッシュ')}</h2>
+            {entries && <div className="text-xs text-slate-500">{t('{count} 件 ・ 約 {size} KB', { count: entries.length, size: Math.ceil(totalSize / 1024) })}</div>}
+          </div>
+          <div className="flex gap-3 text-sm">
+            <button onClick={handleClear} disabled={!entries?.length} className="text-red-400 hover:underline disabled:opacity-50">{t('すべて削除')}</button>
+            <button onClick={onClose} className="text-slate-400 hover:text-white">{t('閉じる')}</button>
+          </div>
+        </div>
+        <ul className="flex-grow overflow-auto divide-y divide-slate-700">
+          {error && <li className="p-4 text-red-400 text-sm">{tError(error)}</li>}
+          {entries?.length === 0 && <li className="p-4 text-slate-500 text-sm">{t('キャッシュされた変換結果はありません')}</li>}
+          {entries?.map(entry => (
+            <li key={entry.key} className="p-3">
+              <div className="flex items-center gap-3">
+                <button onClick={() => setExpandedKey(expandedKey === entry.key ? null : entry.key)} className="flex-grow min-w-0 text-left">
+                  <div className="text-slate-200 text-sm font-semibold truncate">{entry.imageName}</div>
+                  <div className="text-xs text-slate-500">
+                    {entry.model} ・ {entry.profileName} ・ {t('再現レベル {value}', { value: entry.fidelity })} ・ {new Date(entry.createdAt).toLocaleString(dateLocale(locale))} ・ {t('利用 {count} 回', { count: entry.hits })}
+                  </div>
+                </button>
+                <button onClick={() => handleDelete(entry.key)} className="text-red-400 hover:underline text-xs shrink-0">{t('削除')}</button>
+              </div>
+              {expandedKey === entry.key && (
+                <pre className="mt-2 bg-slate-950 rounded p-3 text-xs text-blue-300 overflow-auto max-h-60">{entry.code}</pre>
+              )}
+            </li>
+          ))}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+interface ShareDialogProps {
+  saltCode: string;
+  model: string;
+  fidelity: number;
+  renderSettings: RenderSettings;
+  /** Alt text of the embedded image. */
+  title: string;
+  onClose: () => void;
+}
+
+const ShareDialog: React.FC<ShareDialogProps> = ({ saltCode, model, fidelity, renderSettings, title, onClose }) => {
+  const { t } = useI18n();
+  const [format, setFormat] = useState<SnippetFormat>('markdown');
+  const [linkBack, setLinkBack] = useState(true);
+  const [copied, setCopied] = useState<'link' | 'snippet' | null>(null);
+
+  const shareUrl = useMemo(
+    () => buildShareUrl(window.location.href, { code: saltCode, model, fidelity }),
+    [saltCode, model, fidelity]
+  );
+  const imageUrl = useMemo(() => getEmbedImageUrl(saltCode, renderSettings), [saltCode, renderSettings]);
+  const snippet = buildEmbedSnippet(format, imageUrl, title, linkBack ? shareUrl : undefined);
+  const usesPublicServer = renderSettings.backend === 'public' || !renderSettings.serverUrl;
+
+  const copy = (text: string, target: 'link' | 'snippet') => {
+    navigator.clipboard.writeText(text);
+    setCopied(target);
+    setTimeout(() => setCopied(null), 2000);
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 bg-black/50 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-slate-800 rounded-lg border border-slate-700 shadow-2xl w-full max-w-2xl flex flex-col" onClick={(e) => e.stopPropagation()}>
+        <div className="flex justify-between items-center p-4 border-b border-slate-700">
+          <h2 className="text-lg font-semibold text-slate-200">{t('共有')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-sm">{t('閉じる')}</button>
+        </div>
+        <div className="p-4 space-y-5 text-sm">
+          <div className="space-y-2">
+            <div className="text-slate-300">{t('共有リンク')}</div>
+            <div className="flex gap-2">
+              <input readOnly value={shareUrl} onFocus={(e) => e.target.select()} aria-label={t('共有リンク')} className="flex-grow min-w-0 bg-slate-900 border border-slate-600 text-slate-300 rounded p-2 font-mono text-xs" />
+              <button onClick={() => copy(shareUrl, 'link')} className="px-3 py-1 bg-indigo-600 rounded text-white hover:bg-indigo-700 shrink-0">
+                {copied === 'link' ? t('コピーしました') : t('コピー')}
+              </button>
+            </div>
+            <div className="text-xs text-slate-500">{t('リンクを開くと、このコードとモデル・再現レベルが復元されます。画像は含まれません。')}</div>
+          </div>
+          <div className="space-y-2">
+            <div className="flex items-center gap-3">
+              <span className="text-slate-300">{t('埋め込み用スニペット')}</span>
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as SnippetFormat)}
+                aria-label={t('スニペットの形式')}
+                className="bg-slate-700 border border-slate-600 text-slate-200 text-xs rounded p-1"
+              >
+                {SNIPPET_FORMATS.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+              </select>
+              <label className="flex items-center gap-1 text-xs text-slate-400">
+                <input type="checkbox" checked={linkBack} onChange={(e) => setLinkBack(e.target.checked)} />
+                {t('画像から共有リンクを開く')}
+              </label>
+            </div>
+            <div className="flex gap-2 items-start">
+              <textarea readOnly value={snippet} rows={4} onFocus={(e) => e.target.select()} aria-label={t('埋め込み用スニペット')} className="flex-grow min-w-0 bg-slate-900 border border-slate-600 text-slate-300 rounded p-2 font-mono text-xs resize-none" />
+              <button onClick={() => copy(snippet, 'snippet')} className="px-3 py-1 bg-indigo-600 rounded text-white hover:bg-indigo-700 shrink-0">
+                {copied === 'snippet' ? t('コピーしました') : t('コピー')}
+              </button>
+            </div>
+            <div className="text-xs text-slate-500">
+              {usesPublicServer
+                ? t('埋め込み画像は plantuml.com で描画されます。社外に出せないコードの場合は、自前のPlantUMLサーバーのURLを設定してください。')
+                : t('埋め込み画像は {server} で描画されます。', { server: renderSettings.serverUrl })}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const ProjectThumbnail: React.FC<{ image: Blob }> = ({ image }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  useEffect(() => {
+    const objectUrl = URL.createObjectURL(image);
+    setUrl(objectUrl);
+    return () => URL.revokeObjectURL(objectUrl);
+  }, [image]);
+  return url ? <img src={url} alt="" className="w-12 h-12 object-cover rounded bg-slate-700 shrink-0" /> : null;
+};
+
+/**
+ * Orders versions depth-first so that branches appear under the version they were derived from.
+ */
+const versionTree = (versions: ProjectVersion[]): { version: ProjectVersion; depth: number; number: number }[] => {
+  const numbers = new Map(versions.map((v, i) => [v.id, i + 1]));
+  const result: { version: ProjectVersion; depth: number; number: number }[] = [];
+  const visit = (parentId: string | null, depth: number) => {
+    versions.filter(v => v.parentId === parentId).forEach(v => {
+      result.push({ version: v, depth, number: numbers.get(v.id)! });
+      visit(v.id, depth + 1);
+    });
+  };
+  visit(null, 0);
+  return result;
+};
+
+interface HistorySidebarProps {
+  projects: Project[];
+  currentProjectId: string | null;
+  disabled: boolean;
+  onOpen: (project: Project, versionId?: string) => void;
+  onRename: (project: Project, name: string) => void;
+  onDelete: (project: Project) => void;
+  onBranch: (project: Project, versionId: string) => void;
+  onClose: () => void;
+}
+
+const HistorySidebar: React.FC<HistorySidebarProps> = ({
+  projects, currentProjectId, disabled,
+  onOpen, onRename, onDelete, onBranch, onClose
+}) => {
+  const { t, locale } = useI18n();
+  const [expandedId, setExpandedId] = useState<string | null>(currentProjectId);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+
+  return (
+    <div className="fixed inset-0 z-40 flex" onClick={onClose}>
+      <aside
+        className="w-full max-w-sm h-full bg-slate-800 border-r border-slate-700 shadow-2xl flex flex-col"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex justify-between items-center p-4 border-b border-slate-700">
+          <h2 className="text-lg font-semibold text-slate-200">{t('変換履歴')}</h2>
+          <button onClick={onClose} className="text-slate-400 hover:text-white text-sm">{t('閉じる')}</button>
+        </div>
+        <ul className="flex-grow overflow-auto divide-y divide-slate-700">
+          {projects.length === 0 && <li className="p-4 text-slate-500 text-sm">{t('保存されたプロジェクトはありません')}</li>}
+          {projects.map(project => (
+            <li key={project.id} className={project.id === currentProjectId ? 'bg-slate-700/40' : ''}>
+              <div className="flex items-center gap-3 p-3">
+                <ProjectThumbnail image={project.image} />
+                <div className="flex-grow min-w-0">
+                  {renamingId === project.id ? (
+                    <input
+                      autoFocus
+                      defaultValue={project.name}
+                      onBlur={(e) => { setRenamingId(null); if (e.target.value.trim()) onRename(project, e.target.value.trim()); }}
+                      onKeyDown={(e) => { if (e.key === 'Enter') e.currentTarget.blur(); if (e.key === 'Escape') setRenamingId(null); }}
+                      className="w-full bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded px-2 py-1"
+                    />
+                  ) : (
+                    <button
+                      onClick={() => setExpandedId(expandedId === project.id ? null : project.id)}
+                      className="block w-full text-left text-slate-200 text-sm font-semibold truncate"
+                    >
+                      {project.name}
+                    </button>
+                  )}
+                  <div className="text-xs text-slate-500">
+                    {new Date(project.updatedAt).toLocaleString(dateLocale(locale))} ・ {t('{count} バージョン', { count: project.versions.length })}
+                  </div>
+                </div>
+              </div>
+              <div className="flex gap-3 px-3 pb-3 text-xs">
+                <button onClick={() => onOpen(project)} disabled={disabled} className="text-blue-400 hover:underline disabled:opacity-50">{t('開く')}</button>
+                <button onClick={() => setRenamingId(project.id)} className="text-slate-300 hover:underline">{t('名前を変更')}</button>
+                <button
+                  onClick={() => { if (window.confirm(t('「{name}」を削除しますか？', { name: project.name }))) onDelete(project); }}
+                  className="text-red-400 hover:underline"
+                >
+                  {t('削除')}
+                </button>
+              </div>
+              {expandedId === project.id && (
+                <ul className="px-3 pb-3 space-y-1">
+                  {versionTree(project.versions).map(({ version, depth, number }) => (
+                    <li
+                      key={version.id}
+                      style={{ paddingLeft: depth * 12 }}
+                      className={`flex items-center gap-2 text-xs ${version.id === project.currentVersionId ? 'text-blue-300' : 'text-slate-400'}`}
+                    >
+                      <span className="font-mono shrink-0">v{number}</span>
+                      <span className="truncate flex-grow" title={version.instruction}>
+                        {version.kind === 'convert' ? `${t('変換 ({model})', { model: version.model })}${version.region ? t(' [範囲]') : ''}` : version.kind === 'edit' ? t('手動編集') : t('修正{region}: {instruction}', { region: version.region ? t(' [範囲]') : '', instruction: version.instruction })}
+                      </span>
+                      <button onClick={() => onOpen(project, version.id)} disabled={disabled} className="text-blue-400 hover:underline shrink-0 disabled:opacity-50">{t('開く')}</button>
+                      <button onClick={() => onBranch(project, version.id)} disabled={disabled} className="text-slate-300 hover:underline shrink-0 disabled:opacity-50">{t('分岐')}</button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </li>
+          ))}
+        </ul>
+      </aside>
+      <div className="flex-grow bg-black/40" />
+    </div>
+  );
+};
+
+/** Returns value once it has stopped changing for delayMs. */
+const useDebouncedValue = <T,>(value: T, delayMs: number): T => {
+  const [debounced, setDebounced] = useState(value);
+  useEffect(() => {
+    const timer = window.setTimeout(() => setDebounced(value), delayMs);
+    return () => window.clearTimeout(timer);
+  }, [value, delayMs]);
+  return debounced;
+};
+
+interface HistoryEntry {
+  code: string;
+  /** Project version holding this code, restored as the current version on undo/redo. */
+  versionId: string | null;
+}
+
+// --- MAIN APP COMPONENT ---
+const App: React.FC = () => {
+  const [locale, setLocale] = useState<Locale>(loadLocale);
+  // Handlers read the language through a ref so that switching it does not re-create them and reconvert.
+  const localeRef = useRef(locale);
+  localeRef.current = locale;
+  const t = useCallback((text: string, params?: MessageParams) => translate(localeRef.current, text, params), []);
+  const tError = useCallback((error: unknown) => translateError(localeRef.current, error), []);
+  const i18n = useMemo(() => ({ locale, t, tError }), [locale, t, tError]);
+  useEffect(() => { document.documentElement.lang = locale; }, [locale]);
+  const [imageFile, setImageFile] = useState<File | null>(null);
+  const [saltCode, setSaltCode] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<LocalizedError | null>(null);
+  const [elapsedTime, setElapsedTime] = useState(0);
+  const [repairStatus, setRepairStatus] = useState<RepairStatus>({ rounds: 0, errorCount: 0, warningCount: 0 });
+  const timerRef = useRef<number | null>(null);
+  const isCancelledRef = useRef(false);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  // Text received so far while a response is streaming, and the last prefix of it that renders.
+  const [streamingCode, setStreamingCode] = useState<string | null>(null);
+  const [livePreviewCode, setLivePreviewCode] = useState<string | null>(null);
+  const parsedSalt = useMemo(() => saltCode ? parseSalt(saltCode) : null, [saltCode]);
+  // Manual edits re-render the preview only after typing pauses.
+  const debouncedSaltCode = useDebouncedValue(saltCode, 500);
+
+  // デフォルトの再現レベルを「詳細 (100)」に設定
+  const [fidelity, setFidelity] = useState(100);
+  const [selectedModel, setSelectedModel] = useState('gemini-3-flash-preview');
+  const [maxRepairRounds, setMaxRepairRounds] = useState(DEFAULT_MAX_REPAIR_ROUNDS);
+  const [renderSettings, setRenderSettings] = useState<RenderSettings>(loadRenderSettings);
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  // The rate limit is applied separately so that changing it does not recreate the provider and reconvert.
+  const provider = useMemo(
+    () => createProvider(providerSettings),
+    [providerSettings.provider, providerSettings.openai, providerSettings.ollama]
+  );
+  const providerEndpoint = useMemo(
+    () => getProviderEndpoint(providerSettings),
+    [providerSettings.provider, providerSettings.openai, providerSettings.ollama]
+  );
+  useEffect(() => setRequestsPerMinute(providerSettings.requestsPerMinute), [providerSettings.requestsPerMinute]);
+  const [promptSettings, setPromptSettings] = useState<PromptProfileSettings>(loadPromptProfileSettings);
+  const promptProfile = useMemo(() => getSelectedPromptProfile(promptSettings), [promptSettings]);
+  const [isProfileEditorOpen, setIsProfileEditorOpen] = useState(false);
+  const [batchItems, setBatchItems] = useState<BatchItem[]>([]);
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const [batchConcurrency, setBatchConcurrency] = useState(2);
+  const [batchMaxRetries, setBatchMaxRetries] = useState(1);
+  const batchAbortRef = useRef<AbortController | null>(null);
+  const batchRunRef = useRef<Promise<void> | null>(null);
+  const [isCompareOpen, setIsCompareOpen] = useState(false);
+  const [isCacheOpen, setIsCacheOpen] = useState(false);
+  const [isShareOpen, setIsShareOpen] = useState(false);
+  const [flow, setFlow] = useState<FlowState>(EMPTY_FLOW);
+  const [isFlowOpen, setIsFlowOpen] = useState(false);
+  const [preprocessSettings, setPreprocessSettings] = useState<PreprocessSettings>(loadPreprocessSettings);
+  const [imageInfo, setImageInfo] = useState<PreprocessResult | null>(null);
+  const [resultFromCache, setResultFromCache] = useState(false);
+  const [comparisonResults, setComparisonResults] = useState<ComparisonResult[]>([]);
+  const [isComparing, setIsComparing] = useState(false);
+  const compareAbortRef = useRef<AbortController | null>(null);
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [currentProject, setCurrentProject] = useState<Project | null>(null);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  // Read from the conversion callbacks through a ref so that saving a version does not re-trigger conversion.
+  const currentProjectRef = useRef<Project | null>(null);
+  const [pendingRefinement, setPendingRefinement] = useState<PendingRefinement | null>(null);
+  const [selectedRegion, setSelectedRegion] = useState<ImageRegion | null>(null);
+  const activeRegion = isUsableRegion(selectedRegion) ? selectedRegion : null;
+  const [imageLabels, setImageLabels] = useState<string[] | null>(null);
+  const [isExtractingLabels, setIsExtractingLabels] = useState(false);
+  const [labelError, setLabelError] = useState<LocalizedError | null>(null);
+  const [fidelityScore, setFidelityScore] = useState<FidelityScore | null>(null);
+  const [isScoring, setIsScoring] = useState(false);
+  const [showMismatchOverlay, setShowMismatchOverlay] = useState(false);
+  const [lintSettings, setLintSettings] = useState<SaltLintSettings>(loadLintSettings);
+  const [labelSettings, setLabelSettings] = useState<LabelSettings>(loadLabelSettings);
+  const [inspected, setInspected] = useState<InspectedElement | null>(null);
+  // Boxes are tied to the code they were requested for, since offsets shift with every edit.
+  const [elementBoxes, setElementBoxes] = useState<{ code: string; boxes: ElementBox[] } | null>(null);
+  const [isLocating, setIsLocating] = useState(false);
+  const [locateError, setLocateError] = useState<LocalizedError | null>(null);
+  const currentElementBoxes = elementBoxes && elementBoxes.code === saltCode ? elementBoxes.boxes : null;
+  const inspectedBox = (inspected && currentElementBoxes?.find(box => box.offset === inspected.offset)?.region) || null;
+  const fileBaseName = imageFile?.name.replace(/\.[^.]+$/, '') || 'image2salt';
+  const [undoStack, setUndoStack] = useState<HistoryEntry[]>([]);
+  const [redoStack, setRedoStack] = useState<HistoryEntry[]>([]);
+  // Set while restoring a saved project so that loading its image does not start a new conversion.
+  const skipAutoConvertRef = useRef(false);
+  const [modelOptions, setModelOptions] = useState<{ value: string; label: string }[]>([
+    { label: 'Gemini 3.0 Flash Preview', value: 'gemini-3-flash-preview' },
+    { label: 'Gemini 3.0 Pro Preview', value: 'gemini-3-pro-preview' }
+  ]);
+
+  useEffect(() => {
+    let active = true;
+    getAvailableModels(provider)
+      .then(models => {
+        if (!active) return;
+        setModelOptions(models);
+        setSelectedModel(current => models.some(m => m.value === current) ? current : (models[0]?.value || ''));
+      })
+      .catch(err => {
+        if (!active) return;
+        console.error("Failed to load models", err);
+        setModelOptions([]);
+        setError(toLocalizedError(err, 'モデル一覧の取得に失敗しました'));
+      });
+    return () => { active = false; };
+  }, [provider]);
+
+  const refreshProjects = useCallback(() => {
+    listProjects().then(setProjects).catch(err => console.error("Failed to load projects", err));
+  }, []);
+
+  useEffect(() => { refreshProjects(); }, [refreshProjects]);
+
+  // Labels read from the image belong to that image only.
+  useEffect(() => {
+    setImageLabels(null);
+    setLabelError(null);
+  }, [imageFile]);
+
+  // Element locations belong to that image only.
+  useEffect(() => {
+    setElementBoxes(null);
+    setLocateError(null);
+  }, [imageFile]);
+
+  // A picked element is identified by its offset, which any edit may invalidate.
+  useEffect(() => { setInspected(null); }, [saltCode]);
+
+  // The layout comparison runs locally, so it is redone whenever the code settles.
+  useEffect(() => {
+    if (!imageFile || !debouncedSaltCode || isLoading) {
+      if (!debouncedSaltCode) setFidelityScore(null);
+      return;
+    }
+    let active = true;
+    setIsScoring(true);
+    scoreFidelity(imageFile, debouncedSaltCode, imageLabels)
+      .then(score => { if (active) setFidelityScore(score); })
+      .catch(err => { if (active) { console.error("Failed to score fidelity", err); setFidelityScore(null); } })
+      .finally(() => { if (active) setIsScoring(false); });
+    return () => { active = false; };
+  }, [imageFile, debouncedSaltCode, imageLabels, isLoading]);
+
+  const handleExtractLabels = async () => {
+    if (!imageFile || !selectedModel) return;
+    setIsExtractingLabels(true);
+    setLabelError(null);
+    try {
+      const { base64, mimeType } = await fileToBase64(imageFile);
+      setImageLabels(await extractImageLabels(base64, mimeType, selectedModel, provider));
+    } catch (err: any) {
+      setLabelError(toLocalizedError(err, 'ラベルの読み取りに失敗しました'));
+    } finally {
+      setIsExtractingLabels(false);
+    }
+  };
+
+  const handleLocateElements = async () => {
+    if (!imageFile || !saltCode || !selectedModel) return;
+    const code = saltCode;
+    setIsLocating(true);
+    setLocateError(null);
+    try {
+      const { base64, mimeType } = await fileToBase64(imageFile);
+      setElementBoxes({ code, boxes: await locateElements(base64, mimeType, code, selectedModel, provider) });
+    } catch (err: any) {
+      console.error("Failed to locate elements", err);
+      setLocateError(toLocalizedError(err, '要素の位置を特定できませんでした'));
+    } finally {
+      setIsLocating(false);
+    }
+  };
+
+  // Refines through the region flow; the margin keeps the element's outline inside the crop.
+  const handleRefineElement = () => {
+    if (!inspectedBox) return;
+    const margin = 0.02;
+    setSelectedRegion(regionFromPoints(
+      inspectedBox.x - margin, inspectedBox.y - margin,
+      inspectedBox.x + inspectedBox.width + margin, inspectedBox.y + inspectedBox.height + margin
+    ));
+  };
+
+  const persistProject = useCallback((project: Project | null) => {
+    currentProjectRef.current = project;
+    setCurrentProject(project);
+    if (project) saveProject(project).then(refreshProjects).catch(err => console.error("Failed to save project", err));
+  }, [refreshProjects]);
+
+  const handleOpenProject = (project: Project, versionId: string = project.currentVersionId) => {
+    const opened = { ...project, currentVersionId: versionId };
+    const version = getCurrentVersion(opened);
+    if (!version) return;
+    if (currentProjectRef.current?.id !== project.id) {
+      skipAutoConvertRef.current = true;
+      setSelectedRegion(null);
+      setImageInfo(null);
+      setImageFile(projectImageFile(project));
+      setFidelity(project.fidelity);
+      setSelectedModel(version.model);
+    }
+    setSaltCode(version.code);
+    resetHistory();
     setError(null);
+    setElapsedTime(0);
+    setResultFromCache(false);
+    setRepairStatus({ rounds: 0, errorCount: 0, warningCount: 0 });
+    persistProject(opened);
+    setIsHistoryOpen(false);
+  };
+
+  const handleRenameProject = (project: Project, name: string) => {
+    const renamed = { ...project, name };
+    if (currentProjectRef.current?.id === project.id) {
+      persistProject(renamed);
+    } else {
+      saveProject(renamed).then(refreshProjects).catch(err => console.error("Failed to save project", err));
+    }
+  };
+
+  const handleDeleteProject = (project: Project) => {
+    if (currentProjectRef.current?.id === project.id) {
+      currentProjectRef.current = null;
+      setCurrentProject(null);
+    }
+    deleteProject(project.id).then(refreshProjects).catch(err => console.error("Failed to delete project", err));
+  };
+
+  const handleBranchProject = (project: Project, versionId: string) => {
+    const branch = branchProject(project, versionId);
+    saveProject(branch)
+      .then(() => { refreshProjects(); handleOpenProject(branch); })
+      .catch(err => console.error("Failed to save project", err));
+  };
+
+  const handleProviderSettingsChange = (settings: ProviderSettings) => {
+    // Same comparison as the provider memo: only a new backend or endpoint reloads the model list.
+    const backendChanged = settings.provider !== providerSettings.provider
+      || settings.openai !== providerSettings.openai
+      || settings.ollama !== providerSettings.ollama;
+    setProviderSettings(settings);
+    saveProviderSettings(settings);
+    setError(null);
+    // Conversion waits until the new provider's model list has been loaded.
+    if (backendChanged) setSelectedModel('');
+  };
+
+  const handleRenderSettingsChange = (settings: RenderSettings) => {
+    setRenderSettings(settings);
+    saveRenderSettings(settings);
+  };
+
+  const handlePromptSettingsChange = (settings: PromptProfileSettings) => {
+    setPromptSettings(settings);
+    savePromptProfileSettings(settings);
+  };
+
+  const updateBatchItem = (id: string, patch: Partial<BatchItem>) => {
+    setBatchItems(items => items.map(item => item.id === id ? { ...item, ...patch } : item));
+  };
+
+  const runBatch = useCallback(async (items: BatchItem[]) => {
+    const queue = items.filter(item => item.status !== 'done');
+    if (!queue.length || !selectedModel) return;
+    // A new batch replaces the running one. Runs are chained so that each waits for the one before it
+    // to stop, and a run replaced while still waiting never starts.
+    batchAbortRef.current?.abort();
+    const previous = batchRunRef.current;
+    const controller = new AbortController();
+    batchAbortRef.current = controller;
+    setIsBatchRunning(true);
+
+    const run = (async () => {
+      await previous;
+      if (controller.signal.aborted) return;
+      queue.forEach(item => updateBatchItem(item.id, { status: 'pending', attempts: 0, error: undefined }));
+      await runQueue(queue, async (item, attempt) => {
+        updateBatchItem(item.id, { status: 'running', attempts: attempt, error: undefined });
+        const startedAt = Date.now();
+        const { file } = await preprocessImage(item.file, preprocessSettings);
+        const { base64, mimeType } = await fileToBase64(file);
+        const result = await convertImageToSalt(base64, mimeType, {
+          fidelity,
+          model: selectedModel,
+          provider,
+          profile: promptProfile,
+          labels: labelSettings,
+          maxRepairRounds,
+          signal: controller.signal,
+        });
+        updateBatchItem(item.id, {
+          status: 'done',
+          code: result.code,
+          errorCount: result.diagnostics.filter(d => d.severity === 'error').length,
+          elapsedMs: Date.now() - startedAt,
+        });
+      }, {
+        concurrency: batchConcurrency,
+        maxRetries: batchMaxRetries,
+        signal: controller.signal,
+        onFailure: (item, err: any, willRetry) => {
+          if (!willRetry && !controller.signal.aborted) console.error(`Batch conversion of ${item.file.name} failed`, err);
+          updateBatchItem(item.id, controller.signal.aborted
+            ? { status: 'pending', error: undefined }
+            : { status: willRetry ? 'retrying' : 'error', error: toLocalizedError(err, 'エラーが発生しました') });
+        },
+      });
+    })();
+    batchRunRef.current = run;
+    await run;
+
+    if (batchAbortRef.current !== controller) return;
+    batchAbortRef.current = null;
+    batchRunRef.current = null;
+    setIsBatchRunning(false);
+  }, [fidelity, selectedModel, provider, promptProfile, labelSettings, maxRepairRounds, batchConcurrency, batchMaxRetries, preprocessSettings]);
+
+  const updateComparisonResult = (id: string, patch: Partial<ComparisonResult>) => {
+    setComparisonResults(results => results.map(result => result.id === id ? { ...result, ...patch } : result));
+  };
+
+  // Every model and fidelity combination runs in parallel against the current image.
+  // A new comparison replaces the running one, whose results are then dropped.
+  const runComparison = async (models: string[], fidelities: number[]) => {
+    if (!imageFile) return;
+    const results: ComparisonResult[] = models.flatMap(model => fidelities.map(fidelity => ({
+      id: `${model}-${fidelity}`, model, fidelity, status: 'pending' as BatchStatus,
+    })));
+    compareAbortRef.current?.abort();
+    const controller = new AbortController();
+    compareAbortRef.current = controller;
+    const update = (id: string, patch: Partial<ComparisonResult>) => {
+      if (compareAbortRef.current === controller) updateComparisonResult(id, patch);
+    };
+    setComparisonResults(results);
+    setIsComparing(true);
+
     try {
       const { base64, mimeType } = await fileToBase64(imageFile);
-      const refined = await refineSalt(base64, mimeType, saltCode, instruction, selectedModel);
-      setSaltCode(refined);
+      await runQueue(results, async (item) => {
+        update(item.id, { status: 'running' });
+        const startedAt = Date.now();
+        const result = await convertImageToSalt(base64, mimeType, {
+          fidelity: item.fidelity,
+          model: item.model,
+          provider,
+          profile: promptProfile,
+          labels: labelSettings,
+          maxRepairRounds,
+          signal: controller.signal,
+        });
+        const errorCount = result.diagnostics.filter(d => d.severity === 'error').length;
+        update(item.id, {
+          status: 'done',
+          code: result.code,
+          errorCount,
+          warningCount: result.diagnostics.length - errorCount,
+          repairRounds: result.repairRounds,
+          elapsedMs: Date.now() - startedAt,
+          usage: result.usage,
+        });
+        scoreFidelity(imageFile, result.code, imageLabels)
+          .then(score => update(item.id, { score: score.overall }))
+          .catch(err => console.error("Failed to score comparison result", err));
+      }, {
+        concurrency: Math.min(results.length, 4),
+        maxRetries: 0,
+        signal: controller.signal,
+        onFailure: (item, err: any) => {
+          if (!controller.signal.aborted) console.error(`Comparison with ${item.model} failed`, err);
+          update(item.id, controller.signal.aborted
+            ? { status: 'pending' }
+            : { status: 'error', error: toLocalizedError(err, 'エラーが発生しました') });
+        },
+      });
+    } catch (err: any) {
+      if (compareAbortRef.current === controller) {
+        setComparisonResults(current => current.map(result => ({ ...result, status: 'error', error: toLocalizedError(err, 'エラーが発生しました') })));
+      }
+    } finally {
+      if (compareAbortRef.current === controller) {
+        compareAbortRef.current = null;
+        setIsComparing(false);
+      }
+    }
+  };
+
+  // Adopting keeps the selected model and fidelity unchanged, since changing them would start a new conversion.
+  const handleAdoptComparison = (result: ComparisonResult) => {
+    if (!result.code || !imageFile) return;
+    setSaltCode(result.code);
+    resetHistory();
+    setError(null);
+    setResultFromCache(false);
+    setRepairStatus({ rounds: result.repairRounds || 0, errorCount: result.errorCount || 0, warningCount: result.warningCount || 0 });
+    const project = currentProjectRef.current;
+    persistProject(project
+      ? addVersion(project, { kind: 'convert', code: result.code, model: result.model, parentId: null })
+      : createProject(imageFile, result.code, { model: result.model, fidelity: result.fidelity }));
+  };
+
+  const handleImagesSelect = (files: File[]) => {
+    const names = toOutputNames(files.map(file => file.name), 'puml');
+    const items: BatchItem[] = files.map((file, index) => ({
+      id: `${Date.now()}-${index}`,
+      file,
+      outputName: names[index],
+      status: 'pending',
+      attempts: 0,
+    }));
+    setBatchItems(items);
+    setFlow(EMPTY_FLOW);
+    setIsFlowOpen(false);
+    runBatch(items);
+  };
+
+  const handleBatchDownload = () => {
+    const entries = batchItems
+      .filter(item => item.status === 'done' && item.code)
+      .map(item => ({ name: item.outputName, data: `${stripCodeFence(item.code!)}\n` }));
+    downloadBlob(createZip(entries), 'image2salt.zip');
+  };
+
+  const handleImageSelect = async (file: File) => {
+    setSelectedRegion(null);
+    setResultFromCache(false);
+    currentProjectRef.current = null;
+    setCurrentProject(null);
+    setSaltCode(null);
+    resetHistory();
+    setError(null);
+    setElapsedTime(0);
+    setRepairStatus({ rounds: 0, errorCount: 0, warningCount: 0 });
+    try {
+      const processed = await preprocessImage(file, preprocessSettings);
+      setImageInfo(processed);
+      setImageFile(processed.file);
+    } catch (err: any) {
+      setImageInfo(null);
+      setImageFile(null);
+      setError(toLocalizedError(err, '画像を読み込めませんでした。'));
+    }
+  };
+
+  const handlePreprocessSettingsChange = (settings: PreprocessSettings) => {
+    setPreprocessSettings(settings);
+    savePreprocessSettings(settings);
+  };
+
+  const handleLintSettingsChange = (settings: SaltLintSettings) => {
+    setLintSettings(settings);
+    saveLintSettings(settings);
+  };
+
+  const handleLabelSettingsChange = (settings: LabelSettings) => {
+    setLabelSettings(settings);
+    saveLabelSettings(settings);
+  };
+
+  const handleLocaleChange = (value: Locale) => {
+    setLocale(value);
+    saveLocale(value);
+  };
+
+  const startRequest = (): AbortController => {
+    abortControllerRef.current?.abort();
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    isCancelledRef.current = false;
+    setStreamingCode(null);
+    setLivePreviewCode(null);
+    return controller;
+  };
+
+  /** Whether the request has been neither cancelled nor replaced by a newer one, so its result may be shown. */
+  const isCurrentRequest = (controller: AbortController): boolean =>
+    !isCancelledRef.current && !controller.signal.aborted && abortControllerRef.current === controller;
+
+  /**
+   * Clears the shared request state, unless a newer request has replaced this one in the meantime.
+   * Returns whether the request was still the current one.
+   */
+  const finishRequest = (controller: AbortController): boolean => {
+    if (abortControllerRef.current !== controller) return false;
+    abortControllerRef.current = null;
+    setStreamingCode(null);
+    setLivePreviewCode(null);
+    return true;
+  };
+
+  const handleProgress = useCallback((partialCode: string) => {
+    if (isCancelledRef.current) return;
+    setStreamingCode(partialCode);
+    const completed = completeSaltPrefix(partialCode);
+    if (completed) setLivePreviewCode(completed);
+  }, []);
+
+  const handleCancel = () => {
+    isCancelledRef.current = true;
+    abortControllerRef.current?.abort();
+    setIsLoading(false);
+  };
+
+  // With a region, only that crop of the screenshot is converted; the project keeps the full image.
+  const processConversion = useCallback(async (region: ImageRegion | null = null, force = false) => {
+    if (!imageFile || !selectedModel) return;
+    const controller = startRequest();
+    setIsLoading(true);
+    setError(null);
+    setElapsedTime(0);
+    setResultFromCache(false);
+    setRepairStatus({ rounds: 0, errorCount: 0, warningCount: 0 });
+    if (timerRef.current) clearInterval(timerRef.current);
+    timerRef.current = window.setInterval(() => setElapsedTime(p => p + 1), 1000);
+
+    try {
+      const image = region ? await cropImage(imageFile, region) : imageFile;
+      // The cache is best effort: hashing needs a secure context and IndexedDB may be unavailable.
+      const cacheKey = await resultCacheKey({
+        image, provider: provider.id, endpoint: providerEndpoint, model: selectedModel, prompt: buildConvertPrompt(promptProfile, fidelity, labelSettings), maxRepairRounds,
+      }).catch(() => null);
+      const cached = cacheKey && !force ? await getCachedResult(cacheKey).catch(() => undefined) : undefined;
+      const { base64, mimeType } = await fileToBase64(image);
+      const result = cached || await convertImageToSalt(base64, mimeType, {
+        fidelity,
+        model: selectedModel,
+        provider,
+        profile: promptProfile,
+        labels: labelSettings,
+        maxRepairRounds,
+        onRepair: (round) => { if (isCurrentRequest(controller)) setRepairStatus(s => ({ ...s, rounds: round })); },
+        signal: controller.signal,
+        onProgress: handleProgress,
+      });
+      const errorCount = result.diagnostics.filter(d => d.severity === 'error').length;
+      // Invalid output is not cached so that the next attempt asks the model again.
+      if (!cached && cacheKey && errorCount === 0) {
+        putCachedResult({
+          key: cacheKey, code: result.code, repairRounds: result.repairRounds, diagnostics: result.diagnostics, usage: result.usage,
+          imageName: image.name, provider: provider.id, model: selectedModel, fidelity, profileName: promptProfile.name,
+        }).catch(err => console.error("Failed to cache result", err));
+      }
+      if (isCurrentRequest(controller)) {
+        setResultFromCache(!!cached);
+        setSaltCode(result.code);
+        resetHistory();
+        const project = currentProjectRef.current;
+        persistProject(project
+          ? addVersion(project, { kind: 'convert', code: result.code, model: selectedModel, parentId: null, region: region ?? undefined })
+          : createProject(imageFile, result.code, { model: selectedModel, fidelity, region: region ?? undefined }));
+        setRepairStatus({ rounds: result.repairRounds, errorCount, warningCount: result.diagnostics.length - errorCount });
+        if (errorCount > 0) {
+          setError(result.repairRounds > 0
+            ? new LocalizedError('自動修復を {rounds} 回行っても、生成されたSaltコードに構文エラーが {count} 件残っています。コード欄の指摘を確認してください。', { count: errorCount, rounds: result.repairRounds })
+            : new LocalizedError('生成されたSaltコードに構文エラーが {count} 件あります。コード欄の指摘を確認してください。', { count: errorCount }));
+        }
+      }
+    } catch (err: any) {
+      if (isCurrentRequest(controller)) {
+        console.error("Conversion failed", err);
+        setError(toLocalizedError(err, 'エラーが発生しました'));
+      }
+    } finally {
+      // A superseded request leaves the timer and loading state to the request that replaced it.
+      if (finishRequest(controller)) {
+        setIsLoading(false);
+        if (timerRef.current) { clearInterval(timerRef.current); timerRef.current = null; }
+      }
+    }
+  }, [imageFile, fidelity, selectedModel, provider, providerEndpoint, promptProfile, labelSettings, maxRepairRounds, handleProgress, persistProject]);
+
+  // The chat is stored in the project; updates go through the ref so that they compose across awaits.
+  const updateConversation = useCallback((update: (project: Project) => Partial<Pick<Project, 'conversation' | 'constraints'>>) => {
+    const project = currentProjectRef.current;
+    if (project) persistProject({ ...project, ...update(project), updatedAt: Date.now() });
+  }, [persistProject]);
+
+  const updateTurn = useCallback((id: string, changes: Partial<ChatTurn>) => {
+    updateConversation(project => ({
+      conversation: (project.conversation || []).map(turn => turn.id === id ? { ...turn, ...changes } : turn),
+    }));
+  }, [updateConversation]);
+
+  const handleRefine = useCallback(async (instruction: string) => {
+    if (!imageFile || !saltCode || !selectedModel) return;
+    const project = currentProjectRef.current;
+    const conversation = { turns: project?.conversation || [], constraints: project?.constraints || [] };
+    const turn: ChatTurn = { id: createId(), instruction, reply: '', code: null, status: 'pending', region: activeRegion ?? undefined, createdAt: Date.now() };
+    updateConversation(p => ({ conversation: [...(p.conversation || []), turn] }));
+    const controller = startRequest();
+    setIsLoading(true);
+    setError(null);
+    try {
+      const { base64, mimeType } = await fileToBase64(activeRegion ? await cropImage(imageFile, activeRegion) : imageFile);
+      let reply = '';
+      const refined = await refineSalt(base64, mimeType, saltCode, instruction, selectedModel, provider, {
+        profile: promptProfile,
+        labels: labelSettings,
+        signal: controller.signal,
+        // The streamed text is only the replaced fragment, which cannot be previewed on its own.
+        onProgress: activeRegion ? undefined : handleProgress,
+        region: activeRegion ?? undefined,
+        conversation,
+        onReply: (note) => { reply = note; },
+      });
+      if (!isCurrentRequest(controller)) {
+        updateTurn(turn.id, { status: 'failed', reply: t('中断しました') });
+      } else {
+        updateTurn(turn.id, { reply, code: refined });
+        setPendingRefinement({ before: saltCode, after: refined, instruction, region: activeRegion ?? undefined, turnId: turn.id });
+      }
     } catch (err: any) {
-      setError(err.message || "修正に失敗しました");
+      const current = isCurrentRequest(controller);
+      if (current) console.error("Refinement failed", err);
+      updateTurn(turn.id, { status: 'failed', reply: current ? tError(err) || t('修正に失敗しました') : t('中断しました') });
+      if (current) setError(toLocalizedError(err, '修正に失敗しました'));
     } finally {
-      setIsLoading(false);
+      if (finishRequest(controller)) setIsLoading(false);
+    }
+  }, [imageFile, saltCode, selectedModel, provider, promptProfile, labelSettings, handleProgress, activeRegion, updateConversation, updateTurn]);
+
+  // Returns to the code of an accepted turn; like undo, the current code can be restored with redo.
+  const handleRestoreTurn = (turn: ChatTurn) => {
+    const version = turn.versionId && currentProjectRef.current?.versions.find(v => v.id === turn.versionId);
+    if (!version) return;
+    setUndoStack(stack => [...stack, currentHistoryEntry()]);
+    setRedoStack([]);
+    restoreHistoryEntry({ code: version.code, versionId: version.id });
+  };
+
+  const resetHistory = () => {
+    setPendingRefinement(null);
+    setUndoStack([]);
+    setRedoStack([]);
+  };
+
+  const currentHistoryEntry = (): HistoryEntry => ({
+    code: saltCode || '',
+    versionId: currentProjectRef.current?.currentVersionId ?? null,
+  });
+
+  const restoreHistoryEntry = (entry: HistoryEntry) => {
+    setSaltCode(entry.code);
+    const project = currentProjectRef.current;
+    if (project && entry.versionId && project.versions.some(v => v.id === entry.versionId)) {
+      persistProject({ ...project, currentVersionId: entry.versionId, updatedAt: Date.now() });
     }
-  }, [imageFile, saltCode, selectedModel]);
+  };
+
+  const handleAcceptRefinement = () => {
+    if (!pendingRefinement) return;
+    setUndoStack(stack => [...stack, currentHistoryEntry()]);
+    setRedoStack([]);
+    setSaltCode(pendingRefinement.after);
+    const project = currentProjectRef.current;
+    if (project) {
+      persistProject(addVersion(project, { kind: 'refine', code: pendingRefinement.after, model: selectedModel, instruction: pendingRefinement.instruction, region: pendingRefinement.region }));
+      updateTurn(pendingRefinement.turnId, { status: 'accepted', versionId: currentProjectRef.current!.currentVersionId });
+    }
+    setPendingRefinement(null);
+  };
+
+  const handleRejectRefinement = () => {
+    if (!pendingRefinement) return;
+    updateTurn(pendingRefinement.turnId, { status: 'rejected' });
+    setPendingRefinement(null);
+  };
+
+  const handleCodeChange = (code: string) => {
+    setSaltCode(code);
+  };
+
+  const recordEdit = (code: string | null) => {
+    const project = currentProjectRef.current;
+    const version = project && getCurrentVersion(project);
+    if (!project || !version || code === null || code === version.code) return;
+    setUndoStack(stack => [...stack, { code: version.code, versionId: version.id }]);
+    setRedoStack([]);
+    persistProject(addVersion(project, { kind: 'edit', code, model: version.model }));
+  };
+
+  // Manual edits are recorded as one version per editing session, when the editor loses focus.
+  const handleCodeBlur = () => recordEdit(saltCode);
+
+  // Formatting and lint fixes change the code in one step, so they become a version right away.
+  const handleCodeReplace = (code: string) => {
+    setSaltCode(code);
+    recordEdit(code);
+  };
+
+  const handleUndo = () => {
+    const entry = undoStack[undoStack.length - 1];
+    if (!entry) return;
+    setUndoStack(stack => stack.slice(0, -1));
+    setRedoStack(stack => [...stack, currentHistoryEntry()]);
+    restoreHistoryEntry(entry);
+  };
+
+  const handleRedo = () => {
+    const entry = redoStack[redoStack.length - 1];
+    if (!entry) return;
+    setRedoStack(stack => stack.slice(0, -1));
+    setUndoStack(stack => [...stack, currentHistoryEntry()]);
+    restoreHistoryEntry(entry);
+  };
+
+  // A share link restores its code without an image. The fragment is removed once read so that
+  // reloading the page does not throw away later edits.
+  useEffect(() => {
+    const openSharedLink = () => {
+      let shared: SharedState | null;
+      try {
+        shared = parseShareFragment(window.location.hash);
+      } catch (err: any) {
+        setError(toLocalizedError(err, 'エラーが発生しました'));
+        return;
+      }
+      if (!shared) return;
+      window.history.replaceState(null, '', window.location.pathname + window.location.search);
+      currentProjectRef.current = null;
+      setCurrentProject(null);
+      setImageFile(null);
+      setImageInfo(null);
+      setSelectedRegion(null);
+      setFidelity(shared.fidelity);
+      if (shared.model) setSelectedModel(shared.model);
+      setSaltCode(shared.code);
+      resetHistory();
+      setError(null);
+      setElapsedTime(0);
+      setResultFromCache(false);
+      setRepairStatus({ rounds: 0, errorCount: 0, warningCount: 0 });
+    };
+    openSharedLink();
+    window.addEventListener('hashchange', openSharedLink);
+    return () => window.removeEventListener('hashchange', openSharedLink);
+  }, []);
 
-  useEffect(() => { if (imageFile) processConversion(); }, [imageFile, processConversion]);
+  useEffect(() => {
+    if (skipAutoConvertRef.current) {
+      skipAutoConvertRef.current = false;
+      return;
+    }
+    if (imageFile) processConversion();
+  }, [imageFile, processConversion]);
 
   return (
+    <I18nContext.Provider value={i18n}>
     <div className="bg-slate-900 text-white min-h-screen font-sans flex flex-col">
       <div className="container mx-auto p-6 lg:p-12 flex-grow">
+        <div className="flex justify-start mb-4">
+          <button
+            onClick={() => setIsHistoryOpen(true)}
+            className="px-3 py-1 bg-slate-700 rounded text-slate-200 text-sm hover:bg-slate-600"
+          >
+            {t('履歴 ({count})', { count: projects.length })}
+          </button>
+          <button
+            onClick={() => setIsCompareOpen(true)}
+            className="ml-2 px-3 py-1 bg-slate-700 rounded text-slate-200 text-sm hover:bg-slate-600"
+          >
+            {t('モデル比較')}
+          </button>
+          <button
+            onClick={() => setIsCacheOpen(true)}
+            className="ml-2 px-3 py-1 bg-slate-700 rounded text-slate-200 text-sm hover:bg-slate-600"
+          >
+            {t('キャッシュ')}
+          </button>
+          {currentProject && <span className="ml-3 self-center text-slate-400 text-sm truncate">{currentProject.name}</span>}
+          <select
+            value={locale}
+            onChange={(e) => handleLocaleChange(e.target.value as Locale)}
+            className="ml-auto bg-slate-700 border border-slate-600 text-slate-200 text-sm rounded px-2 py-1"
+            aria-label={t('表示言語')}
+          >
+            {LOCALES.map(option => <option key={option.value} value={option.value}>{option.label}</option>)}
+          </select>
+        </div>
         <header className="text-center mb-12">
           <h1 className="text-5xl font-extrabold tracking-tight text-transparent bg-clip-text bg-gradient-to-r from-blue-400 to-indigo-500 py-2">
             Image2Salt
           </h1>
-          <p className="text-slate-400 mt-3 text-lg">UI画像をPlantUML Saltコードに瞬時に変換</p>
+          <p className="text-slate-400 mt-3 text-lg">{t('UI画像をPlantUML Saltコードに瞬時に変換')}</p>
         </header>
 
         <ConversionOptions
@@ -427,35 +3284,204 @@ const App: React.FC = () => {
           selectedModel={selectedModel}
           onModelChange={setSelectedModel}
           modelOptions={modelOptions}
-          disabled={isLoading}
+          providerSettings={providerSettings}
+          onProviderSettingsChange={handleProviderSettingsChange}
+          maxRepairRounds={maxRepairRounds}
+          onMaxRepairRoundsChange={setMaxRepairRounds}
+          promptProfiles={listPromptProfiles(promptSettings)}
+          promptProfile={promptProfile}
+          onPromptProfileSelect={(id) => handlePromptSettingsChange({ ...promptSettings, selectedId: id })}
+          onEditPromptProfiles={() => setIsProfileEditorOpen(true)}
+          labelSettings={labelSettings}
+          onLabelSettingsChange={handleLabelSettingsChange}
+          disabled={isLoading || isBatchRunning}
         />
+        {isProfileEditorOpen && (
+          <PromptProfileEditor
+            settings={promptSettings}
+            onSave={(settings) => { handlePromptSettingsChange(settings); setIsProfileEditorOpen(false); }}
+            onClose={() => setIsProfileEditorOpen(false)}
+          />
+        )}
         
+        {pendingRefinement && (
+          <RefinementReview
+            refinement={pendingRefinement}
+            renderSettings={renderSettings}
+            onAccept={handleAcceptRefinement}
+            onReject={handleRejectRefinement}
+          />
+        )}
+
         <main className="grid grid-cols-1 lg:grid-cols-2 gap-8 items-start">
           <div className="space-y-8 flex flex-col">
             <ImageInput 
-              onImageSelect={handleImageSelect} 
-              onRetry={processConversion} 
-              onCancel={() => { isCancelledRef.current = true; setIsLoading(false); }}
+              onImageSelect={handleImageSelect}
+              onImagesSelect={handleImagesSelect}
+              onRetry={(force) => processConversion(null, force)}
+              onCancel={handleCancel}
               imageFile={imageFile} 
               isLoading={isLoading} 
               elapsedTime={elapsedTime} 
               hasResult={!!saltCode || !!error}
+              fromCache={resultFromCache}
+              repairStatus={repairStatus}
+              region={selectedRegion}
+              onRegionChange={setSelectedRegion}
+              onConvertRegion={() => processConversion(activeRegion)}
+              mismatches={showMismatchOverlay && fidelityScore ? fidelityScore.layout.mismatches : []}
+              highlight={inspectedBox}
+              imageInfo={imageInfo}
+              preprocessSettings={preprocessSettings}
+              onPreprocessSettingsChange={handlePreprocessSettingsChange}
             />
             {saltCode && (
-              <RefinementControl onRefine={handleRefine} isLoading={isLoading} />
+              <RefinementChat
+                turns={currentProject?.conversation || []}
+                constraints={currentProject?.constraints || []}
+                currentVersionId={currentProject?.currentVersionId ?? null}
+                reviewTurnId={pendingRefinement?.turnId ?? null}
+                onSend={handleRefine}
+                onRestoreTurn={handleRestoreTurn}
+                onConstraintsChange={(constraints) => updateConversation(() => ({ constraints }))}
+                onClear={() => updateConversation(() => ({ conversation: [] }))}
+                onUndo={handleUndo}
+                onRedo={handleRedo}
+                canUndo={undoStack.length > 0}
+                canRedo={redoStack.length > 0}
+                isLoading={isLoading || !!pendingRefinement}
+                hasRegion={!!activeRegion}
+              />
+            )}
+            {saltCode && (
+              <FidelityPanel
+                score={fidelityScore}
+                isScoring={isScoring}
+                hasLabels={!!imageLabels}
+                isExtractingLabels={isExtractingLabels}
+                labelError={labelError}
+                onExtractLabels={handleExtractLabels}
+                showOverlay={showMismatchOverlay}
+                onShowOverlayChange={setShowMismatchOverlay}
+                disabled={isLoading || !imageFile}
+              />
             )}
           </div>
           <div className="space-y-8 flex flex-col">
-            <SaltPreview saltCode={saltCode} isLoading={isLoading} error={error} />
-            <CodeOutput saltCode={saltCode} isLoading={isLoading} />
+            <SaltPreview
+              saltCode={isLoading ? livePreviewCode : debouncedSaltCode}
+              isLoading={isLoading}
+              error={error}
+              renderSettings={renderSettings}
+              onRenderSettingsChange={handleRenderSettingsChange}
+              fileBaseName={fileBaseName}
+              inspected={inspected}
+              onInspect={setInspected}
+              inspectedBox={inspectedBox}
+              hasElementBoxes={!!currentElementBoxes}
+              isLocating={isLocating}
+              locateError={locateError}
+              onLocate={handleLocateElements}
+              onRefineElement={handleRefineElement}
+              canLocate={!!imageFile && !isLoading}
+            />
+            <CodeOutput
+              saltCode={isLoading ? streamingCode : saltCode}
+              diagnostics={isLoading ? [] : parsedSalt?.diagnostics ?? []}
+              isLoading={isLoading}
+              onCodeChange={handleCodeChange}
+              onCodeBlur={handleCodeBlur}
+              fileBaseName={fileBaseName}
+              highlightLine={isLoading ? null : inspected?.line ?? null}
+              onCodeReplace={handleCodeReplace}
+              lintSettings={lintSettings}
+              onLintSettingsChange={handleLintSettingsChange}
+              onShare={() => setIsShareOpen(true)}
+            />
           </div>
         </main>
+
+        {batchItems.length > 0 && (
+          <BatchConversion
+            items={batchItems}
+            isRunning={isBatchRunning}
+            concurrency={batchConcurrency}
+            onConcurrencyChange={setBatchConcurrency}
+            maxRetries={batchMaxRetries}
+            onMaxRetriesChange={setBatchMaxRetries}
+            onStart={() => runBatch(batchItems)}
+            onStop={() => batchAbortRef.current?.abort()}
+            onClear={() => { setBatchItems([]); setFlow(EMPTY_FLOW); setIsFlowOpen(false); }}
+            onDownload={handleBatchDownload}
+            onCreateFlow={() => setIsFlowOpen(true)}
+            renderSettings={renderSettings}
+          />
+        )}
+
+        {isFlowOpen && batchItems.length > 0 && (
+          <FlowEditor
+            items={batchItems}
+            flow={flow}
+            onChange={setFlow}
+            onClose={() => setIsFlowOpen(false)}
+            renderSettings={renderSettings}
+          />
+        )}
+
+        {isCompareOpen && (
+          <ModelComparison
+            modelOptions={modelOptions}
+            fidelityLevels={[...promptProfile.fidelityLevels].sort((a, b) => a.value - b.value)}
+            defaultModel={selectedModel}
+            defaultFidelity={resolveFidelityLevel(promptProfile, fidelity)?.value ?? fidelity}
+            results={comparisonResults}
+            isRunning={isComparing}
+            canRun={!!imageFile && !isLoading}
+            onRun={runComparison}
+            onStop={() => compareAbortRef.current?.abort()}
+            onAdopt={handleAdoptComparison}
+            onClose={() => setIsCompareOpen(false)}
+            renderSettings={renderSettings}
+          />
+        )}
       </div>
 
+      {isCacheOpen && <ResultCacheManager onClose={() => setIsCacheOpen(false)} />}
+      {isShareOpen && saltCode && (
+        <ShareDialog
+          saltCode={saltCode}
+          model={selectedModel}
+          fidelity={fidelity}
+          renderSettings={renderSettings}
+          title={currentProject?.name || fileBaseName}
+          onClose={() => setIsShareOpen(false)}
+        />
+      )}
+      {isHistoryOpen && (
+        <HistorySidebar
+          projects={projects}
+          currentProjectId={currentProject?.id ?? null}
+          disabled={isLoading}
+          onOpen={handleOpenProject}
+          onRename={handleRenameProject}
+          onDelete={handleDeleteProject}
+          onBranch={handleBranchProject}
+          onClose={() => setIsHistoryOpen(false)}
+        />
+      )}
+
       <footer className="w-full text-center py-8 text-slate-500 text-sm border-t border-slate-800 bg-slate-900 mt-12">
-        <p>PlantUML Salt形式で出力されます。公式レンダラーを使用してプレビューを表示しています。</p>
+        <p>
+          {t('PlantUML Salt形式で出力されます。')}
+          {renderSettings.backend === 'local'
+            ? t('プレビューはブラウザ内で描画され、外部には送信されません。')
+            : renderSettings.backend === 'server'
+              ? t('自前のPlantUMLサーバーでプレビューを表示しています。')
+              : t('公式レンダラー (plantuml.com) を使用してプレビューを表示しています。')}
+        </p>
       </footer>
     </div>
+    </I18nContext.Provider>
   );
 };
 
@@ -0,0 +1,66 @@
+import { spawnSync } from 'node:child_process';
+import { mkdtemp, readFile, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import path from 'node:path';
+import { build } from 'vite';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+
+// The CLI runs on import, so it is built like `npm run build:cli` and run as a child process. The build
+// goes under node_modules so that it resolves its dependencies from there.
+const outDir = path.resolve(__dirname, '../node_modules/.cache/image2salt-cli-test');
+const cli = path.join(outDir, 'image2salt.js');
+let dir: string;
+
+beforeAll(async () => {
+  dir = await mkdtemp(path.join(tmpdir(), 'image2salt-cli-'));
+  await build({ logLevel: 'silent', build: { ssr: path.resolve(__dirname, 'image2salt.ts'), outDir, emptyOutDir: true } });
+  await writeFile(path.join(dir, 'login.png'), Buffer.from('89504e470d0a1a0a', 'hex'));
+}, 60_000);
+
+afterAll(async () => {
+  await rm(dir, { recursive: true, force: true });
+  await rm(outDir, { recursive: true, force: true });
+});
+
+const run = (...args: string[]) => {
+  const env = { ...process.env };
+  delete env.GEMINI_API_KEY;
+  delete env.API_KEY;
+  const { status, stdout, stderr } = spawnSync(process.execPath, [cli, ...args], { cwd: dir, env, encoding: 'utf8', timeout: 30_000 });
+  return { status, stdout, stderr };
+};
+
+describe('image2salt', () => {
+  it('exits with the usage code for invalid arguments', () => {
+    expect(run().status).toBe(2);
+    expect(run('convert', 'login.png', '--fidelity', 'extreme').status).toBe(2);
+    expect(run('convert', 'login.png', '--provider', 'ollama').stderr).toContain('--model');
+  });
+
+  it('exits with the usage code when the API key is missing', () => {
+    const { status, stderr } = run('convert', 'login.png');
+    expect(status).toBe(2);
+    expect(stderr).toContain('GEMINI_API_KEY');
+  });
+
+  it('converts with the mock provider and reports the model it used', async () => {
+    const { status, stdout } = run('convert', 'login.png', '--provider', 'mock', '--out', 'out', '--json');
+    expect(status).toBe(0);
+    const [result] = JSON.parse(stdout).results;
+    expect(result).toMatchObject({ status: 'converted', model: 'mock', output: path.join('out', 'login.puml') });
+    expect(await readFile(path.join(dir, 'out', 'login.puml'), 'utf8')).toMatch(/^@startsalt[\s\S]*@endsalt\n$/);
+  }, 30_000);
+
+  it('replays a recorded evaluation and fails cases that were not recorded', async () => {
+    await writeFile(path.join(dir, 'login.puml'), '@startsalt\n{\n  [OK]\n}\n@endsalt\n');
+    const recorded = run('eval', '.', '--provider', 'mock', '--record', 'responses.json', '--json');
+    expect(recorded.status).toBe(0);
+    const replayed = run('eval', '.', '--provider', 'mock', '--replay', 'responses.json', '--json');
+    expect(replayed.status).toBe(0);
+    expect(JSON.parse(replayed.stdout).results[0].similarity).toEqual(JSON.parse(recorded.stdout).results[0].similarity);
+
+    const other = run('eval', '.', '--provider', 'mock', '--model', 'other', '--replay', 'responses.json');
+    expect(other.status).toBe(3);
+    expect(other.stderr).toContain('--record');
+  }, 30_000);
+});
@@ -0,0 +1,491 @@
+#!/usr/bin/env node
+import { createHash } from "node:crypto";
+import { access, mkdir, readdir, readFile, writeFile } from "node:fs/promises";
+import path from "node:path";
+import { parseArgs } from "node:util";
+import { convertImageToSalt, refineSalt, setRequestsPerMinute, DEFAULT_MAX_REPAIR_ROUNDS } from "../services/geminiService";
+import { runQueue, toOutputNames } from "../services/batchService";
+import { compareSaltTrees, formatEvalReport, summarizeEval, EvalCaseResult, EvalVariant } from "../services/evalService";
+import {
+  createProvider, createRecordingProvider, createReplayProvider, getDefaultProviderSettings, DEFAULT_REQUESTS_PER_MINUTE, LLMError,
+  ProviderId, PROVIDER_OPTIONS, ResponseRecording, TokenUsage
+} from "../services/providers";
+import { stripCodeFence } from "../services/plantumlService";
+import { DEFAULT_PROMPT_PROFILE, parsePromptProfiles, LabelMode, LabelSettings, LABEL_MODES, PromptProfile } from "../services/promptProfiles";
+import { parseSalt, SaltDiagnostic } from "../services/saltParser";
+
+/** Exit codes, so that documentation builds can tell invalid output from failed requests. */
+const EXIT_OK = 0;
+const EXIT_INVALID_SALT = 1;
+const EXIT_USAGE = 2;
+const EXIT_FAILED = 3;
+
+/** Model used without --model. The OpenAI-compatible and Ollama servers offer no common model, so they need one. */
+const DEFAULT_MODELS: Partial<Record<ProviderId, string>> = { gemini: 'gemini-3-flash-preview', mock: 'mock' };
+const CACHE_FILE = '.image2salt-cache.json';
+
+/** Names accepted by --fidelity besides a number from 1 to 100. */
+const FIDELITY_ALIASES: Record<string, number> = { simple: 10, standard: 50, detailed: 100 };
+
+const MIME_TYPES: Record<string, string> = {
+  '.png': 'image/png',
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.webp': 'image/webp',
+  '.gif': 'image/gif',
+  '.bmp': 'image/bmp',
+};
+
+const HELP = `使い方:
+  image2salt convert <画像...> [オプション]
+  image2salt refine <Saltファイル> --image <画像> --refine <指示> [オプション]
+  image2salt eval <フォルダ> [--profile <ファイル>...] [--model <名前>...] [オプション]
+
+オプション:
+  --model <名前>          使用するモデル (既定: ${DEFAULT_MODELS.gemini}、mock では mock)。openai と ollama では必須。eval では複数指定可
+  --provider <名前>       ${PROVIDER_OPTIONS.map(p => p.value).join(' | ')} (既定: gemini)
+  --fidelity <値>         simple | standard | detailed | 1-100、またはプロファイルのレベル名 (既定: standard)
+  --profile <ファイル>    アプリからエクスポートしたプロンプトプロファイル (JSON) の最初のプロファイルを使用。eval では複数指定可
+  --labels <扱い>         画像から読み取ったラベルの扱い: ${LABEL_MODES.map(m => m.value).join(' | ')} (既定: プロファイルの出力言語に従う)
+  --label-language <言語> --labels translate の翻訳先 (指定すると --labels translate を省略可)
+  --refine <指示>         変換後に適用する修正指示 (複数指定可)
+  --out <パス>            convert: 出力ディレクトリ (既定: 画像と同じ場所) / refine: 出力ファイル / eval: レポート (Markdown) の出力先 (既定: 標準出力)
+  --image <画像>          refine で参照する元画像
+  --record <ファイル>     eval: モデルの応答をファイルに記録する
+  --replay <ファイル>     eval: モデルを呼ばず、--record で記録した応答を使う
+  --cache                 画像と設定が前回と同じなら変換を省略 (出力先の ${CACHE_FILE} に記録)
+  --json                  結果をメタデータ付きのJSONで標準出力に書き出す
+  --max-repair <回数>     構文エラーの自動修正の上限 (既定: ${DEFAULT_MAX_REPAIR_ROUNDS})
+  --concurrency <数>      同時に変換する画像の数 (既定: 2)
+  --rpm <数>              1分あたりのリクエスト数の上限、0 で無制限 (既定: ${DEFAULT_REQUESTS_PER_MINUTE})
+  -h, --help              このヘルプを表示
+
+終了コード:
+  ${EXIT_OK}  すべて成功
+  ${EXIT_INVALID_SALT}  構文エラーの残るSaltが出力された
+  ${EXIT_USAGE}  引数の誤り、または接続設定 (APIキー・URL) がない
+  ${EXIT_FAILED}  変換に失敗した画像がある (eval: 失敗したケースがある)
+
+環境変数: GEMINI_API_KEY, OPENAI_BASE_URL, OPENAI_API_KEY, OLLAMA_BASE_URL`;
+
+class UsageError extends Error {}
+
+/** The prompt versions and models compared by the eval command, and where responses are recorded. */
+interface EvalOptions {
+  profiles: { name: string; profile: PromptProfile }[];
+  models: string[];
+  record?: string;
+  replay?: string;
+}
+
+interface CliOptions {
+  model: string;
+  provider: ProviderId;
+  fidelity: number;
+  profile: PromptProfile;
+  /** Omitted when neither --labels nor --label-language is given, so the profile decides. */
+  labels?: LabelSettings;
+  refine: string[];
+  out?: string;
+  image?: string;
+  cache: boolean;
+  json: boolean;
+  maxRepairRounds: number;
+  concurrency: number;
+}
+
+interface FileResult {
+  input: string;
+  output?: string;
+  status: 'converted' | 'cached' | 'failed';
+  model: string;
+  fidelity: number;
+  /** SHA-256 of the image bytes. */
+  hash?: string;
+  repairRounds?: number;
+  usage?: TokenUsage | null;
+  elapsedMs?: number;
+  diagnostics?: SaltDiagnostic[];
+  /** The Salt code, included only when it was not written to a file. */
+  code?: string;
+  error?: string;
+}
+
+interface CacheEntry {
+  /** Hash of the image together with every option that affects the output. */
+  key: string;
+  result: FileResult;
+}
+
+type CacheManifest = Record<string, CacheEntry>;
+
+const sha256 = (data: string | Buffer): string => createHash('sha256').update(data).digest('hex');
+
+const log = (message: string) => process.stderr.write(`${message}\n`);
+
+const toInteger = (value: string | undefined, name: string, fallback: number): number => {
+  if (value === undefined) return fallback;
+  const number = Number(value);
+  if (!Number.isInteger(number) || number < 0) throw new UsageError(`${name} には0以上の整数を指定してください: ${value}`);
+  return number;
+};
+
+const resolveFidelity = (value: string | undefined, profile: PromptProfile): number => {
+  if (value === undefined) return FIDELITY_ALIASES.standard;
+  if (/^\d+$/.test(value) && Number(value) >= 1 && Number(value) <= 100) return Number(value);
+  const alias = FIDELITY_ALIASES[value.toLowerCase()];
+  if (alias) return alias;
+  const level = profile.fidelityLevels.find(l => l.label === value);
+  if (level) return level.value;
+  throw new UsageError(`--fidelity の値が不正です: ${value}`);
+};
+
+const resolveLabels = (mode: string | undefined, language: string | undefined): LabelSettings | undefined => {
+  if (mode === undefined && language === undefined) return undefined;
+  const resolved = mode ?? 'translate';
+  if (!LABEL_MODES.some(m => m.value === resolved)) throw new UsageError(`--labels の値が不正です: ${mode}`);
+  return { mode: resolved as LabelMode, targetLanguage: language || '' };
+};
+
+const loadProfile = async (file: string | undefined): Promise<PromptProfile> => {
+  if (!file) return DEFAULT_PROMPT_PROFILE;
+  return parsePromptProfiles(await readFile(file, 'utf8'))[0];
+};
+
+const readImage = async (file: string): Promise<{ data: Buffer; base64: string; mimeType: string }> => {
+  const mimeType = MIME_TYPES[path.extname(file).toLowerCase()];
+  if (!mimeType) throw new UsageError(`対応していない画像形式です: ${file}`);
+  const data = await readFile(file);
+  return { data, base64: data.toString('base64'), mimeType };
+};
+
+const exists = (file: string) => access(file).then(() => true, () => false);
+
+const readCache = async (file: string): Promise<CacheManifest> => {
+  try {
+    return JSON.parse(await readFile(file, 'utf8'));
+  } catch {
+    return {};
+  }
+};
+
+/** Error text for the log, with the remedy for classified API errors. */
+const describeError = (error: any): string =>
+  error instanceof LLMError ? `${error.message} ${error.hint}` : error?.message || String(error);
+
+const errorCount = (diagnostics: SaltDiagnostic[] = []) => diagnostics.filter(d => d.severity === 'error').length;
+
+const printDiagnostics = (file: string, diagnostics: SaltDiagnostic[]) => {
+  diagnostics.forEach(d => log(`${file}:${d.line}:${d.column}: ${d.severity === 'error' ? 'エラー' : '警告'}: ${d.message}`));
+};
+
+const exitCodeFor = (results: FileResult[]): number => {
+  if (results.some(r => r.status === 'failed')) return EXIT_FAILED;
+  if (results.some(r => errorCount(r.diagnostics) > 0)) return EXIT_INVALID_SALT;
+  return EXIT_OK;
+};
+
+const runConvert = async (inputs: string[], options: CliOptions): Promise<FileResult[]> => {
+  if (inputs.length === 0) throw new UsageError('変換する画像を指定してください。');
+  inputs.forEach(input => {
+    if (!MIME_TYPES[path.extname(input).toLowerCase()]) throw new UsageError(`対応していない画像形式です: ${input}`);
+  });
+
+  const provider = createProvider({ ...getDefaultProviderSettings(), provider: options.provider });
+  provider.assertConfigured();
+  const names = toOutputNames(inputs, 'puml');
+  const outputs = inputs.map((input, i) => options.out
+    ? path.join(options.out, names[i])
+    : path.join(path.dirname(input), path.basename(names[i])));
+  if (options.out) await mkdir(options.out, { recursive: true });
+
+  // One manifest per output directory, keyed by output file name.
+  const cacheFiles = [...new Set(outputs.map(output => path.join(path.dirname(output), CACHE_FILE)))];
+  const caches = new Map<string, CacheManifest>();
+  if (options.cache) {
+    for (const file of cacheFiles) caches.set(file, await readCache(file));
+  }
+  const settingsKey = JSON.stringify([
+    options.provider, options.model, options.fidelity, { ...options.profile, id: undefined }, options.refine, options.maxRepairRounds,
+    // Appended only when given so that existing cache entries stay valid.
+    ...(options.labels ? [options.labels] : []),
+  ]);
+
+  const results: FileResult[] = inputs.map(input => ({ input, status: 'failed', model: options.model, fidelity: options.fidelity }));
+  const items = inputs.map((input, index) => ({ input, output: outputs[index], index }));
+
+  await runQueue(items, async ({ input, output, index }) => {
+    const image = await readImage(input);
+    const hash = sha256(image.data);
+    const key = sha256(hash + settingsKey);
+    const cache = caches.get(path.join(path.dirname(output), CACHE_FILE));
+    const cached = cache?.[path.basename(output)];
+    if (cached && cached.key === key && await exists(output)) {
+      results[index] = { ...cached.result, status: 'cached' };
+      log(`${input}: 変更なし (キャッシュ)`);
+      return;
+    }
+
+    log(`${input}: 変換中...`);
+    const startedAt = Date.now();
+    const conversion = await convertImageToSalt(image.base64, image.mimeType, {
+      fidelity: options.fidelity,
+      model: options.model,
+      provider,
+      profile: options.profile,
+      labels: options.labels,
+      maxRepairRounds: options.maxRepairRounds,
+      onRepair: round => log(`${input}: 構文エラーを修正中 (${round}回目)`),
+      onRetry: (retry, error) => log(`${input}: ${error.message} 再試行します (${retry}回目)`),
+    });
+    let code = conversion.code;
+    for (const instruction of options.refine) {
+      log(`${input}: 修正中: ${instruction}`);
+      code = await refineSalt(image.base64, image.mimeType, code, instruction, options.model, provider, { profile: options.profile, labels: options.labels });
+    }
+    const diagnostics = options.refine.length > 0 ? parseSalt(code).diagnostics : conversion.diagnostics;
+
+    await writeFile(output, `${stripCodeFence(code)}\n`);
+    printDiagnostics(output, diagnostics);
+    const result: FileResult = {
+      input,
+      output,
+      status: 'converted',
+      model: options.model,
+      fidelity: options.fidelity,
+      hash,
+      repairRounds: conversion.repairRounds,
+      usage: conversion.usage,
+      elapsedMs: Date.now() - startedAt,
+      diagnostics,
+    };
+    results[index] = result;
+    // Invalid output is not cached so that the next run tries again.
+    if (cache && errorCount(diagnostics) === 0) cache[path.basename(output)] = { key, result };
+    log(`${input}: ${output} に出力しました`);
+  }, {
+    concurrency: options.concurrency,
+    maxRetries: 1,
+    onFailure: ({ input, index }, error: any, willRetry) => {
+      if (willRetry) return;
+      results[index] = { ...results[index], error: error?.message || String(error) };
+      log(`${input}: 失敗: ${describeError(error)}`);
+    },
+  });
+
+  for (const [file, cache] of caches) await writeFile(file, `${JSON.stringify(cache, null, 2)}\n`);
+  return results;
+};
+
+const runRefine = async (inputs: string[], options: CliOptions): Promise<FileResult[]> => {
+  if (inputs.length !== 1) throw new UsageError('修正するSaltファイルを1つ指定してください。');
+  if (!options.image) throw new UsageError('--image で元画像を指定してください。');
+  if (options.refine.length === 0) throw new UsageError('--refine で修正指示を指定してください。');
+
+  const [input] = inputs;
+  const provider = createProvider({ ...getDefaultProviderSettings(), provider: options.provider });
+  provider.assertConfigured();
+  const image = await readImage(options.image);
+  const startedAt = Date.now();
+  const result: FileResult = { input, status: 'failed', model: options.model, fidelity: options.fidelity, hash: sha256(image.data) };
+  try {
+    let code = await readFile(input, 'utf8');
+    for (const instruction of options.refine) {
+      log(`${input}: 修正中: ${instruction}`);
+      code = await refineSalt(image.base64, image.mimeType, code, instruction, options.model, provider, { profile: options.profile, labels: options.labels });
+    }
+    const { diagnostics } = parseSalt(code);
+    if (options.out) {
+      await writeFile(options.out, `${stripCodeFence(code)}\n`);
+    } else if (!options.json) {
+      process.stdout.write(`${stripCodeFence(code)}\n`);
+    }
+    printDiagnostics(options.out || input, diagnostics);
+    Object.assign(result, { status: 'converted', output: options.out, elapsedMs: Date.now() - startedAt, diagnostics, code: options.out ? undefined : stripCodeFence(code) });
+  } catch (error: any) {
+    result.error = error?.message || String(error);
+    log(`${input}: 失敗: ${describeError(error)}`);
+  }
+  return [result];
+};
+
+/**
+ * Converts every screenshot in the folder that has an expected <name>.puml next to it, once per
+ * profile and model, and reports how close each result is to the expected Salt.
+ */
+const runEval = async (inputs: string[], options: CliOptions, evalOptions: EvalOptions): Promise<number> => {
+  if (inputs.length !== 1) throw new UsageError('評価ケースのフォルダを1つ指定してください。');
+  if (evalOptions.record && evalOptions.replay) throw new UsageError('--record と --replay は同時に指定できません。');
+
+  const [folder] = inputs;
+  const cases: { name: string; image: string; expected: string }[] = [];
+  for (const file of (await readdir(folder)).sort()) {
+    if (!MIME_TYPES[path.extname(file).toLowerCase()]) continue;
+    const name = path.basename(file, path.extname(file));
+    const expected = path.join(folder, `${name}.puml`);
+    if (await exists(expected)) cases.push({ name, image: path.join(folder, file), expected });
+    else log(`${file}: 期待するSalt (${name}.puml) がないため省略します`);
+  }
+  if (cases.length === 0) throw new UsageError(`${folder} に評価ケース (画像と同名の .puml) がありません。`);
+
+  const recording: ResponseRecording = evalOptions.replay ? JSON.parse(await readFile(evalOptions.replay, 'utf8')) : {};
+  let provider = createProvider({ ...getDefaultProviderSettings(), provider: options.provider });
+  if (evalOptions.replay) {
+    provider = createReplayProvider(provider, recording);
+    // Nothing is sent to the backend, so there is no rate limit to respect.
+    setRequestsPerMinute(0);
+  } else if (evalOptions.record) {
+    provider = createRecordingProvider(provider, recording);
+  }
+  provider.assertConfigured();
+
+  const variants = evalOptions.profiles.flatMap(({ name, profile }) => evalOptions.models.map(model => ({
+    variant: { id: `${name} / ${model}`, profile: name, model } as EvalVariant,
+    profile,
+  })));
+  const items = cases.flatMap(testCase => variants.map(variant => ({ testCase, ...variant })));
+  const results: EvalCaseResult[] = items.map(({ testCase, variant }) => ({
+    case: testCase.name, variant: variant.id, similarity: null, syntaxErrors: 0, repairRounds: 0, usage: null, elapsedMs: 0,
+  }));
+
+  await runQueue(items.map((item, index) => ({ ...item, index })), async ({ testCase, variant, profile, index }) => {
+    const label = `${testCase.name} (${variant.id})`;
+    log(`${label}: 変換中...`);
+    const [image, expected] = await Promise.all([readImage(testCase.image), readFile(testCase.expected, 'utf8')]);
+    const startedAt = Date.now();
+    const conversion = await convertImageToSalt(image.base64, image.mimeType, {
+      fidelity: options.fidelity,
+      model: variant.model,
+      provider,
+      profile,
+      labels: options.labels,
+      maxRepairRounds: options.maxRepairRounds,
+      onRetry: (retry, error) => log(`${label}: ${error.message} 再試行します (${retry}回目)`),
+    });
+    const similarity = compareSaltTrees(expected, conversion.code);
+    results[index] = {
+      ...results[index],
+      similarity,
+      syntaxErrors: errorCount(conversion.diagnostics),
+      repairRounds: conversion.repairRounds,
+      usage: conversion.usage,
+      elapsedMs: Date.now() - startedAt,
+    };
+    log(`${label}: 総合 ${similarity.overall.toFixed(3)}`);
+  }, {
+    concurrency: options.concurrency,
+    // Retrying would only repeat a missing recording; transient API errors are retried by generate().
+    maxRetries: 0,
+    onFailure: ({ testCase, variant, index }, error: any) => {
+      results[index] = { ...results[index], error: describeError(error) };
+      log(`${testCase.name} (${variant.id}): 失敗: ${describeError(error)}`);
+    },
+  });
+
+  if (evalOptions.record) {
+    await writeFile(evalOptions.record, `${JSON.stringify(recording, null, 2)}\n`);
+    log(`${Object.keys(recording).length}件の応答を ${evalOptions.record} に記録しました`);
+  }
+  const evaluated = variants.map(({ variant }) => variant);
+  const report = formatEvalReport(evaluated, results);
+  if (options.out) {
+    await writeFile(options.out, report);
+    log(`評価レポートを ${options.out} に出力しました`);
+  }
+  if (options.json) {
+    process.stdout.write(`${JSON.stringify({ summaries: summarizeEval(evaluated, results), results }, null, 2)}\n`);
+  } else if (!options.out) {
+    process.stdout.write(report);
+  }
+  return results.some(result => result.error) ? EXIT_FAILED : EXIT_OK;
+};
+
+const main = async (argv: string[]): Promise<number> => {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      model: { type: 'string', multiple: true },
+      provider: { type: 'string' },
+      fidelity: { type: 'string' },
+      profile: { type: 'string', multiple: true },
+      labels: { type: 'string' },
+      'label-language': { type: 'string' },
+      refine: { type: 'string', multiple: true },
+      out: { type: 'string' },
+      image: { type: 'string' },
+      record: { type: 'string' },
+      replay: { type: 'string' },
+      cache: { type: 'boolean' },
+      json: { type: 'boolean' },
+      'max-repair': { type: 'string' },
+      concurrency: { type: 'string' },
+      rpm: { type: 'string' },
+      help: { type: 'boolean', short: 'h' },
+    },
+  });
+  const [command, ...inputs] = positionals;
+  if (values.help || !command) {
+    (values.help ? process.stdout : process.stderr).write(`${HELP}\n`);
+    return values.help ? EXIT_OK : EXIT_USAGE;
+  }
+
+  const provider = (values.provider || 'gemini') as ProviderId;
+  if (!PROVIDER_OPTIONS.some(p => p.value === provider)) throw new UsageError(`不明なプロバイダーです: ${provider}`);
+  const profileFiles = values.profile?.length ? values.profile : [undefined];
+  const defaultModel = DEFAULT_MODELS[provider];
+  if (!values.model?.length && !defaultModel) throw new UsageError(`--provider ${provider} では --model でモデルを指定してください。`);
+  const models = values.model?.length ? values.model : [defaultModel!];
+  if (command !== 'eval' && (profileFiles.length > 1 || models.length > 1)) {
+    throw new UsageError('--profile と --model を複数指定できるのは eval だけです。');
+  }
+  const profiles = await Promise.all(profileFiles.map(loadProfile));
+  const [profile] = profiles;
+  const options: CliOptions = {
+    model: models[0],
+    provider,
+    fidelity: resolveFidelity(values.fidelity, profile),
+    profile,
+    labels: resolveLabels(values.labels, values['label-language']),
+    refine: values.refine || [],
+    out: values.out,
+    image: values.image,
+    cache: !!values.cache,
+    json: !!values.json,
+    maxRepairRounds: toInteger(values['max-repair'], '--max-repair', DEFAULT_MAX_REPAIR_ROUNDS),
+    concurrency: Math.max(1, toInteger(values.concurrency, '--concurrency', 2)),
+  };
+
+  setRequestsPerMinute(toInteger(values.rpm, '--rpm', DEFAULT_REQUESTS_PER_MINUTE));
+
+  if (command === 'eval') {
+    // Profiles exported from the app may share a name; fall back to the file name to tell them apart.
+    const named = profiles.map((p, i) => ({
+      name: profiles.some((other, j) => j !== i && other.name === p.name) ? profileFiles[i] ?? p.name : p.name,
+      profile: p,
+    }));
+    return runEval(inputs, options, { profiles: named, models, record: values.record, replay: values.replay });
+  }
+
+  let results: FileResult[];
+  if (command === 'convert') results = await runConvert(inputs, options);
+  else if (command === 'refine') results = await runRefine(inputs, options);
+  else throw new UsageError(`不明なコマンドです: ${command}`);
+
+  if (options.json) process.stdout.write(`${JSON.stringify({ results }, null, 2)}\n`);
+  return exitCodeFor(results);
+};
+
+// The Gemini provider reads API_KEY, which the web build defines from GEMINI_API_KEY.
+if (!process.env.API_KEY && process.env.GEMINI_API_KEY) process.env.API_KEY = process.env.GEMINI_API_KEY;
+
+main(process.argv.slice(2)).then(
+  code => { process.exitCode = code; },
+  error => {
+    const usage = error instanceof UsageError || error?.code?.startsWith?.('ERR_PARSE_ARGS');
+    // Missing connection settings are a setup problem like a wrong argument, not a failed conversion.
+    const unconfigured = error instanceof LLMError && error.kind === 'missing-key';
+    log(usage ? `${error.message}\n\n${HELP}` : `エラー: ${describeError(error)}`);
+    process.exitCode = usage || unconfigured ? EXIT_USAGE : EXIT_FAILED;
+  },
+);
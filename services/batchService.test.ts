@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { runQueue, toOutputNames } from './batchService';
+
+describe('runQueue', () => {
+  it('never runs more items at once than the concurrency allows', async () => {
+    let running = 0;
+    let peak = 0;
+    const done: number[] = [];
+    await runQueue([1, 2, 3, 4, 5], async item => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 1));
+      running--;
+      done.push(item);
+    }, { concurrency: 2, maxRetries: 0 });
+    expect(peak).toBe(2);
+    expect(done.sort()).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  it('retries a failing item and reports every failed attempt', async () => {
+    const attempts: number[] = [];
+    const failures: boolean[] = [];
+    await runQueue(['a'], async (_, attempt) => {
+      attempts.push(attempt);
+      if (attempt < 3) throw new Error('busy');
+    }, { concurrency: 1, maxRetries: 3, retryDelayMs: 0, onFailure: (_, __, willRetry) => failures.push(willRetry) });
+    expect(attempts).toEqual([1, 2, 3]);
+    expect(failures).toEqual([true, true]);
+  });
+
+  it('gives up after the last retry', async () => {
+    const failures: boolean[] = [];
+    await runQueue(['a'], async () => { throw new Error('down'); },
+      { concurrency: 1, maxRetries: 1, retryDelayMs: 0, onFailure: (_, __, willRetry) => failures.push(willRetry) });
+    expect(failures).toEqual([true, false]);
+  });
+
+  it('stops picking up items and waiting for retries once aborted', async () => {
+    const controller = new AbortController();
+    const started: number[] = [];
+    const run = runQueue([1, 2, 3], async item => {
+      started.push(item);
+      throw new Error('busy');
+    }, { concurrency: 1, maxRetries: 5, retryDelayMs: 60_000, signal: controller.signal });
+    controller.abort();
+    await run;
+    expect(started).toEqual([1]);
+  });
+});
+
+describe('toOutputNames', () => {
+  it('replaces the extension and keeps the names unique', () => {
+    expect(toOutputNames(['login.png', 'dir/Login.jpg', 'login.PNG', '.png'], 'puml'))
+      .toEqual(['login.puml', 'Login (2).puml', 'login (3).puml', 'image.puml']);
+  });
+});
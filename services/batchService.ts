@@ -0,0 +1,63 @@
+export interface QueueOptions<T> {
+  /** Number of items processed at the same time. */
+  concurrency: number;
+  /** Extra attempts per item after the first failure. */
+  maxRetries: number;
+  /** Delay before the first retry; doubles with every further attempt. */
+  retryDelayMs?: number;
+  signal?: AbortSignal;
+  /** Called after every failed attempt; willRetry is false once the item has given up. */
+  onFailure?: (item: T, error: unknown, willRetry: boolean) => void;
+}
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const onAbort = () => { clearTimeout(timer); resolve(); };
+  const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Runs the worker over all items with bounded concurrency and exponential backoff retries.
+ * Aborting the signal stops picking up new items; in-flight workers are expected to honour it too.
+ */
+export const runQueue = async <T>(
+  items: T[],
+  worker: (item: T, attempt: number) => Promise<void>,
+  options: QueueOptions<T>
+): Promise<void> => {
+  const { concurrency, maxRetries, retryDelayMs = 1000, signal, onFailure } = options;
+  let next = 0;
+
+  const runNext = async (): Promise<void> => {
+    while (next < items.length && !signal?.aborted) {
+      const item = items[next++];
+      for (let attempt = 1; ; attempt++) {
+        try {
+          await worker(item, attempt);
+          break;
+        } catch (error) {
+          const willRetry = attempt <= maxRetries && !signal?.aborted;
+          onFailure?.(item, error, willRetry);
+          if (!willRetry) break;
+          await delay(retryDelayMs * 2 ** (attempt - 1), signal);
+        }
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.max(1, Math.min(concurrency, items.length)) }, runNext));
+};
+
+/**
+ * Derives unique output file names from input file names, e.g. 'login.png' -> 'login.puml'.
+ */
+export const toOutputNames = (fileNames: string[], extension: string): string[] => {
+  const used = new Set<string>();
+  return fileNames.map(fileName => {
+    const base = fileName.replace(/^.*[\\/]/, '').replace(/\.[^.]+$/, '') || 'image';
+    let name = `${base}.${extension}`;
+    for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base} (${n}).${extension}`;
+    used.add(name.toLowerCase());
+    return name;
+  });
+};
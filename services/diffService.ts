@@ -0,0 +1,76 @@
+export type DiffType = 'equal' | 'add' | 'remove';
+
+export interface DiffLine {
+  type: DiffType;
+  text: string;
+  /** 1-based line number in the old text (absent for added lines). */
+  oldLine?: number;
+  /** 1-based line number in the new text (absent for removed lines). */
+  newLine?: number;
+}
+
+export interface SideBySideRow {
+  left?: DiffLine;
+  right?: DiffLine;
+}
+
+/**
+ * Computes a line diff of two texts using the longest common subsequence.
+ */
+export const diffLines = (oldText: string, newText: string): DiffLine[] => {
+  const a = oldText.split('\n');
+  const b = newText.split('\n');
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const result: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length || j < b.length) {
+    if (i < a.length && j < b.length && a[i] === b[j]) {
+      result.push({ type: 'equal', text: a[i], oldLine: i + 1, newLine: j + 1 });
+      i++;
+      j++;
+    } else if (j < b.length && (i >= a.length || lcs[i][j + 1] >= lcs[i + 1][j])) {
+      result.push({ type: 'add', text: b[j], newLine: j + 1 });
+      j++;
+    } else {
+      result.push({ type: 'remove', text: a[i], oldLine: i + 1 });
+      i++;
+    }
+  }
+  return result;
+};
+
+/**
+ * Pairs removed and added lines of each changed hunk so the diff can be shown in two columns.
+ */
+export const toSideBySide = (diff: DiffLine[]): SideBySideRow[] => {
+  const rows: SideBySideRow[] = [];
+  let removed: DiffLine[] = [];
+  let added: DiffLine[] = [];
+  const flush = () => {
+    for (let k = 0; k < Math.max(removed.length, added.length); k++) {
+      rows.push({ left: removed[k], right: added[k] });
+    }
+    removed = [];
+    added = [];
+  };
+  for (const line of diff) {
+    if (line.type === 'remove') {
+      removed.push(line);
+    } else if (line.type === 'add') {
+      added.push(line);
+    } else {
+      flush();
+      rows.push({ left: line, right: line });
+    }
+  }
+  flush();
+  return rows;
+};
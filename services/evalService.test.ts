@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { compareSaltTrees, EvalCaseResult, EvalVariant, formatEvalReport, summarizeEval, TreeSimilarity } from './evalService';
+import { createMockProvider, createRecordingProvider, createReplayProvider, LLMError, ResponseRecording } from './providers';
+
+const salt = (body: string) => `@startsalt\n{\n${body}\n}\n@endsalt`;
+const LOGIN = salt('  Login | "user"\n  [Cancel] | [OK]');
+
+const score = (overall: number): TreeSimilarity => ({ structure: overall, widgets: overall, labels: overall, overall });
+
+const result = (caseName: string, variant: string, overall: number | null): EvalCaseResult => ({
+  case: caseName,
+  variant,
+  similarity: overall === null ? null : score(overall),
+  syntaxErrors: 0,
+  repairRounds: 0,
+  usage: { inputTokens: 100, outputTokens: 20 },
+  elapsedMs: 1000,
+  ...(overall === null ? { error: 'timeout' } : {}),
+});
+
+describe('compareSaltTrees', () => {
+  it('scores identical documents as 1, ignoring fences and layout', () => {
+    expect(compareSaltTrees(LOGIN, `\`\`\`plantuml\n${LOGIN.replace(/ \| /g, '|')}\n\`\`\``))
+      .toEqual({ structure: 1, widgets: 1, labels: 1, overall: 1 });
+  });
+
+  it('scores the structure, widgets and labels separately', () => {
+    const relabeled = compareSaltTrees(LOGIN, salt('  Name | "user"\n  [Back] | [Send]'));
+    expect(relabeled.structure).toBe(1);
+    expect(relabeled.widgets).toBe(1);
+    expect(relabeled.labels).toBeLessThan(0.5);
+
+    const restructured = compareSaltTrees(LOGIN, salt('  Login\n  "user"\n  [Cancel]\n  [OK]'));
+    expect(restructured.structure).toBeLessThan(1);
+    expect(restructured.labels).toBe(1);
+  });
+
+  it('scores documents that share only the enclosing grid low', () => {
+    const similarity = compareSaltTrees(LOGIN, salt('  [X] Remember'));
+    expect(similarity).toMatchObject({ widgets: 0, labels: 0 });
+    expect(similarity.overall).toBeLessThan(0.25);
+  });
+});
+
+describe('summarizeEval', () => {
+  const variants: EvalVariant[] = [
+    { id: 'current', profile: 'current', model: 'm' },
+    { id: 'candidate', profile: 'candidate', model: 'm' },
+  ];
+
+  it('averages only the cases every variant converted', () => {
+    const [current, candidate] = summarizeEval(variants, [
+      result('login', 'current', 0.8), result('login', 'candidate', 0.9),
+      result('search', 'current', 0.2), result('search', 'candidate', null),
+    ]);
+    expect(current).toMatchObject({ cases: 2, failed: 0, tokens: 240 });
+    expect(current.similarity?.overall).toBeCloseTo(0.8);
+    expect(candidate).toMatchObject({ cases: 2, failed: 1 });
+    expect(candidate.similarity?.overall).toBeCloseTo(0.9);
+  });
+
+  it('reports the difference from the baseline and lists failures', () => {
+    const report = formatEvalReport(variants, [
+      result('login', 'current', 0.8), result('login', 'candidate', 0.9),
+      result('search', 'current', 0.2), result('search', 'candidate', null),
+    ]);
+    expect(report).toContain('| candidate | 0.900 (+0.100) |');
+    expect(report).toContain('| search | 0.200 | 失敗 |');
+    expect(report).toContain('- search (candidate): timeout');
+  });
+});
+
+describe('recorded responses', () => {
+  const request = { task: 'convert' as const, model: 'mock', prompt: 'convert', image: { base64: 'AAAA', mimeType: 'image/png' } };
+
+  it('replays a recorded answer without contacting the backend', async () => {
+    const recording: ResponseRecording = {};
+    const answer = await createRecordingProvider(createMockProvider(0), recording).generate(request);
+    const offline = { ...createMockProvider(0), generate: async () => { throw new Error('contacted the backend'); } };
+    expect(await createReplayProvider(offline, recording).generate(request)).toBe(answer);
+  });
+
+  it('fails with a re-record hint for a request that was not recorded', async () => {
+    const error = await createReplayProvider(createMockProvider(0), {}).generate(request).catch((e: unknown) => e);
+    expect(error).toBeInstanceOf(LLMError);
+    expect(error).toMatchObject({ kind: 'missing-recording', retryable: false });
+    expect((error as LLMError).hint).toContain('--record');
+  });
+});
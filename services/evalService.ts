@@ -0,0 +1,233 @@
+import { collectSaltLabels, normalizeLabel } from "./fidelityService";
+import { stripCodeFence } from "./plantumlService";
+import { TokenUsage } from "./providers";
+import { parseSalt, SaltNode } from "./saltParser";
+
+// --- TREE SIMILARITY ---
+
+/** Similarity of two Salt documents, each from 0 (nothing in common) to 1 (identical). */
+export interface TreeSimilarity {
+  /** Nesting, rows and cells: how alike the widget trees are when read in document order. */
+  structure: number;
+  /** Which widgets appear and how often, ignoring where. */
+  widgets: number;
+  /** Visible text, compared after folding width, case and punctuation. */
+  labels: number;
+  overall: number;
+}
+
+const STRUCTURE_WEIGHT = 0.5;
+const WIDGETS_WEIGHT = 0.25;
+const LABELS_WEIGHT = 0.25;
+
+/** Layout markers that are not widgets of their own. */
+const LAYOUT_TYPES = new Set<SaltNode['type']>(['block', 'empty', 'span']);
+
+/**
+ * Flattens the widget tree into tokens in document order: a token opening each block (with its kind
+ * and border), '|' between cells, '/' after each row, '}' closing the block, and each widget's type.
+ */
+const structureTokens = (source: string): string[] => {
+  const tokens: string[] = [];
+  const visit = (node: SaltNode) => {
+    if (node.type !== 'block') {
+      tokens.push(node.type);
+      return;
+    }
+    tokens.push(`{${node.kind}${node.border === 'none' ? '' : `:${node.border}`}`);
+    node.rows.forEach(row => {
+      row.cells.forEach((cell, index) => {
+        if (index > 0) tokens.push('|');
+        cell.items.forEach(visit);
+      });
+      tokens.push('/');
+    });
+    tokens.push('}');
+  };
+  parseSalt(stripCodeFence(source)).document.blocks.forEach(visit);
+  return tokens;
+};
+
+/** 2 × LCS / (|a| + |b|), computed one row at a time to keep memory linear. */
+const sequenceSimilarity = (a: string[], b: string[]): number => {
+  if (a.length + b.length === 0) return 1;
+  let previous = new Array<number>(b.length + 1).fill(0);
+  for (let i = 1; i <= a.length; i++) {
+    const current = new Array<number>(b.length + 1).fill(0);
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = a[i - 1] === b[j - 1] ? previous[j - 1] + 1 : Math.max(previous[j], current[j - 1]);
+    }
+    previous = current;
+  }
+  return (2 * previous[b.length]) / (a.length + b.length);
+};
+
+/** F1 of two multisets: how many items they share, relative to both sizes. */
+const multisetF1 = (expected: string[], actual: string[]): number => {
+  if (expected.length + actual.length === 0) return 1;
+  const counts = new Map<string, number>();
+  expected.forEach(item => counts.set(item, (counts.get(item) ?? 0) + 1));
+  let shared = 0;
+  actual.forEach(item => {
+    const count = counts.get(item) ?? 0;
+    if (count > 0) {
+      shared++;
+      counts.set(item, count - 1);
+    }
+  });
+  return (2 * shared) / (expected.length + actual.length);
+};
+
+/** Compares generated Salt with the expected Salt for the same screenshot. */
+export const compareSaltTrees = (expected: string, actual: string): TreeSimilarity => {
+  const expectedTokens = structureTokens(expected);
+  const actualTokens = structureTokens(actual);
+  const isWidget = (token: string) => !/^[{|/}]/.test(token) && !LAYOUT_TYPES.has(token as SaltNode['type']);
+  const structure = sequenceSimilarity(expectedTokens, actualTokens);
+  const widgets = multisetF1(expectedTokens.filter(isWidget), actualTokens.filter(isWidget));
+  const labelsOf = (source: string) => collectSaltLabels(stripCodeFence(source)).map(normalizeLabel).filter(Boolean);
+  const labels = multisetF1(labelsOf(expected), labelsOf(actual));
+  return {
+    structure,
+    widgets,
+    labels,
+    overall: structure * STRUCTURE_WEIGHT + widgets * WIDGETS_WEIGHT + labels * LABELS_WEIGHT,
+  };
+};
+
+// --- REPORT ---
+
+/** One prompt profile and model combination under evaluation. */
+export interface EvalVariant {
+  id: string;
+  profile: string;
+  model: string;
+}
+
+export interface EvalCaseResult {
+  case: string;
+  variant: string;
+  /** Null when the conversion failed. */
+  similarity: TreeSimilarity | null;
+  syntaxErrors: number;
+  repairRounds: number;
+  usage: TokenUsage | null;
+  elapsedMs: number;
+  error?: string;
+}
+
+export interface EvalSummary {
+  variant: EvalVariant;
+  cases: number;
+  failed: number;
+  /**
+   * Mean over the cases that every variant converted, so that a failure does not make a variant look
+   * better or worse than the others; null when there are no such cases.
+   */
+  similarity: TreeSimilarity | null;
+  /** Cases whose output still had syntax errors. */
+  invalid: number;
+  repairRounds: number;
+  tokens: number;
+  averageMs: number;
+}
+
+const mean = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length;
+
+export const summarizeEval = (variants: EvalVariant[], results: EvalCaseResult[]): EvalSummary[] => {
+  const failedCases = new Set(results.filter(result => !result.similarity).map(result => result.case));
+  return variants.map(variant => {
+    const own = results.filter(result => result.variant === variant.id);
+    const converted = own.filter(result => result.similarity);
+    const scored = converted.filter(result => !failedCases.has(result.case)).map(result => result.similarity as TreeSimilarity);
+    return {
+      variant,
+      cases: own.length,
+      failed: own.length - converted.length,
+      similarity: scored.length ? {
+        structure: mean(scored.map(s => s.structure)),
+        widgets: mean(scored.map(s => s.widgets)),
+        labels: mean(scored.map(s => s.labels)),
+        overall: mean(scored.map(s => s.overall)),
+      } : null,
+      invalid: own.filter(result => result.similarity && result.syntaxErrors > 0).length,
+      repairRounds: own.reduce((sum, result) => sum + result.repairRounds, 0),
+      tokens: own.reduce((sum, result) => sum + (result.usage ? result.usage.inputTokens + result.usage.outputTokens : 0), 0),
+      averageMs: converted.length ? mean(converted.map(result => result.elapsedMs)) : 0,
+    };
+  });
+};
+
+const escapeCell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+
+/** A score, followed by its difference from the baseline when there is one. */
+const formatScore = (value: number | undefined, baseline?: number): string => {
+  if (value === undefined) return '—';
+  if (baseline === undefined) return value.toFixed(3);
+  const delta = value - baseline;
+  return `${value.toFixed(3)} (${delta >= 0 ? '+' : ''}${delta.toFixed(3)})`;
+};
+
+const table = (header: string[], rows: string[][]): string[] => [
+  `| ${header.map(escapeCell).join(' | ')} |`,
+  `|${header.map((_, i) => i === 0 ? ' --- ' : ' ---: ').join('|')}|`,
+  ...rows.map(row => `| ${row.join(' | ')} |`),
+];
+
+/**
+ * Renders the evaluation as Markdown: a summary per variant and the overall score of every case.
+ * The first variant is the baseline; the scores of the others show their difference from it.
+ */
+export const formatEvalReport = (variants: EvalVariant[], results: EvalCaseResult[]): string => {
+  const summaries = summarizeEval(variants, results);
+  const baseline = summaries[0]?.similarity ?? undefined;
+  const cases = [...new Set(results.map(result => result.case))];
+  const lines = [
+    '# Salt 変換の評価',
+    '',
+    `ケース: ${cases.length} / 比較対象: ${variants.length} (基準: ${variants[0] ? escapeCell(variants[0].id) : '—'})`,
+    '',
+    '## 概要',
+    '',
+    ...table(['比較対象', '総合', '構造', 'ウィジェット', 'ラベル', '構文エラー', '自動修正', '失敗', 'トークン', '平均時間'],
+      summaries.map((summary, index) => {
+        const base = index === 0 ? undefined : baseline;
+        return [
+          escapeCell(summary.variant.id),
+          formatScore(summary.similarity?.overall, base?.overall),
+          formatScore(summary.similarity?.structure, base?.structure),
+          formatScore(summary.similarity?.widgets, base?.widgets),
+          formatScore(summary.similarity?.labels, base?.labels),
+          String(summary.invalid),
+          String(summary.repairRounds),
+          String(summary.failed),
+          summary.tokens ? summary.tokens.toLocaleString('en-US') : '—',
+          `${(summary.averageMs / 1000).toFixed(1)}秒`,
+        ];
+      })),
+    '',
+    '## ケース別の総合スコア',
+    '',
+    ...table(['ケース', ...variants.map(variant => variant.id)], cases.map(name => {
+      const find = (variant: EvalVariant) => results.find(result => result.case === name && result.variant === variant.id);
+      const base = variants[0] && find(variants[0])?.similarity?.overall;
+      return [
+        escapeCell(name),
+        ...variants.map((variant, index) => {
+          const result = find(variant);
+          if (!result) return '—';
+          if (!result.similarity) return '失敗';
+          const score = formatScore(result.similarity.overall, index === 0 || base == null ? undefined : base);
+          return result.syntaxErrors > 0 ? `${score} ⚠` : score;
+        }),
+      ];
+    })),
+  ];
+  const failures = results.filter(result => result.error);
+  if (failures.length) {
+    lines.push('', '## 失敗', '', ...failures.map(result => `- ${result.case} (${result.variant}): ${result.error}`));
+  }
+  lines.push('', '概要のスコアは、すべての比較対象で変換できたケースの平均です。');
+  lines.push('構造: ブロック・行・セルの並びの一致度 / ウィジェット: 種類ごとの個数の一致度 (F1) / ラベル: 表示テキストの一致度 (F1) / ⚠: 構文エラーが残った出力');
+  return `${lines.join('\n')}\n`;
+};
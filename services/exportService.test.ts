@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { exportSalt, UiTree } from './exportService';
+
+const FORM = '@startsalt\ntitle Sign in\n{+\n  Login | "user"\n  [X] Remember | ^Japan^\n  [Cancel] | [OK]\n}\n@endsalt';
+
+describe('exportSalt', () => {
+  it('exports the widget tree as JSON without source ranges', () => {
+    const tree: UiTree = JSON.parse(exportSalt(FORM, 'json'));
+    expect(tree).toMatchObject({ format: 'image2salt-ui-tree', version: 1, title: 'Sign in' });
+    expect(tree.blocks[0]).toMatchObject({ type: 'grid', border: 'outer' });
+    const block = tree.blocks[0] as Extract<UiTree['blocks'][number], { rows: unknown }>;
+    expect(block.rows[1].cells).toEqual([
+      [{ type: 'checkbox', checked: true, label: 'Remember' }],
+      [{ type: 'combo', value: 'Japan' }],
+    ]);
+    expect(JSON.stringify(tree)).not.toContain('range');
+  });
+
+  it('exports a draw.io cell for every visible widget', () => {
+    const xml = exportSalt(FORM, 'drawio');
+    expect(xml.startsWith('<mxfile host="Image2Salt">')).toBe(true);
+    expect(xml).toContain('<diagram name="Sign in"');
+    ['Login', 'user', '☑ Remember', 'Japan ▾', 'Cancel', 'OK'].forEach(value => expect(xml).toContain(`value="${value}"`));
+  });
+
+  it('exports a standalone HTML page with form controls', () => {
+    const html = exportSalt(FORM, 'html');
+    expect(html.startsWith('<!DOCTYPE html>')).toBe(true);
+    expect(html).toContain('<title>Sign in</title>');
+    expect(html).toContain('<input type="text" value="user"');
+    expect(html).toContain('<input type="checkbox" checked> Remember');
+    expect(html).toContain('<option>Japan</option>');
+    expect(html).toContain('>OK</button>');
+  });
+
+  it('embeds its styles and takes the page language from the options', () => {
+    const html = exportSalt(FORM, 'html', { lang: 'en' });
+    expect(html).toContain('<html lang="en">');
+    expect(html).toContain('<style>');
+    expect(html).not.toMatch(/<script|https?:\/\//);
+  });
+
+  it('escapes labels', () => {
+    const html = exportSalt('@startsalt\n{\n  [x < y & z]\n}\n@endsalt', 'html');
+    expect(html).toContain('>x &lt; y &amp; z</button>');
+  });
+
+  it('refuses code with syntax errors', () => {
+    expect(() => exportSalt('@startsalt\n{\n  [OK\n}\n@endsalt', 'json')).toThrow();
+  });
+});
@@ -0,0 +1,353 @@
+import { parseSalt, hasErrors, SaltBlock, SaltDocument, SaltNode, SaltRow } from "./saltParser";
+import { layoutSalt, plainText, escapeXml, SaltLayoutElement } from "./saltRenderer";
+
+export type ExportFormat = 'drawio' | 'html' | 'json';
+
+export interface ExportFormatOption {
+  value: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatOption[] = [
+  { value: 'drawio', label: 'draw.io (XML)', extension: 'drawio', mimeType: 'application/xml' },
+  { value: 'html', label: 'HTML', extension: 'html', mimeType: 'text/html' },
+  { value: 'json', label: 'JSON UIツリー', extension: 'json', mimeType: 'application/json' },
+];
+
+export interface ExportOptions {
+  /** Language of the exported page, e.g. the interface language; only used by the HTML export. */
+  lang?: string;
+}
+
+const parseForExport = (source: string): SaltDocument => {
+  const { document, diagnostics } = parseSalt(source);
+  if (hasErrors(diagnostics)) {
+    throw new Error("構文エラーのあるSaltコードはエクスポートできません。コード欄の指摘を修正してください。");
+  }
+  return document;
+};
+
+const directiveValue = (document: SaltDocument, name: string): string | undefined =>
+  document.directives.find(d => new RegExp(`^${name}\\s`, 'i').test(d.text))?.text.replace(/^\S+\s+/, '');
+
+// --- JSON UI TREE ---
+
+export type UiTreeNode =
+  | {
+      type: SaltBlock['kind'];
+      border: SaltBlock['border'];
+      title?: string;
+      scroll?: SaltBlock['scroll'];
+      rows: { depth?: number; cells: UiTreeNode[][] }[];
+    }
+  | { type: 'button'; label: string }
+  | { type: 'checkbox' | 'radio'; checked: boolean; label: string }
+  | { type: 'textfield' | 'combo'; value: string }
+  | { type: 'text'; text: string }
+  | { type: 'separator'; orientation: 'horizontal' | 'vertical'; style: string }
+  | { type: 'empty' | 'span' };
+
+export interface UiTree {
+  format: 'image2salt-ui-tree';
+  version: 1;
+  title?: string;
+  blocks: UiTreeNode[];
+}
+
+const toUiNode = (node: SaltNode): UiTreeNode => {
+  if (node.type === 'block') {
+    return {
+      type: node.kind,
+      border: node.border,
+      title: node.title,
+      scroll: node.scroll,
+      rows: node.rows.map(row => ({ depth: row.depth, cells: row.cells.map(cell => cell.items.map(toUiNode)) })),
+    };
+  }
+  // Source ranges are an editor concern and are left out of the exported tree.
+  const { range, ...widget } = node;
+  return widget;
+};
+
+/**
+ * Converts Salt code to a JSON description of the UI: blocks with rows of cells, each cell a list of widgets.
+ */
+export const exportUiTree = (source: string): string => {
+  const document = parseForExport(source);
+  const tree: UiTree = {
+    format: 'image2salt-ui-tree',
+    version: 1,
+    title: directiveValue(document, 'title'),
+    blocks: document.blocks.map(block => toUiNode(block)),
+  };
+  return JSON.stringify(tree, null, 2);
+};
+
+// --- DRAW.IO ---
+
+const DRAWIO_TEXT = 'text;align=left;verticalAlign=middle;spacing=0;fontSize=12;';
+
+/** Returns the cell value and style for an element, or null for blocks without a visible frame. */
+const drawioCell = (element: SaltLayoutElement): { value: string; style: string } | null => {
+  const node = element.node;
+  switch (node.type) {
+    case 'block':
+      if (node.kind === 'group') {
+        return { value: node.title || '', style: 'rounded=1;arcSize=4;fillColor=none;strokeColor=#888888;align=left;verticalAlign=top;spacingLeft=8;spacingTop=-8;fontSize=12;' };
+      }
+      if (node.kind === 'scroll' || node.kind === 'menu') return { value: '', style: 'fillColor=none;strokeColor=#888888;' };
+      if (node.border === 'all' || node.border === 'outer') return { value: '', style: 'fillColor=none;strokeColor=#333333;' };
+      return null;
+    case 'button':
+      return { value: plainText(node.label).trim(), style: 'rounded=1;fillColor=#f5f5f5;strokeColor=#333333;fontSize=12;' };
+    case 'checkbox':
+      return { value: `${node.checked ? '☑' : '☐'} ${plainText(node.label)}`, style: DRAWIO_TEXT };
+    case 'radio':
+      return { value: `${node.checked ? '◉' : '○'} ${plainText(node.label)}`, style: DRAWIO_TEXT };
+    case 'textfield':
+      return { value: node.value.trim(), style: 'rounded=0;fillColor=#ffffff;strokeColor=#888888;align=left;spacingLeft=4;fontSize=12;' };
+    case 'combo':
+      return { value: `${plainText(node.value)} ▾`, style: 'rounded=0;fillColor=#ffffff;strokeColor=#888888;align=left;spacingLeft=4;fontSize=12;' };
+    case 'text':
+      return { value: plainText(node.text), style: DRAWIO_TEXT };
+    case 'separator':
+      return { value: '', style: `line;strokeColor=#888888;${node.orientation === 'vertical' ? 'direction=south;' : ''}${node.style === '.' ? 'dashed=1;dashPattern=1 2;' : node.style === '~' ? 'dashed=1;' : ''}` };
+    case 'empty':
+    case 'span':
+      return null;
+  }
+};
+
+/**
+ * Converts Salt code to an uncompressed draw.io diagram, placing every widget where the
+ * built-in renderer draws it.
+ */
+export const exportDrawio = (source: string): string => {
+  const layout = layoutSalt(parseForExport(source));
+  const cells: string[] = ['<mxCell id="0"/>', '<mxCell id="1" parent="0"/>'];
+  if (layout.title) {
+    cells.push(`<mxCell id="title" value="${escapeXml(layout.title)}" style="text;align=left;verticalAlign=middle;spacing=0;fontStyle=1;fontSize=14;" vertex="1" parent="1"><mxGeometry x="10" y="8" width="${layout.width - 20}" height="20" as="geometry"/></mxCell>`);
+  }
+  layout.elements.forEach((element, index) => {
+    const cell = drawioCell(element);
+    if (!cell) return;
+    const round = (value: number) => Math.round(value * 10) / 10;
+    cells.push(`<mxCell id="e${index}" value="${escapeXml(cell.value)}" style="${cell.style}" vertex="1" parent="1">`
+      + `<mxGeometry x="${round(element.x)}" y="${round(element.y)}" width="${round(element.width)}" height="${round(element.height)}" as="geometry"/></mxCell>`);
+  });
+  return [
+    '<mxfile host="Image2Salt">',
+    `  <diagram name="${escapeXml(layout.title || 'Salt')}" id="image2salt">`,
+    `    <mxGraphModel dx="${Math.ceil(layout.width)}" dy="${Math.ceil(layout.height)}" grid="1" gridSize="10" guides="1" page="0" math="0" shadow="0">`,
+    '      <root>',
+    ...cells.map(cell => `        ${cell}`),
+    '      </root>',
+    '    </mxGraphModel>',
+    '  </diagram>',
+    '</mxfile>',
+  ].join('\n');
+};
+
+// --- HTML / TAILWIND ---
+
+/**
+ * The subset of Tailwind that the markup below uses, with the parts of its base styles it relies on,
+ * so that the page looks the same offline and keeps Tailwind class names for pasting into a project.
+ */
+const HTML_STYLES = [
+  '*, ::before, ::after { box-sizing: border-box; border: 0 solid; }',
+  'body { margin: 0; font-family: ui-sans-serif, system-ui, sans-serif; line-height: 1.5; }',
+  'h1 { margin: 0; font-size: inherit; }',
+  'button, input, select { margin: 0; font: inherit; color: inherit; }',
+  'button { background: transparent; }',
+  'hr { height: 0; margin: 0; color: inherit; border-top-width: 1px; }',
+  'fieldset { margin: 0; padding: 0; }',
+  'legend { padding: 0; }',
+  '.p-6 { padding: 1.5rem; }',
+  '.px-1 { padding-left: 0.25rem; padding-right: 0.25rem; }',
+  '.px-2 { padding-left: 0.5rem; padding-right: 0.5rem; }',
+  '.px-3 { padding-left: 0.75rem; padding-right: 0.75rem; }',
+  '.py-1 { padding-top: 0.25rem; padding-bottom: 0.25rem; }',
+  '.pb-2 { padding-bottom: 0.5rem; }',
+  '.mb-4 { margin-bottom: 1rem; }',
+  '.flex { display: flex; }',
+  '.inline-flex { display: inline-flex; }',
+  '.grid { display: grid; }',
+  '.inline-block { display: inline-block; }',
+  '.items-center { align-items: center; }',
+  '.self-stretch { align-self: stretch; }',
+  '.align-top { vertical-align: top; }',
+  '.gap-1 { gap: 0.25rem; }',
+  '.gap-4 { gap: 1rem; }',
+  '.gap-x-2 { column-gap: 0.5rem; }',
+  '.gap-y-1 { row-gap: 0.25rem; }',
+  '.w-full { width: 100%; }',
+  '.min-h-6 { min-height: 1.5rem; }',
+  '.max-h-48 { max-height: 12rem; }',
+  '.overflow-scroll { overflow: scroll; }',
+  '.overflow-x-scroll { overflow-x: scroll; }',
+  '.overflow-y-scroll { overflow-y: scroll; }',
+  '.whitespace-nowrap { white-space: nowrap; }',
+  '.border { border-width: 1px; }',
+  '.border-t { border-top-width: 1px; }',
+  '.border-b { border-bottom-width: 1px; }',
+  '.border-l { border-left-width: 1px; }',
+  '.border-b-0 { border-bottom-width: 0; }',
+  '.border-slate-400 { border-color: #94a3b8; }',
+  '.border-slate-700 { border-color: #334155; }',
+  '.rounded { border-radius: 0.25rem; }',
+  '.rounded-t { border-top-left-radius: 0.25rem; border-top-right-radius: 0.25rem; }',
+  '.bg-white { background-color: #ffffff; }',
+  '.bg-slate-100 { background-color: #f1f5f9; }',
+  '.text-sm { font-size: 0.875rem; line-height: 1.25rem; }',
+  '.text-lg { font-size: 1.125rem; line-height: 1.75rem; }',
+  '.font-bold { font-weight: 700; }',
+  '.text-slate-600 { color: #475569; }',
+  '.text-slate-900 { color: #0f172a; }',
+];
+
+const indent = (lines: string[]): string[] => lines.map(line => `  ${line}`);
+
+const widgetHtml = (node: SaltNode, radioName: string): string[] => {
+  switch (node.type) {
+    case 'block': return blockHtml(node);
+    case 'button':
+      return [`<button type="button" class="px-3 py-1 rounded border border-slate-700 bg-slate-100 whitespace-nowrap">${escapeXml(plainText(node.label).trim())}</button>`];
+    case 'checkbox':
+      return [`<label class="inline-flex items-center gap-1 whitespace-nowrap"><input type="checkbox"${node.checked ? ' checked' : ''}> ${escapeXml(plainText(node.label))}</label>`];
+    case 'radio':
+      return [`<label class="inline-flex items-center gap-1 whitespace-nowrap"><input type="radio" name="${radioName}"${node.checked ? ' checked' : ''}> ${escapeXml(plainText(node.label))}</label>`];
+    case 'textfield':
+      return [`<input type="text" value="${escapeXml(node.value.trim())}" size="${Math.max(node.value.length, 4)}" class="px-1 border border-slate-400">`];
+    case 'combo':
+      return [`<select class="px-1 border border-slate-400"><option>${escapeXml(plainText(node.value))}</option></select>`];
+    case 'text':
+      return [`<span class="whitespace-nowrap">${escapeXml(plainText(node.text))}</span>`];
+    case 'separator':
+      return node.orientation === 'horizontal'
+        ? ['<hr class="w-full border-slate-400">']
+        : ['<div class="self-stretch border-l border-slate-400"></div>'];
+    case 'empty':
+    case 'span':
+      return [];
+  }
+};
+
+const CELL_BORDERS: Record<SaltBlock['border'], (row: number, col: number) => string> = {
+  none: () => '',
+  outer: () => '',
+  all: () => ' border border-slate-400',
+  horizontal: (row) => row > 0 ? ' border-t border-slate-400' : '',
+  vertical: (_, col) => col > 0 ? ' border-l border-slate-400' : '',
+};
+
+const gridHtml = (block: SaltBlock, rows: SaltRow[]): string[] => {
+  // Radio buttons of one block form one group.
+  const radioName = `radio-${block.range.start.line}`;
+  const columns = Math.max(1, ...rows.map(row => row.cells.length));
+  const bordered = block.border !== 'none';
+  const lines: string[] = [];
+  rows.forEach((row, rowIndex) => {
+    // '*' cells widen the cell on their left instead of rendering.
+    const cells: { items: SaltNode[]; col: number; span: number }[] = [];
+    row.cells.forEach((cell, col) => {
+      const previous = cells[cells.length - 1];
+      if (previous && cell.items.length > 0 && cell.items.every(item => item.type === 'span')) previous.span++;
+      else cells.push({ items: cell.items, col, span: 1 });
+    });
+    const fullWidth = cells.length === 1 && cells[0].items.length > 0
+      && cells[0].items.every(item => item.type === 'separator' && item.orientation === 'horizontal');
+    cells.forEach(cell => {
+      const styles: string[] = [];
+      if (fullWidth) styles.push('grid-column: 1 / -1');
+      else if (cell.span > 1) styles.push(`grid-column: span ${cell.span}`);
+      if (block.kind === 'tree' && cell.col === 0 && row.depth) styles.push(`padding-left: ${row.depth - 1}rem`);
+      const style = styles.length ? ` style="${styles.join('; ')}"` : '';
+      const content = cell.items.flatMap(item => widgetHtml(item, radioName));
+      lines.push(`<div class="flex items-center gap-1 min-h-6${bordered ? ' px-1' : ''}${CELL_BORDERS[block.border](rowIndex, cell.col)}"${style}>`);
+      lines.push(...indent(content));
+      lines.push('</div>');
+    });
+  });
+  const gap = bordered ? '' : ' gap-x-2 gap-y-1';
+  const outer = block.border === 'outer' || block.border === 'all' ? ' border border-slate-700' : '';
+  return [
+    `<div class="grid items-center${gap}${outer}" style="grid-template-columns: repeat(${columns}, auto)">`,
+    ...indent(lines),
+    '</div>',
+  ];
+};
+
+const headerLabels = (row: SaltRow | undefined): string[] =>
+  (row?.cells || []).map(cell => cell.items.map(item => item.type === 'text' ? plainText(item.text) : '').join(' ').trim());
+
+const blockHtml = (block: SaltBlock): string[] => {
+  switch (block.kind) {
+    case 'tabs': {
+      const tabs = headerLabels(block.rows[0]).map((label, index) => index === 0
+        ? `<div class="px-3 py-1 border border-b-0 border-slate-700 rounded-t font-bold">${escapeXml(label)}</div>`
+        : `<div class="px-3 py-1 border border-b-0 border-slate-400 rounded-t text-slate-600">${escapeXml(label)}</div>`);
+      return ['<div>', ...indent(['<div class="flex border-b border-slate-700">', ...indent(tabs), '</div>', ...gridHtml(block, block.rows.slice(1))]), '</div>'];
+    }
+    case 'menu': {
+      const items = headerLabels(block.rows[0]).map(label => `<span>${escapeXml(label)}</span>`);
+      return ['<div>', ...indent(['<nav class="flex gap-4 px-2 py-1 bg-slate-100 border border-slate-400">', ...indent(items), '</nav>', ...gridHtml(block, block.rows.slice(1))]), '</div>'];
+    }
+    case 'group':
+      return [
+        '<fieldset class="px-2 pb-2 border border-slate-400 rounded">',
+        ...indent([...(block.title ? [`<legend class="px-1">${escapeXml(block.title)}</legend>`] : []), ...gridHtml(block, block.rows)]),
+        '</fieldset>',
+      ];
+    case 'scroll': {
+      const overflow = block.scroll === 'vertical' ? 'overflow-y-scroll' : block.scroll === 'horizontal' ? 'overflow-x-scroll' : 'overflow-scroll';
+      return [`<div class="max-h-48 ${overflow} border border-slate-400">`, ...indent(gridHtml(block, block.rows)), '</div>'];
+    }
+    case 'tree':
+    case 'grid':
+      return gridHtml(block, block.rows);
+  }
+};
+
+/**
+ * Converts Salt code to a standalone HTML page with Tailwind class names. The styles are embedded,
+ * so the page works offline and loads nothing from a CDN.
+ */
+export const exportHtml = (source: string, { lang = 'ja' }: ExportOptions = {}): string => {
+  const document = parseForExport(source);
+  const title = directiveValue(document, 'title');
+  const body = [
+    ...(title ? [`<h1 class="mb-4 text-lg font-bold">${escapeXml(title)}</h1>`] : []),
+    ...document.blocks.flatMap(block => ['<div class="inline-block mb-4 align-top">', ...indent(blockHtml(block)), '</div>']),
+  ];
+  return [
+    '<!DOCTYPE html>',
+    `<html lang="${escapeXml(lang)}">`,
+    '<head>',
+    '  <meta charset="utf-8">',
+    `  <title>${escapeXml(title || 'Salt mockup')}</title>`,
+    '  <style>',
+    ...HTML_STYLES.map(rule => `    ${rule}`),
+    '  </style>',
+    '</head>',
+    '<body class="p-6 bg-white text-slate-900 text-sm">',
+    ...indent(body),
+    '</body>',
+    '</html>',
+    '',
+  ].join('\n');
+};
+
+const EXPORTERS: Record<ExportFormat, (source: string, options: ExportOptions) => string> = {
+  drawio: exportDrawio,
+  html: exportHtml,
+  json: exportUiTree,
+};
+
+/**
+ * Converts Salt code to the given format. Throws when the code has syntax errors.
+ */
+export const exportSalt = (source: string, format: ExportFormat, options: ExportOptions = {}): string =>
+  EXPORTERS[format](source, options);
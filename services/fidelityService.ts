@@ -0,0 +1,215 @@
+import { parseSalt, SaltNode } from "./saltParser";
+import { plainText, renderSaltToSvg } from "./saltRenderer";
+import { rasterizeImage } from "./imageService";
+
+/** RGBA pixels, structurally compatible with the browser's ImageData. */
+export interface RasterImage {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+/** Area where the rendering and the source disagree, in fractions (0-1) of the image size. */
+export interface MismatchCell {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface LayoutComparison {
+  /** F1 of edge pixels matched within a small tolerance (0-1). */
+  edgeF1: number;
+  /** Mean agreement of edge density over the cells that contain edges (0-1). */
+  cellSimilarity: number;
+  score: number;
+  mismatches: MismatchCell[];
+}
+
+export interface TextComparison {
+  /** Share of the labels read from the image that also appear in the Salt (0-1). */
+  recall: number;
+  found: string[];
+  missing: string[];
+}
+
+export interface FidelityScore {
+  overall: number;
+  layout: LayoutComparison;
+  /** Null until labels have been read from the image. */
+  text: TextComparison | null;
+}
+
+/** Long side of the images compared; small enough to score in a few milliseconds. */
+const COMPARE_WIDTH = 256;
+const MAX_COMPARE_HEIGHT = 1024;
+const CELL_SIZE = 16;
+const EDGE_THRESHOLD = 64;
+const EDGE_TOLERANCE = 2;
+/** Cells with fewer edge pixels than this share on both sides are blank and not scored. */
+const MIN_CELL_DENSITY = 0.02;
+const MISMATCH_SIMILARITY = 0.35;
+
+// --- LAYOUT ---
+
+/** Marks pixels whose Sobel gradient magnitude exceeds the threshold. */
+const detectEdges = (image: RasterImage): Uint8Array => {
+  const { width, height, data } = image;
+  const gray = new Float32Array(width * height);
+  for (let i = 0; i < width * height; i++) {
+    gray[i] = data[i * 4] * 0.299 + data[i * 4 + 1] * 0.587 + data[i * 4 + 2] * 0.114;
+  }
+  const edges = new Uint8Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const at = (dx: number, dy: number) => gray[(y + dy) * width + x + dx];
+      const gx = at(1, -1) + 2 * at(1, 0) + at(1, 1) - at(-1, -1) - 2 * at(-1, 0) - at(-1, 1);
+      const gy = at(-1, 1) + 2 * at(0, 1) + at(1, 1) - at(-1, -1) - 2 * at(0, -1) - at(1, -1);
+      if (Math.hypot(gx, gy) > EDGE_THRESHOLD) edges[y * width + x] = 1;
+    }
+  }
+  return edges;
+};
+
+/** Grows edges by radius pixels so that nearly aligned lines still count as matching. */
+const dilate = (edges: Uint8Array, width: number, height: number, radius: number): Uint8Array => {
+  const horizontal = new Uint8Array(edges.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let dx = -radius; dx <= radius; dx++) {
+        const nx = x + dx;
+        if (nx >= 0 && nx < width && edges[y * width + nx]) { horizontal[y * width + x] = 1; break; }
+      }
+    }
+  }
+  const result = new Uint8Array(edges.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      for (let dy = -radius; dy <= radius; dy++) {
+        const ny = y + dy;
+        if (ny >= 0 && ny < height && horizontal[ny * width + x]) { result[y * width + x] = 1; break; }
+      }
+    }
+  }
+  return result;
+};
+
+/**
+ * Compares the edge structure of two images of the same size: how many edges line up, and
+ * which grid cells have clearly different amounts of structure.
+ */
+export const compareLayouts = (source: RasterImage, rendered: RasterImage): LayoutComparison => {
+  if (source.width !== rendered.width || source.height !== rendered.height) {
+    throw new Error('比較する画像のサイズが一致しません。');
+  }
+  const { width, height } = source;
+  const sourceEdges = detectEdges(source);
+  const renderedEdges = detectEdges(rendered);
+  const sourceNear = dilate(sourceEdges, width, height, EDGE_TOLERANCE);
+  const renderedNear = dilate(renderedEdges, width, height, EDGE_TOLERANCE);
+
+  let sourceCount = 0, renderedCount = 0, sourceMatched = 0, renderedMatched = 0;
+  for (let i = 0; i < width * height; i++) {
+    if (sourceEdges[i]) { sourceCount++; if (renderedNear[i]) sourceMatched++; }
+    if (renderedEdges[i]) { renderedCount++; if (sourceNear[i]) renderedMatched++; }
+  }
+  const precision = renderedCount ? renderedMatched / renderedCount : 0;
+  const recall = sourceCount ? sourceMatched / sourceCount : 0;
+  const edgeF1 = precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0;
+
+  const mismatches: MismatchCell[] = [];
+  let similaritySum = 0;
+  let activeCells = 0;
+  for (let cy = 0; cy < height; cy += CELL_SIZE) {
+    for (let cx = 0; cx < width; cx += CELL_SIZE) {
+      const cellWidth = Math.min(CELL_SIZE, width - cx);
+      const cellHeight = Math.min(CELL_SIZE, height - cy);
+      let a = 0, b = 0;
+      for (let y = cy; y < cy + cellHeight; y++) {
+        for (let x = cx; x < cx + cellWidth; x++) {
+          a += sourceNear[y * width + x];
+          b += renderedNear[y * width + x];
+        }
+      }
+      const area = cellWidth * cellHeight;
+      const densityA = a / area;
+      const densityB = b / area;
+      if (Math.max(densityA, densityB) < MIN_CELL_DENSITY) continue;
+      const similarity = 1 - Math.abs(densityA - densityB) / Math.max(densityA, densityB);
+      similaritySum += similarity;
+      activeCells++;
+      if (similarity < MISMATCH_SIMILARITY) {
+        mismatches.push({ x: cx / width, y: cy / height, width: cellWidth / width, height: cellHeight / height });
+      }
+    }
+  }
+  const cellSimilarity = activeCells ? similaritySum / activeCells : 0;
+  return { edgeF1, cellSimilarity, score: (edgeF1 + cellSimilarity) / 2, mismatches };
+};
+
+// --- TEXT ---
+
+/** Folds width variants and case and drops spacing and punctuation, so '氏名：' matches '氏名'. */
+export const normalizeLabel = (label: string): string =>
+  label.normalize('NFKC').toLowerCase().replace(/[\s\p{P}\p{S}]/gu, '');
+
+/** Collects every piece of visible text in the Salt: labels, field values and tab or menu names. */
+export const collectSaltLabels = (source: string): string[] => {
+  const labels: string[] = [];
+  const visit = (node: SaltNode) => {
+    switch (node.type) {
+      case 'block':
+        if (node.title) labels.push(node.title);
+        node.rows.forEach(row => row.cells.forEach(cell => cell.items.forEach(visit)));
+        break;
+      case 'button':
+      case 'checkbox':
+      case 'radio': labels.push(plainText(node.label)); break;
+      case 'textfield':
+      case 'combo': labels.push(plainText(node.value)); break;
+      case 'text': labels.push(plainText(node.text)); break;
+    }
+  };
+  const { document } = parseSalt(source);
+  document.blocks.forEach(visit);
+  document.directives.filter(d => /^title\s/i.test(d.text)).forEach(d => labels.push(d.text.replace(/^title\s+/i, '')));
+  return labels.map(label => label.trim()).filter(Boolean);
+};
+
+/**
+ * Checks which labels read from the image appear in the Salt. A label counts as found when it
+ * is contained in a Salt label or contains one, since models often merge or split adjacent text.
+ */
+export const compareLabels = (imageLabels: string[], saltLabels: string[]): TextComparison => {
+  const salt = saltLabels.map(normalizeLabel).filter(Boolean);
+  const found: string[] = [];
+  const missing: string[] = [];
+  imageLabels.forEach(label => {
+    const normalized = normalizeLabel(label);
+    if (!normalized) return;
+    const matched = salt.some(candidate => candidate.includes(normalized) || (candidate.length > 1 && normalized.includes(candidate)));
+    (matched ? found : missing).push(label);
+  });
+  const total = found.length + missing.length;
+  return { recall: total ? found.length / total : 1, found, missing };
+};
+
+export const combineScores = (layout: LayoutComparison, text: TextComparison | null): number =>
+  text ? layout.score * 0.6 + text.recall * 0.4 : layout.score;
+
+/**
+ * Scores how closely Salt code reproduces the source image. The code is rendered with the
+ * built-in renderer (whatever the preview backend) so the score does not depend on a server,
+ * then both images are scaled to the same size and their edges compared.
+ */
+export const scoreFidelity = async (image: Blob, saltCode: string, imageLabels: string[] | null): Promise<FidelityScore> => {
+  const source = await rasterizeImage(image, COMPARE_WIDTH);
+  const height = Math.min(source.height, MAX_COMPARE_HEIGHT);
+  const sourceImage = height === source.height ? source : await rasterizeImage(image, COMPARE_WIDTH, height);
+  const svg = new Blob([renderSaltToSvg(saltCode)], { type: 'image/svg+xml' });
+  const rendered = await rasterizeImage(svg, sourceImage.width, sourceImage.height);
+
+  const layout = compareLayouts(sourceImage, rendered);
+  const text = imageLabels ? compareLabels(imageLabels, collectSaltLabels(saltCode)) : null;
+  return { overall: combineScores(layout, text), layout, text };
+};
@@ -0,0 +1,74 @@
+import { parseSalt, SaltNode } from "./saltParser";
+import { plainText } from "./saltRenderer";
+import { stripCodeFence } from "./plantumlService";
+
+/** One screen of a flow: a converted screenshot under a display name. */
+export interface FlowScreen {
+  id: string;
+  name: string;
+  code: string;
+}
+
+/** Navigation from one screen to another, triggered by a control on the source screen. */
+export interface FlowTransition {
+  id: string;
+  from: string;
+  to: string;
+  trigger: string;
+}
+
+/**
+ * Lists the controls of a screen that can lead somewhere else: buttons, tabs and menu items.
+ */
+export const listFlowTriggers = (code: string): string[] => {
+  const triggers: string[] = [];
+  const visit = (node: SaltNode, navigable: boolean) => {
+    if (node.type === 'block') {
+      const inner = navigable || node.kind === 'tabs' || node.kind === 'menu';
+      node.rows.forEach(row => row.cells.forEach(cell => cell.items.forEach(item => visit(item, inner))));
+    } else if (node.type === 'button' || (navigable && node.type === 'text')) {
+      triggers.push(plainText(node.type === 'button' ? node.label : node.text).trim());
+    }
+  };
+  parseSalt(stripCodeFence(code)).document.blocks.forEach(block => visit(block, false));
+  return [...new Set(triggers.filter(Boolean))];
+};
+
+/** Directives that only apply to a standalone Salt diagram. */
+const STANDALONE_DIRECTIVE = /^\s*(title|scale|skinparam|header|footer|caption)\b/i;
+
+const saltBody = (code: string): string[] => {
+  const lines = stripCodeFence(code).split('\n');
+  const start = lines.findIndex(line => /^\s*@startsalt/i.test(line));
+  const end = lines.findIndex(line => /^\s*@endsalt/i.test(line));
+  return lines
+    .slice(start + 1, end >= 0 ? end : undefined)
+    .filter(line => line.trim() && !STANDALONE_DIRECTIVE.test(line));
+};
+
+const quote = (text: string) => `"${text.replace(/"/g, "'")}"`;
+
+/**
+ * Combines the screens into a PlantUML state diagram with each screen's Salt embedded in its state.
+ * The Salt is written as one description line per source line, so quotes and brackets in it need
+ * no escaping. The first screen is the entry point.
+ */
+export const buildFlowDiagram = (screens: FlowScreen[], transitions: FlowTransition[], title = ''): string => {
+  const alias = new Map(screens.map((screen, index) => [screen.id, `screen${index + 1}`]));
+  const lines = ['@startuml'];
+  if (title.trim()) lines.push(`title ${title.trim()}`);
+
+  screens.forEach(screen => {
+    const id = alias.get(screen.id)!;
+    lines.push('', `state ${quote(screen.name || id)} as ${id}`);
+    [`{{`, 'salt', ...saltBody(screen.code), '}}'].forEach(line => lines.push(`${id} : ${line}`));
+  });
+
+  lines.push('');
+  if (screens.length > 0) lines.push(`[*] --> ${alias.get(screens[0].id)}`);
+  transitions
+    .filter(t => alias.has(t.from) && alias.has(t.to))
+    .forEach(t => lines.push(`${alias.get(t.from)} --> ${alias.get(t.to)}${t.trigger.trim() ? ` : ${t.trigger.trim()}` : ''}`));
+  lines.push('@enduml');
+  return lines.join('\n');
+};
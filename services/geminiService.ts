@@ -1,91 +1,291 @@
 
-import { GoogleGenAI } from "@google/genai";
-
-const BASE_PROMPT = `あなたはPlantUML、特にSalt（UIプロトタイプ用モジュール）のエキスパートです。
-
-提供されたUI画像を、PlantUML Saltの記法に変換してください。
-
-以下の要件を厳守してください:
-- 出力は必ずマークダウンのコードブロック ' \`\`\`plantuml ' で始めてください。
-- コード内は '@startsalt' で始まり、'@endsalt' で終わる形式にしてください。
-- **レイアウトの使い分けを徹底してください：**
-  - **表形式や枠組みとして境界線が必要な箇所には、罫線付きグリッド '{+ }' を使用してください。**
-  - **単なる位置合わせ（ラベルと入力フィールドの整列など）が目的で、視覚的に枠線が不要な場合は、罫線なしのグリッド '{ }' または {# } を使用し、無駄な罫線を出力しないでください。**
-- **垂直方向の整列：** ラベルと入力フィールドが並ぶ場合は、グリッド記法を用いて、列の開始位置が綺麗に揃うようにしてください。
-- 以下の主要なウィジェットを適切に使用してください:
-  - ボタン: '[ボタン名]'
-  - テキスト入力フィールド: '"テキスト"'
-  - チェックボックス: '[ ]' または '[X]'
-  - ラジオボタン: '( )' または '(X)'
-  - コンボボックス: '^ドロップダウン^'
-  - ツリー構造: '{T Tree構造 }'
-  - 水平セパレータ: '--'
-  - 垂直セパレータ: '||'
-  - タブ: '{/ タブ1 | タブ2 | タブ3 }'
-- 画像から読み取れるテキストを可能な限り正確に反映させてください。
-- 余計な説明やコメントは含めず、マークダウン形式のPlantUMLコードのみを出力してください。`;
+import { parseSalt, SaltDiagnostic, SaltNode } from "./saltParser";
+import {
+  createGeminiProvider, toLLMError, DEFAULT_REQUESTS_PER_MINUTE, GenerateRequest, LLMError, LLMProvider, ModelOption, TokenUsage
+} from "./providers";
+import { createRateLimiter } from "./rateLimiter";
+import { LocalizedError } from "./i18n";
+import type { ImageRegion } from "./imageService";
+import { buildConvertPrompt, buildLabelRule, buildRefinePrompt, DEFAULT_PROMPT_PROFILE, LabelSettings, PromptProfile } from "./promptProfiles";
+import type { ChatTurn } from "./projectStore";
+import { stripCodeFence } from "./plantumlService";
+
+export interface ConvertOptions {
+  fidelity: number;
+  model: string;
+  /** LLM backend to use; defaults to Gemini. */
+  provider?: LLMProvider;
+  /** Prompt rules to convert with; defaults to the built-in profile. */
+  profile?: PromptProfile;
+  /** How labels read from the image are written; defaults to the profile's output language. */
+  labels?: LabelSettings;
+  /** Maximum number of follow-up requests used to fix invalid Salt (0 disables self-repair). */
+  maxRepairRounds?: number;
+  /** Called before each repair request with the 1-based round number. */
+  onRepair?: (round: number) => void;
+  /** Aborts the in-flight request. */
+  signal?: AbortSignal;
+  /** Streams the response; receives the accumulated text of the current request after every chunk. */
+  onProgress?: (partialCode: string) => void;
+  /** Called before a transient failure is retried, with the 1-based retry number. */
+  onRetry?: (retry: number, error: LLMError) => void;
+}
+
+export interface RefineOptions {
+  /** Refinement template to use; defaults to the built-in profile. */
+  profile?: PromptProfile;
+  labels?: LabelSettings;
+  signal?: AbortSignal;
+  onProgress?: (partialCode: string) => void;
+  /**
+   * Restricts the refinement to part of the screen. The image passed to refineSalt must then be
+   * the crop of that region; only the matching lines of the Salt are regenerated and spliced back.
+   */
+  region?: ImageRegion;
+  /** Earlier turns of the refinement chat and pinned constraints, sent along as context. */
+  conversation?: RefineConversation;
+  /** Receives the model's note on what it changed, written before the code when a conversation is given. */
+  onReply?: (note: string) => void;
+}
+
+export interface RefineConversation {
+  turns: ChatTurn[];
+  constraints: string[];
+}
+
+export interface ConversionResult {
+  code: string;
+  repairRounds: number;
+  /** Diagnostics of the final code; errors remain only if every repair round failed. */
+  diagnostics: SaltDiagnostic[];
+  /** Tokens used across the conversion and its repair rounds; null when the backend reports none. */
+  usage: TokenUsage | null;
+}
+
+export const DEFAULT_MAX_REPAIR_ROUNDS = 2;
+
+const percent = (value: number) => `${Math.round(value * 100)}%`;
+
+const buildRegionRefinePrompt = (currentSalt: string, instruction: string, region: ImageRegion, labelRule: string): string => {
+  const numbered = currentSalt.split("\n").map((line, i) => `${i + 1}: ${line}`).join("\n");
+  return `あなたはPlantUML Saltのエキスパートです。
+提供された画像は、元のUI画面の一部（左から ${percent(region.x)}、上から ${percent(region.y)} の位置にある、幅 ${percent(region.width)}、高さ ${percent(region.height)} の範囲）を切り出したものです。
+現在のSaltコードのうち、この範囲に対応する部分だけを、ユーザーの指示に従って書き直してください。
+
+現在のSaltコード（各行の先頭は行番号です）:
+${numbered}
+
+ユーザーの修正指示:
+${instruction}
+
+要件:
+- 置き換える行の範囲を、連続した行番号で1つだけ選んでください。'{' と '}' の対応が崩れないよう、ブロックの途中で範囲を切らないでください。
+- 出力はマークダウンのコードブロック ' \`\`\`plantuml ' で囲み、1行目に '@@ 開始行-終了行'（例: '@@ 12-18'）を書き、2行目以降にその範囲を置き換える新しいコードを書いてください。
+- 行番号、'@startsalt'、'@endsalt' は新しいコードに含めないでください。
+- 範囲外の部分は出力しないでください。${labelRule}`;
+};
+
+/** Turns whose code is sent in full; older ones are summarized by their instruction. */
+const MAX_CONTEXT_TURNS = 8;
+
+const turnResult: Record<ChatTurn['status'], string> = {
+  pending: '未採用',
+  accepted: '採用',
+  rejected: '却下',
+  failed: '失敗',
+};
+
+const buildConversationContext = ({ turns, constraints }: RefineConversation): string => {
+  const parts: string[] = [];
+  if (constraints.length > 0) {
+    parts.push(`常に守る制約（今回の指示より優先し、どの修正でも必ず維持してください）:\n${constraints.map(c => `- ${c}`).join("\n")}`);
+  }
+  const answered = turns.filter(turn => turn.code !== null);
+  if (answered.length > 0) {
+    const recentFrom = answered.length - MAX_CONTEXT_TURNS;
+    const history = answered.map((turn, i) => {
+      const lines = [`### ${i + 1}回目 (${turnResult[turn.status]})`, `ユーザーの指示: ${turn.instruction}`];
+      if (turn.reply) lines.push(`あなたの回答: ${turn.reply}`);
+      if (i >= recentFrom) lines.push(`結果のコード:\n\`\`\`plantuml\n${stripCodeFence(turn.code!)}\n\`\`\``);
+      return lines.join("\n");
+    });
+    parts.push(`これまでの修正のやり取り（古い順）:\n${history.join("\n\n")}`);
+  }
+  parts.push(`会話に関する要件:
+- これまでの指示で削除・変更した点を元に戻さないでください。却下された修正と同じ変更は繰り返さないでください。
+- 上の要件にかかわらず、コードブロックの直前に、今回何を変更したかを1〜2文で書いてください。それ以外の文章はコードブロックの外に書かないでください。`);
+  return parts.join("\n\n");
+};
+
+/** Splits a chat reply into the note written before the code block and the rest. */
+const splitReply = (response: string): { note: string; code: string } => {
+  const fence = response.indexOf("```");
+  if (fence <= 0) return { note: '', code: response };
+  return { note: response.slice(0, fence).trim(), code: response.slice(fence) };
+};
 
 /**
- * Returns the list of available Gemini models suitable for this task.
+ * Replaces the line range named by a region refinement response in the current code.
  */
-export const getAvailableModels = async (): Promise<{ value: string; label: string }[]> => {
-  return [
-    { label: 'Gemini 3.0 Flash Preview', value: 'gemini-3-flash-preview' },
-    { label: 'Gemini 3.0 Pro Preview', value: 'gemini-3-pro-preview' },
-  ];
+const spliceRegionResponse = (currentSalt: string, response: string): string => {
+  const body = response.replace(/^[\s\S]*?```[a-z]*\n/i, "").replace(/\n?```[\s\S]*$/, "");
+  const [header, ...replacement] = body.split("\n");
+  const match = header.match(/^@@\s*(\d+)\s*-\s*(\d+)\s*$/);
+  const lines = currentSalt.split("\n");
+  if (!match) throw new LocalizedError("選択範囲の修正結果から置き換え位置を読み取れませんでした。");
+  const start = Number(match[1]);
+  const end = Number(match[2]);
+  if (start < 1 || end < start || end > lines.length) {
+    throw new LocalizedError('選択範囲の修正結果の行番号 ({start}-{end}) が不正です。', { start, end });
+  }
+  return [...lines.slice(0, start - 1), ...replacement, ...lines.slice(end)].join("\n");
 };
 
 /**
- * Converts an image to PlantUML Salt code using Gemini multimodal capabilities.
+ * Repair is needed for syntax errors and for prose the model wrote around the code block.
  */
-export const convertImageToSalt = async (
-  base64Image: string,
-  mimeType: string,
-  options: { fidelity: number; model: string }
-): Promise<string> => {
-  if (!process.env.API_KEY) {
-    throw new Error("APIキーが設定されていません。");
-  }
+const needsRepair = (diagnostics: SaltDiagnostic[]): boolean =>
+  diagnostics.some(d => d.severity === 'error' || d.code === 'extra-text');
 
-  const { fidelity, model } = options;
-  let finalPrompt = BASE_PROMPT;
-
-  if (fidelity <= 20) {
-    finalPrompt += "\n- 主要なコンポーネントのみを抽出したシンプルな構成にしてください。";
-  } else if (fidelity <= 80) {
-    finalPrompt += "\n- レイアウトと主要なテキストをバランスよく再現してください。";
-  } else {
-    finalPrompt += "\n- **最重要事項：詳細再現モードです。オブジェクトの横方向の揃え（垂直アライメント）を完璧に再現してください。ラベルの長さが異なる場合でも、グリッド記法を用いて入力項目やボタンが縦に美しく整列するようにしてください。**";
-    finalPrompt += "\n- **位置合わせのためのグリッドには罫線（+）を付けず、表として意味のある箇所にのみ罫線を使用してください。**";
-    finalPrompt += "\n- 細部のスペーシングや、すべての細かいラベルまで極力再現してください。";
-  }
+const buildRepairInstruction = (diagnostics: SaltDiagnostic[]): string => {
+  const lines = diagnostics.map(d => `- ${d.line}行目 ${d.column}列: ${d.message}`);
+  return `このコードには以下の構文上の問題があります。UIの内容は変えずに、問題をすべて修正してください。
+${lines.join("\n")}
+- コードは必ず '@startsalt' で始まり '@endsalt' で終わり、括弧 '{ }' の対応が取れている必要があります。
+- コードブロックの外に説明文を書かないでください。`;
+};
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+const defaultProvider = createGeminiProvider();
 
-  const imagePart = {
-    inlineData: {
-      data: base64Image,
-      mimeType: mimeType,
-    },
-  };
+/** Transient failures are retried this many times with exponential backoff. */
+const MAX_API_RETRIES = 3;
+const RETRY_BASE_DELAY_MS = 1000;
+const MAX_RETRY_DELAY_MS = 60_000;
+/** A request fails when nothing has arrived for this long; streamed chunks restart the clock. */
+const REQUEST_TIMEOUT_MS = 120_000;
 
-  const textPart = {
-    text: finalPrompt,
-  };
+// Shared by every conversion, refinement and batch item so that parallel work stays within the quota.
+const rateLimiter = createRateLimiter(DEFAULT_REQUESTS_PER_MINUTE);
+
+/** Sets the client-side limit on requests started per minute; 0 disables it. */
+export const setRequestsPerMinute = (requestsPerMinute: number): void => rateLimiter.setLimit(requestsPerMinute);
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>(resolve => {
+  const onAbort = () => { clearTimeout(timer); resolve(); };
+  const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
 
+/**
+ * Sends one request, failing it with a timeout error when the provider goes quiet for too long.
+ */
+const generateOnce = async (provider: LLMProvider, request: GenerateRequest): Promise<string> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  let timer = 0;
+  const restartTimer = () => {
+    clearTimeout(timer);
+    timer = setTimeout(() => { timedOut = true; controller.abort(); }, REQUEST_TIMEOUT_MS) as unknown as number;
+  };
+  const onAbort = () => controller.abort();
+  request.signal?.addEventListener('abort', onAbort, { once: true });
+  restartTimer();
   try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: { parts: [imagePart, textPart] },
+    const text = await provider.generate({
+      ...request,
+      signal: controller.signal,
+      onText: request.onText && (text => { restartTimer(); request.onText!(text); }),
     });
-    
-    return (response.text || "").trim();
+    if (!text.trim()) throw new LLMError('empty-response', '{provider}: モデルから空の応答が返されました。', { params: { provider: provider.label } });
+    return text;
   } catch (error) {
-    console.error("Gemini API error:", error);
-    throw new Error("Gemini APIとの通信に失敗しました。");
+    if (timedOut) {
+      throw new LLMError('timeout', '{provider}: {seconds}秒以上応答がありませんでした。', {
+        params: { provider: provider.label, seconds: REQUEST_TIMEOUT_MS / 1000 }, cause: error,
+      });
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    request.signal?.removeEventListener('abort', onAbort);
   }
 };
 
+/**
+ * Sends a request through the shared rate limiter, retrying transient failures with exponential
+ * backoff (or the server's Retry-After). Errors other than a user abort are thrown as LLMError.
+ */
+const generate = async (
+  provider: LLMProvider,
+  request: GenerateRequest,
+  onRetry?: (retry: number, error: LLMError) => void
+): Promise<string> => {
+  for (let retry = 0; ; retry++) {
+    try {
+      // The mock backend has no quota to protect.
+      if (provider.id !== 'mock') await rateLimiter.acquire(request.signal);
+      return await generateOnce(provider, request);
+    } catch (error) {
+      if (request.signal?.aborted) throw error;
+      const typed = toLLMError(error, provider.label);
+      if (!typed.retryable || retry >= MAX_API_RETRIES) throw typed;
+      onRetry?.(retry + 1, typed);
+      await sleep(Math.min(MAX_RETRY_DELAY_MS, typed.retryAfterMs ?? RETRY_BASE_DELAY_MS * 2 ** retry), request.signal);
+      if (request.signal?.aborted) throw error;
+    }
+  }
+};
+
+/**
+ * Returns the list of models offered by the provider that are suitable for this task.
+ */
+export const getAvailableModels = async (provider: LLMProvider = defaultProvider): Promise<ModelOption[]> => {
+  return provider.listModels();
+};
+
+/**
+ * Converts an image to PlantUML Salt code using the multimodal capabilities of the selected provider.
+ */
+export const convertImageToSalt = async (
+  base64Image: string,
+  mimeType: string,
+  options: ConvertOptions
+): Promise<ConversionResult> => {
+  const { fidelity, model, provider = defaultProvider, profile = DEFAULT_PROMPT_PROFILE, labels, maxRepairRounds = DEFAULT_MAX_REPAIR_ROUNDS, onRepair, signal, onProgress, onRetry } = options;
+  provider.assertConfigured();
+
+  const finalPrompt = buildConvertPrompt(profile, fidelity, labels);
+
+  const image = { base64: base64Image, mimeType };
+  let usage: TokenUsage | null = null;
+  const onUsage = (request: TokenUsage) => {
+    usage = { inputTokens: (usage?.inputTokens || 0) + request.inputTokens, outputTokens: (usage?.outputTokens || 0) + request.outputTokens };
+  };
+
+  let code = await generate(provider, { task: 'convert', model, prompt: finalPrompt, image, signal, onText: onProgress, onUsage }, onRetry);
+  let { diagnostics } = parseSalt(code);
+  let repairRounds = 0;
+
+  // Feed the parser diagnostics back to the model until the code is valid or the budget runs out.
+  while (needsRepair(diagnostics) && repairRounds < maxRepairRounds) {
+    repairRounds++;
+    onRepair?.(repairRounds);
+    code = await generate(provider, {
+      task: 'repair',
+      model,
+      prompt: buildRefinePrompt(profile, code, buildRepairInstruction(diagnostics), labels),
+      image,
+      currentSalt: code,
+      signal,
+      onText: onProgress,
+      onUsage,
+    }, onRetry);
+    diagnostics = parseSalt(code).diagnostics;
+  }
+
+  return { code, repairRounds, diagnostics, usage };
+};
+
 /**
  * Refines existing Salt code based on a user instruction and the original image.
  */
@@ -94,48 +294,152 @@ export const refineSalt = async (
   mimeType: string,
   currentSalt: string,
   instruction: string,
-  model: string
+  model: string,
+  provider: LLMProvider = defaultProvider,
+  options: RefineOptions = {}
 ): Promise<string> => {
-  if (!process.env.API_KEY) {
-    throw new Error("APIキーが設定されていません。");
+  provider.assertConfigured();
+
+  const { profile = DEFAULT_PROMPT_PROFILE, labels, region, conversation, signal, onProgress, onReply } = options;
+  const prompt = region
+    ? buildRegionRefinePrompt(currentSalt, instruction, region, buildLabelRule(profile, labels))
+    : buildRefinePrompt(profile, currentSalt, instruction, labels);
+  const response = await generate(provider, {
+    task: region ? 'refine-region' : 'refine',
+    model,
+    prompt: conversation ? `${prompt}\n\n${buildConversationContext(conversation)}` : prompt,
+    image: { base64: base64Image, mimeType },
+    currentSalt,
+    signal,
+    onText: onProgress,
+  });
+  const { note, code } = conversation ? splitReply(response) : { note: '', code: response };
+  onReply?.(note);
+  return region ? spliceRegionResponse(currentSalt, code) : code;
+};
+
+const LABEL_EXTRACTION_PROMPT = `提供されたUI画像に表示されているテキスト（ボタン、ラベル、入力欄の値、タブ名、メニュー項目、見出しなど）をすべて抽出してください。
+
+要件:
+- 出力はJSONの文字列配列のみとし、マークダウンのコードブロック ' \`\`\`json ' で囲んでください。
+- 1つの要素には画面上で1つのまとまりとして表示されているテキストを、画像の表記のまま入れてください。
+- アイコンや装飾は含めないでください。`;
+
+/**
+ * Reads the visible text of the image with the model, as a stand-in for OCR when scoring fidelity.
+ */
+export const extractImageLabels = async (
+  base64Image: string,
+  mimeType: string,
+  model: string,
+  provider: LLMProvider = defaultProvider,
+  options: { signal?: AbortSignal } = {}
+): Promise<string[]> => {
+  provider.assertConfigured();
+
+  const response = await generate(provider, {
+    task: 'extract-labels',
+    model,
+    prompt: LABEL_EXTRACTION_PROMPT,
+    image: { base64: base64Image, mimeType },
+    signal: options.signal,
+  });
+
+  const start = response.indexOf('[');
+  const end = response.lastIndexOf(']');
+  try {
+    const labels = JSON.parse(response.slice(start, end + 1));
+    if (!Array.isArray(labels)) throw new Error("not an array");
+    return labels.filter((label): label is string => typeof label === 'string' && label.trim() !== '');
+  } catch (error) {
+    throw new LocalizedError("画像内のテキストの抽出結果を読み取れませんでした。", undefined, { cause: error });
   }
+};
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+/** Where one widget of the Salt code appears in the source image. */
+export interface ElementBox {
+  /** Start offset of the widget in the code the boxes were requested for; identifies the widget. */
+  offset: number;
+  line: number;
+  region: ImageRegion;
+}
 
-  const prompt = `あなたはPlantUML Saltのエキスパートです。
-提供された元のUI画像と、現在のSaltコードを参考に、ユーザーの指示に従ってコードを修正してください。
+/** Widgets that can be pointed at in the image, in source order. Spans, spacers and separators are skipped. */
+const listLocatableWidgets = (saltCode: string): SaltNode[] => {
+  const widgets: SaltNode[] = [];
+  const visit = (node: SaltNode) => {
+    if (node.type === 'block') {
+      node.rows.forEach(row => row.cells.forEach(cell => cell.items.forEach(visit)));
+    } else if (node.type !== 'span' && node.type !== 'empty' && node.type !== 'separator') {
+      widgets.push(node);
+    }
+  };
+  parseSalt(saltCode).document.blocks.forEach(visit);
+  return widgets;
+};
 
-現在のSaltコード:
-${currentSalt}
+const buildLocatePrompt = (saltCode: string, widgets: SaltNode[]): string => {
+  const list = widgets
+    .map((node, i) => `E${i + 1}: ${saltCode.slice(node.range.start.offset, node.range.end.offset)}`)
+    .join("\n");
+  return `提供されたUI画像は、次のPlantUML Saltコードの元になった画面です。
+コードの各要素が画像上のどこに表示されているかを特定してください。
 
-ユーザーの修正指示:
-${instruction}
+要素の一覧（先頭はID、続いてその要素のSaltコード）:
+${list}
 
 要件:
-- **位置合わせのためのグリッドには無駄な罫線を出力せず、視覚的に枠線が必要な箇所にのみ '{+ }' を使用してください。**
-- **項目の縦方向の揃えが崩れないようにグリッド記法を適切に維持・修正してください。**
-- 出力は修正後のコードのみをマークダウンのコードブロック ' \`\`\`plantuml ' で囲んで出力してください。`;
-
-  const imagePart = {
-    inlineData: {
-      data: base64Image,
-      mimeType: mimeType,
-    },
-  };
+- 出力はJSONの配列のみとし、マークダウンのコードブロック ' \`\`\`json ' で囲んでください。
+- 配列の各要素は {"id": "E1", "x": 0.1, "y": 0.2, "width": 0.3, "height": 0.05} の形式とし、x・y は要素の左上、width・height は大きさを、画像の幅・高さに対する割合 (0〜1) で表してください。
+- 画像上で見つからない要素は出力しないでください。`;
+};
 
-  const textPart = {
-    text: prompt,
-  };
+/**
+ * Asks the model for the bounding box of every widget of the code in the source image, so that
+ * a widget picked in the preview can be shown (and refined) in the original screen.
+ */
+export const locateElements = async (
+  base64Image: string,
+  mimeType: string,
+  saltCode: string,
+  model: string,
+  provider: LLMProvider = defaultProvider,
+  options: { signal?: AbortSignal } = {}
+): Promise<ElementBox[]> => {
+  provider.assertConfigured();
+  const widgets = listLocatableWidgets(saltCode);
+  if (widgets.length === 0) return [];
+
+  const response = await generate(provider, {
+    task: 'locate-elements',
+    model,
+    prompt: buildLocatePrompt(saltCode, widgets),
+    image: { base64: base64Image, mimeType },
+    currentSalt: saltCode,
+    signal: options.signal,
+  });
 
+  const start = response.indexOf('[');
+  const end = response.lastIndexOf(']');
+  let entries: unknown;
   try {
-    const response = await ai.models.generateContent({
-      model: model,
-      contents: { parts: [imagePart, textPart] },
-    });
-    
-    return (response.text || "").trim();
-  } catch (error) {
-    console.error("Gemini API error during refinement:", error);
-    throw new Error("修正の生成に失敗しました。");
+    entries = JSON.parse(response.slice(start, end + 1));
+  } catch {
+    entries = null;
   }
+  if (!Array.isArray(entries)) throw new LocalizedError("要素の位置の特定結果を読み取れませんでした。");
+
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  return entries.flatMap((entry): ElementBox[] => {
+    const widget = widgets[Number(String(entry?.id).replace(/^E/i, '')) - 1];
+    const [x, y, width, height] = [entry?.x, entry?.y, entry?.width, entry?.height].map(Number);
+    if (!widget || ![x, y, width, height].every(Number.isFinite) || width <= 0 || height <= 0) return [];
+    const left = clamp(x);
+    const top = clamp(y);
+    return [{
+      offset: widget.range.start.offset,
+      line: widget.range.start.line,
+      region: { x: left, y: top, width: clamp(x + width) - left, height: clamp(y + height) - top },
+    }];
+  });
 };
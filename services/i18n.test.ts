@@ -0,0 +1,45 @@
+import { describe, expect, it } from 'vitest';
+import { translate, translateError } from './i18n';
+import { errorForStatus } from './providers/errors';
+import { lintSalt } from './saltLint';
+import { parseSalt } from './saltParser';
+import { SALT_SNIPPETS } from './saltSyntax';
+
+describe('translate', () => {
+  it('renders interpolated diagnostics in English from their key and parameters', () => {
+    const [diagnostic] = parseSalt('@startsalt\n{\n  [OK]\n}\n@enduml').diagnostics;
+    expect(diagnostic.message).toBe('@startsalt に対して @enduml で終わっています。');
+    expect(translate('en', diagnostic.messageKey, diagnostic.messageParams)).toBe('@startsalt is closed by @enduml.');
+  });
+
+  it('renders interpolated lint issues in English', () => {
+    const [issue] = lintSalt('@startsalt\n{\n  a | b | c\n  d | e\n}\n@endsalt');
+    expect(translate('en', issue.messageKey, issue.messageParams))
+      .toBe('This row has 2 cells, fewer than the other rows of its grid (3), so its columns are shifted.');
+  });
+
+  it('renders LLM errors in English', () => {
+    const error = errorForStatus(429, 'Gemini');
+    expect(error.message).toBe('Gemini: リクエストが多すぎるか、利用枠を使い切りました (HTTP 429)。');
+    expect(translate('en', error.messageKey, error.messageParams)).toBe('Gemini: Too many requests, or the quota is used up (HTTP 429).');
+  });
+
+  it('picks the singular or plural English form by the count', () => {
+    expect(translate('en', 'エラー {count}件', { count: 1 })).toBe('1 error');
+    expect(translate('en', 'エラー {count}件', { count: 3 })).toBe('3 errors');
+    expect(translate('ja', 'エラー {count}件', { count: 1 })).toBe('エラー 1件');
+    expect(translate('en', '生成されたSaltコードに構文エラーが {count} 件あります。コード欄の指摘を確認してください。', { count: 1 }))
+      .toBe('The generated Salt code has 1 syntax error. See the markers in the code editor.');
+  });
+
+  it('translates thrown errors, including the provider label in LLM errors', () => {
+    expect(translateError('en', errorForStatus(401, 'OpenAI互換API'))).toBe('OpenAI-compatible API: The API key was rejected (HTTP 401).');
+    expect(translateError('ja', errorForStatus(401, 'OpenAI互換API'))).toBe('OpenAI互換API: APIキーが拒否されました (HTTP 401)。');
+    expect(translateError('en', new Error('修正に失敗しました'))).toBe('Refinement failed');
+    expect(translateError('en', 'not an error')).toBe('');
+  });
+
+  it('has an English description for every editor snippet', () => {
+    SALT_SNIPPETS.forEach(snippet => expect(translate('en', snippet.description)).not.toBe(snippet.description));
+  });
+});
@@ -0,0 +1,503 @@
+export type Locale = 'ja' | 'en';
+
+export const LOCALES: { value: Locale; label: string }[] = [
+  { value: 'ja', label: '日本語' },
+  { value: 'en', label: 'English' },
+];
+
+/** Values substituted for {name} placeholders in a message. */
+export type MessageParams = Record<string, string | number>;
+
+/** A translation, or its singular and plural forms, chosen by the {count} parameter. */
+type Message = string | { one: string; other: string };
+
+/**
+ * English messages keyed by the Japanese source text. Keys missing here are shown in Japanese,
+ * so a new string never breaks the UI before it is translated.
+ */
+const EN: Record<string, Message> = {
+  // Conversion options
+  '変換オプション': 'Conversion options',
+  'プロバイダー': 'Provider',
+  '使用モデル': 'Model',
+  '再現レベル': 'Fidelity',
+  '構文エラー時の自動修復': 'Auto-repair syntax errors',
+  '修復しない': 'Off',
+  '最大 {count} 回': { one: 'Up to {count} round', other: 'Up to {count} rounds' },
+  'プロンプトプロファイル': 'Prompt profile',
+  '編集': 'Edit',
+  'OpenAI互換APIのURL': 'OpenAI-compatible API URL',
+  'APIキー': 'API key',
+  'OpenAI互換APIのAPIキー': 'OpenAI-compatible API key',
+  'OllamaサーバーのURL': 'Ollama server URL',
+  '1分あたりのリクエスト数の上限': 'Max requests per minute',
+  '0 で無制限。一時的なエラーは自動で再試行します。': '0 means unlimited. Transient errors are retried automatically.',
+  'ラベルの扱い': 'Labels from the image',
+  '翻訳先の言語': 'Target language',
+  '例: English': 'e.g. Japanese',
+  'プロファイルに従う': 'Follow the profile',
+  '画像のまま': 'Keep verbatim',
+  '翻訳する': 'Translate',
+  'プレースホルダーに置換': 'Replace with placeholders',
+  '空欄の場合はプロファイルの出力言語を使用します': "Leave empty to use the profile's output language",
+  'OpenAI互換API': 'OpenAI-compatible API',
+  'Ollama (ローカル)': 'Ollama (local)',
+  'モック (APIキー不要)': 'Mock (no API key)',
+  'シンプル': 'Simple',
+  '標準': 'Standard',
+  '詳細': 'Detailed',
+
+  // Prompt profile editor
+  '「{name}」を削除しますか？': 'Delete "{name}"?',
+  'インポートに失敗しました': 'Import failed',
+  '閉じる': 'Close',
+  ' (組み込み)': ' (built-in)',
+  '新しいプロファイル': 'New profile',
+  '新規': 'New',
+  '複製': 'Duplicate',
+  'インポート': 'Import',
+  'エクスポート': 'Export',
+  '組み込みプロファイルは編集できません。複製してから編集してください。': 'The built-in profile cannot be edited. Duplicate it to make changes.',
+  '{name} (カスタム)': '{name} (custom)',
+  '複製して編集': 'Duplicate and edit',
+  '名前': 'Name',
+  '出力言語 (空欄で画像のまま)': 'Output language (empty keeps the image text)',
+  '例: 英語': 'e.g. English',
+  '基本ルール': 'Base rules',
+  '再現レベル別の追加ルール': 'Additional rules per fidelity level',
+  '新しいレベル': 'New level',
+  'レベルを追加': 'Add level',
+  'レベル名': 'Level name',
+  'レベル値 (1-100)': 'Level value (1-100)',
+  '追加ルール': 'Additional rules',
+  '削除': 'Delete',
+  '修正テンプレート ({currentSalt} と {instruction} が置き換えられます)': 'Refinement template ({currentSalt} and {instruction} are substituted)',
+  'このプロファイルを削除': 'Delete this profile',
+  '修正テンプレートには {currentSalt} が、各プロファイルには1つ以上のレベルが必要です': 'The refinement template needs {currentSalt}, and every profile needs at least one level',
+  'キャンセル': 'Cancel',
+  '保存して使用': 'Save and use',
+
+  // Image input
+  '入力イメージ': 'Input image',
+  '変換中... ({seconds}秒{repair})': 'Converting... ({seconds}s{repair})',
+  ' / 自動修復 {count}回目': ' / repair round {count}',
+  '完了 (キャッシュ)': 'Done (cached)',
+  '完了 ({seconds}秒{repair})': 'Done ({seconds}s{repair})',
+  ' / 自動修復 {count}回': { one: ' / {count} repair round', other: ' / {count} repair rounds' },
+  'エラー {count}件': { one: '{count} error', other: '{count} errors' },
+  '警告 {count}件': { one: '{count} warning', other: '{count} warnings' },
+  '中断': 'Stop',
+  'リトライ': 'Retry',
+  'キャッシュを使わずにモデルで再生成します': 'Regenerate with the model, bypassing the cache',
+  '強制再生成': 'Force regenerate',
+  '画像をペースト、ドラッグ＆ドロップ': 'Paste or drag & drop an image',
+  'またはクリックして選択（複数画像・フォルダで一括変換）': 'or click to choose (several images or a folder for batch conversion)',
+  'フォルダを選択': 'Choose folder',
+  '範囲選択中': 'Selecting region',
+  '範囲選択': 'Select region',
+  '選択範囲を変換': 'Convert selection',
+  '選択解除': 'Clear selection',
+  '修正指示は選択範囲に対応するコードにのみ適用されます': 'Refinements apply only to the code for the selected region',
+  '画像上をドラッグして範囲を選択してください': 'Drag on the image to select a region',
+  '元画像': 'Original',
+  '送信': 'Sent',
+  '（そのまま送信）': ' (sent as is)',
+  '前処理の設定': 'Preprocessing',
+  '最大サイズ': 'Max size',
+  '縮小しない': 'No downscaling',
+  '形式': 'Format',
+  '自動': 'Auto',
+  '余白を自動トリミング': 'Trim margins',
+  'メタデータを削除': 'Strip metadata',
+  '次に読み込む画像から適用されます': 'Applies to the next image you load',
+
+  // Refinement chat
+  '修正指示': 'Refinement',
+  '選択範囲のみ': 'Selection only',
+  '元に戻す': 'Undo',
+  'やり直す': 'Redo',
+  '常に守る制約': 'Pinned constraints',
+  '制約を削除': 'Remove constraint',
+  '例: ヘッダーのロゴは出力しない': 'e.g. Do not output the header logo',
+  '追加': 'Add',
+  'やり取り ({count})': 'Conversation ({count})',
+  '履歴を消去': 'Clear history',
+  'この指示を常に守る制約に追加します': 'Add this instruction to the pinned constraints',
+  '固定': 'Pin',
+  '[選択範囲]': '[selection]',
+  '生成中...': 'Generating...',
+  '(変更内容の説明はありません)': '(no description of the changes)',
+  '現在のコード': 'Current code',
+  'このコードに戻す': 'Restore this code',
+  '例: グリッドを境界線付きに変更して、ボタンを右側に寄せて...': 'e.g. Give the grid borders and move the buttons to the right...',
+  '修正を依頼 (Ctrl+Enter)': 'Refine (Ctrl+Enter)',
+  '未採用': 'Not applied',
+  '採用済み': 'Accepted',
+  '採用': 'Accept',
+  '却下': 'Rejected',
+  '失敗': 'Failed',
+  '確認待ち': 'Awaiting review',
+
+  // Fidelity score
+  '再現度スコア': 'Fidelity score',
+  '差分を画像に重ねる': 'Overlay differences on the image',
+  '評価中...': 'Scoring...',
+  'コードが生成されると評価されます': 'Scored once code has been generated',
+  '総合': 'Overall',
+  'レイアウト': 'Layout',
+  '(エッジ一致 {edge} / 密度 {density} / 差分 {count}箇所)': { one: '(edge match {edge} / density {density} / {count} difference)', other: '(edge match {edge} / density {density} / {count} differences)' },
+  'テキスト再現率': 'Text recall',
+  '未評価': 'Not scored',
+  'Saltに見つからないラベル ({missing}/{total})': 'Labels missing from the Salt ({missing}/{total})',
+  '読み取り中...': 'Reading...',
+  'ラベルを再読み取り': 'Read labels again',
+  '画像のラベルを読み取る': 'Read labels from the image',
+  'テキスト再現率の評価には選択中のモデルを使用します': 'Text recall uses the selected model',
+
+  // Refinement review
+  '修正案の確認': 'Review refinement',
+  '破棄': 'Discard',
+  '修正前': 'Before',
+  '修正後': 'After',
+  '修正前のプレビュー': 'Preview before',
+  '修正後のプレビュー': 'Preview after',
+
+  // Preview
+  'プレビュー画像を取得できませんでした。サーバーがCORSを許可していない可能性があります。': 'Could not fetch the preview image. The server may not allow CORS.',
+  'ブラウザ内 (オフライン)': 'In browser (offline)',
+  '自前のPlantUMLサーバー': 'Own PlantUML server',
+  'plantuml.com (公開)': 'plantuml.com (public)',
+  'レンダリング結果 (PlantUML)': 'Rendered result (PlantUML)',
+  'プレビュー上の要素を選択してコードと元画像の位置を表示します': 'Select an element in the preview to show its code and position in the original image',
+  '要素の選択はブラウザ内レンダラーでのみ利用できます': 'Element selection is only available with the in-browser renderer',
+  '要素を選択': 'Select element',
+  'レンダラー': 'Renderer',
+  'PlantUMLサーバーのURL': 'PlantUML server URL',
+  'レンダリング中...': 'Rendering...',
+  'PlantUMLサーバーのURLを入力してください': 'Enter the URL of your PlantUML server',
+  '{line}行目': 'Line {line}',
+  '{line}行目の要素': 'Element on line {line}',
+  'ここにプレビューが表示されます': 'The preview appears here',
+  '{line}行目の要素を選択中': 'Element on line {line} selected',
+  'この要素を修正': 'Refine this element',
+  '元画像では見つかりませんでした': 'Not found in the original image',
+  'モデルに元画像での各要素の位置を問い合わせます': 'Ask the model where each element is in the original image',
+  '入力画像がありません': 'No input image',
+  '位置を特定中...': 'Locating...',
+  '元画像で位置を特定': 'Locate in original image',
+  'プレビュー上の要素をクリックすると、対応するコード行と元画像の位置を表示します': 'Click an element in the preview to show its code line and position in the original image',
+
+  // Code output
+  'PlantUML Salt コード': 'PlantUML Salt code',
+  'エクスポートに失敗しました': 'Export failed',
+  '構文OK': 'Syntax OK',
+  'エクスポート形式': 'Export format',
+  'JSON UIツリー': 'JSON UI tree',
+  'インデントを揃え、グリッドの列を整列します': 'Normalize indentation and align grid columns',
+  '整形': 'Format',
+  'コピー済み': 'Copied',
+  'コードをコピー': 'Copy code',
+  'コードがここに表示されます': 'The code appears here',
+  'スタイル指摘 {count}件': { one: '{count} style issue', other: '{count} style issues' },
+  'スタイル指摘なし': 'No style issues',
+  'すべて修正': 'Fix all',
+  'ルール設定': 'Rules',
+  '修正': 'Fix',
+  '位置合わせ用グリッドの罫線': 'Borders on alignment grids',
+  'ラベルと入力欄を並べるだけのグリッドに罫線 ({+ など) が付いている': 'A grid that only lines up labels and inputs has borders ({+ etc.)',
+  'セル数の揃わない行': 'Ragged rows',
+  '同じグリッド内で他の行よりセルが少なく、列がずれる行': 'A row with fewer cells than the others in its grid, which shifts the columns',
+  '空のウィジェット': 'Empty widgets',
+  '中身のないテキストフィールド・コンボボックスや、"." のない空セル': 'Text fields or combo boxes without content, and empty cells without "."',
+  '重複したタブ名': 'Duplicate tab names',
+  '同じタブ列に同じ名前のタブが複数ある': 'The same tab name appears more than once in a tab bar',
+
+  // Sharing
+  '共有': 'Share',
+  '共有リンクと埋め込み用スニペットを作成します': 'Create a share link and embeddable snippets',
+  '共有リンク': 'Share link',
+  'リンクを開くと、このコードとモデル・再現レベルが復元されます。画像は含まれません。': 'Opening the link restores this code, model and fidelity. The image is not included.',
+  '埋め込み用スニペット': 'Embed snippet',
+  'スニペットの形式': 'Snippet format',
+  '画像から共有リンクを開く': 'Link the image to the share link',
+  '埋め込み画像は plantuml.com で描画されます。社外に出せないコードの場合は、自前のPlantUMLサーバーのURLを設定してください。': 'Embedded images are rendered by plantuml.com. For code that must stay internal, set the URL of your own PlantUML server.',
+  '埋め込み画像は {server} で描画されます。': 'Embedded images are rendered by {server}.',
+
+  // Batch conversion
+  '一括変換': 'Batch conversion',
+  '{done}/{total} 完了': '{done}/{total} done',
+  '失敗 {count}': '{count} failed',
+  '同時実行': 'Concurrency',
+  '失敗時の再試行': 'Retries on failure',
+  '{count}回': '{count}',
+  '未完了分を変換': 'Convert remaining',
+  '変換開始': 'Start',
+  'ZIPでダウンロード': 'Download ZIP',
+  '画面遷移図を作成': 'Create flow diagram',
+  'クリア': 'Clear',
+  '構文エラー {count}件': { one: '{count} syntax error', other: '{count} syntax errors' },
+  '{count}回目': 'attempt {count}',
+  '{seconds}秒': '{seconds}s',
+  '待機中': 'Waiting',
+  '変換中': 'Converting',
+  '再試行待ち': 'Retry pending',
+  '完了': 'Done',
+
+  // Flow diagram
+  '(削除された画面)': '(deleted screen)',
+  '画面遷移図': 'Screen flow diagram',
+  'タイトル (任意)': 'Title (optional)',
+  'コピーしました': 'Copied',
+  'コピー': 'Copy',
+  '.pumlをダウンロード': 'Download .puml',
+  '画面 (先頭が開始画面)': 'Screens (the first is the start screen)',
+  '画面{index}の名前': 'Name of screen {index}',
+  '上へ': 'Move up',
+  '下へ': 'Move down',
+  '遷移': 'Transitions',
+  '遷移元': 'From',
+  '遷移元...': 'From...',
+  '操作 (ボタン名など)': 'Trigger (button name etc.)',
+  '遷移先': 'To',
+  '遷移先...': 'To...',
+  'ボタンなどの操作と、その遷移先の画面を追加してください': 'Add a trigger such as a button and the screen it leads to',
+  '画面遷移図のプレビュー': 'Flow diagram preview',
+  'ブラウザ内レンダラーはSalt単体の図のみ対応しています。画面遷移図のプレビューはPlantUMLサーバーのレンダラーに切り替えると表示されます。': 'The in-browser renderer only draws single Salt diagrams. Switch to a PlantUML server renderer to preview the flow diagram.',
+
+  // Model comparison
+  '再現レベル:': 'Fidelity:',
+  'トークン: 入力 {input} / 出力 {output}': 'Tokens: {input} in / {output} out',
+  'スコア': 'Score',
+  '変換中...': 'Converting...',
+  'コードを隠す': 'Hide code',
+  'コードを表示': 'Show code',
+  'モデル比較': 'Compare models',
+  '比較を実行 ({count}件)': 'Run comparison ({count})',
+  'モデル': 'Models',
+  'モデル:': 'Models:',
+  '比較するには画像を読み込んでください': 'Load an image to compare',
+
+  // Result cache
+  'キャッシュを読み込めませんでした。': 'Could not load the cache.',
+  'キャッシュをすべて削除しますか？': 'Delete all cached results?',
+  '変換キャッシュ': 'Conversion cache',
+  '{count} 件 ・ 約 {size} KB': { one: '{count} entry ・ about {size} KB', other: '{count} entries ・ about {size} KB' },
+  'すべて削除': 'Delete all',
+  'キャッシュされた変換結果はありません': 'No cached results',
+  '再現レベル {value}': 'fidelity {value}',
+  '利用 {count} 回': { one: 'used once', other: 'used {count} times' },
+  'キャッシュ': 'Cache',
+
+  // History
+  '変換履歴': 'History',
+  '保存されたプロジェクトはありません': 'No saved projects',
+  '{count} バージョン': { one: '{count} version', other: '{count} versions' },
+  '開く': 'Open',
+  '名前を変更': 'Rename',
+  '変換 ({model})': 'Convert ({model})',
+  ' [範囲]': ' [region]',
+  '手動編集': 'Manual edit',
+  '修正{region}: {instruction}': 'Refine{region}: {instruction}',
+  '分岐': 'Branch',
+  '履歴 ({count})': 'History ({count})',
+
+  // App
+  'モデル一覧の取得に失敗しました': 'Failed to load the model list',
+  'ラベルの読み取りに失敗しました': 'Failed to read labels',
+  '要素の位置を特定できませんでした': 'Could not locate the elements',
+  'エラーが発生しました': 'An error occurred',
+  '画像を読み込めませんでした。': 'Could not load the image.',
+  '生成されたSaltコードに構文エラーが {count} 件あります。コード欄の指摘を確認してください。': {
+    one: 'The generated Salt code has {count} syntax error. See the markers in the code editor.',
+    other: 'The generated Salt code has {count} syntax errors. See the markers in the code editor.',
+  },
+  '自動修復を {rounds} 回行っても、生成されたSaltコードに構文エラーが {count} 件残っています。コード欄の指摘を確認してください。': {
+    one: 'The generated Salt code still has {count} syntax error after auto-repair (rounds: {rounds}). See the markers in the code editor.',
+    other: 'The generated Salt code still has {count} syntax errors after auto-repair (rounds: {rounds}). See the markers in the code editor.',
+  },
+  '中断しました': 'Stopped',
+  '修正に失敗しました': 'Refinement failed',
+  '表示言語': 'Display language',
+  'UI画像をPlantUML Saltコードに瞬時に変換': 'Turn UI images into PlantUML Salt code instantly',
+  'PlantUML Salt形式で出力されます。': 'Output is PlantUML Salt. ',
+  'プレビューはブラウザ内で描画され、外部には送信されません。': 'The preview is drawn in your browser and never sent anywhere.',
+  '自前のPlantUMLサーバーでプレビューを表示しています。': 'The preview is rendered by your own PlantUML server.',
+  '公式レンダラー (plantuml.com) を使用してプレビューを表示しています。': 'The preview is rendered by the public plantuml.com server.',
+
+  // LLM errors
+  '接続設定がありません': 'Connection settings are missing',
+  '.env.local の GEMINI_API_KEY、または変換オプションのプロバイダー設定 (URL・APIキー) を確認してください。': 'Check GEMINI_API_KEY in .env.local or the provider settings (URL and API key) in the conversion options.',
+  '認証に失敗しました': 'Authentication failed',
+  'APIキーが正しいか、選択したモデルを利用する権限があるかを確認してください。': 'Check that the API key is correct and allowed to use the selected model.',
+  '利用上限に達しました': 'Quota exceeded',
+  'しばらく待ってから再試行するか、プロバイダー設定の「1分あたりのリクエスト数」を下げてください。': 'Wait a moment and retry, or lower "Max requests per minute" in the provider settings.',
+  '安全フィルターでブロックされました': 'Blocked by the safety filter',
+  '画像に個人情報などが含まれていないか確認し、該当部分を隠すか範囲選択で除外してから再試行してください。': 'Check the image for personal data, then mask it or exclude it with a region selection and retry.',
+  '応答がタイムアウトしました': 'The request timed out',
+  'ネットワーク状況を確認するか、より高速なモデルや低い再現レベルで再試行してください。': 'Check your network, or retry with a faster model or a lower fidelity.',
+  '応答が空でした': 'The response was empty',
+  '再試行するか、別のモデルを選択してください。': 'Retry or choose another model.',
+  '接続できませんでした': 'Could not connect',
+  'インターネット接続と、プロバイダーのURL・CORS設定を確認してください。': 'Check your internet connection and the provider URL and CORS settings.',
+  'サーバーでエラーが発生しました': 'The server returned an error',
+  'プロバイダー側の一時的な障害の可能性があります。時間をおいて再試行してください。': 'The provider may be having a temporary outage. Retry later.',
+  'リクエストが受け付けられませんでした': 'The request was rejected',
+  'モデル名が正しいか、モデルが画像入力に対応しているかを確認してください。': 'Check the model name and that the model accepts images.',
+  '記録された応答がありません': 'No recorded response',
+  'プロンプトかモデルが記録時と異なります。--record で記録し直してください。': 'The prompt or model differs from the recording. Record it again with --record.',
+  '詳細はブラウザのコンソールを確認してください。': 'See the browser console for details.',
+  '{provider}: APIキーが拒否されました (HTTP {status})。': '{provider}: The API key was rejected (HTTP {status}).',
+  '{provider}: リクエストが多すぎるか、利用枠を使い切りました (HTTP {status})。': '{provider}: Too many requests, or the quota is used up (HTTP {status}).',
+  '{provider}: 応答がタイムアウトしました (HTTP {status})。': '{provider}: The request timed out (HTTP {status}).',
+  '{provider}: サーバーでエラーが発生しました (HTTP {status})。': '{provider}: The server returned an error (HTTP {status}).',
+  '{provider}: リクエストが不正です (HTTP {status})。': '{provider}: The request was invalid (HTTP {status}).',
+  '{provider}: 通信に失敗しました (HTTP {status})。': '{provider}: The request failed (HTTP {status}).',
+  '{provider}: 通信に失敗しました。': '{provider}: The request failed.',
+  '{provider}: サーバーに接続できませんでした。': '{provider}: Could not reach the server.',
+  '{provider}: 安全フィルターにより応答がブロックされました ({reason})。': '{provider}: The response was blocked by a safety filter ({reason}).',
+  '{provider}: モデルから空の応答が返されました。': '{provider}: The model returned an empty response.',
+  '{provider}: {seconds}秒以上応答がありませんでした。': '{provider}: No response for more than {seconds} seconds.',
+  '{provider}: この入力に対する応答は記録されていません ({task})。': '{provider}: No response was recorded for this input ({task}).',
+  'APIキーが設定されていません。': 'No API key is set.',
+  'OpenAI互換APIのURLが設定されていません。': 'No OpenAI-compatible API URL is set.',
+  'OllamaサーバーのURLが設定されていません。': 'No Ollama server URL is set.',
+  'ストリーミング応答を読み取れません。': 'Cannot read the streamed response.',
+
+  // Service errors
+  '構文エラーのあるSaltコードはエクスポートできません。コード欄の指摘を修正してください。': 'Salt code with syntax errors cannot be exported. Fix the problems shown below the code.',
+  '比較する画像のサイズが一致しません。': 'The images being compared differ in size.',
+  '選択範囲の修正結果から置き換え位置を読み取れませんでした。': 'Could not find where to apply the refined selection.',
+  '選択範囲の修正結果の行番号 ({start}-{end}) が不正です。': 'The refined selection has invalid line numbers ({start}-{end}).',
+  '画像内のテキストの抽出結果を読み取れませんでした。': 'Could not read the text extracted from the image.',
+  '要素の位置の特定結果を読み取れませんでした。': 'Could not read the element locations.',
+  '画像の切り出しに失敗しました。': 'Failed to crop the image.',
+  'PNGへの変換に失敗しました。': 'Failed to convert the image to PNG.',
+  '画像の読み込みに失敗しました。': 'Failed to load the image.',
+  '画像の前処理に失敗しました。': 'Failed to preprocess the image.',
+  'HEIC形式の画像はこのブラウザでは読み込めません。PNGまたはJPEGに変換してから読み込んでください。': 'This browser cannot open HEIC images. Convert the image to PNG or JPEG first.',
+  'プロファイルファイルがJSONとして読み込めませんでした。': 'The profile file is not valid JSON.',
+  'プロファイルが含まれていないか、形式が正しくありません。': 'The file contains no profiles or has the wrong format.',
+  '{index}件目のプロファイルに変換ルール (baseRules) がありません。': 'Profile {index} has no conversion rules (baseRules).',
+  '{index}件目のプロファイルの修正テンプレートに {{currentSalt}} がありません。': 'The refinement template of profile {index} does not contain {{currentSalt}}.',
+  '共有リンクのコードを読み込めませんでした。リンクが途中で切れていないか確認してください。': 'Could not read the code in the share link. Check that the link is complete.',
+
+  // Salt parser
+  '@startsalt がありません。': '@startsalt is missing.',
+  '@endsalt がありません。': '@endsalt is missing.',
+  '@start{start} に対して @end{end} で終わっています。': '@start{start} is closed by @end{end}.',
+  '@startsalt より前に余分なテキストがあります。': 'There is extra text before @startsalt.',
+  '@endsalt より後に余分なテキストがあります。': 'There is extra text after @endsalt.',
+  'Salt ブロックの外にテキストがあります。': 'There is text outside the Salt block.',
+  "対応する '{' がない '}' があります。": "'}' without a matching '{'.",
+  "'{' が閉じられていません。": "'{' is not closed.",
+  "'[' が閉じられていません。": "'[' is not closed.",
+  "テキストフィールドの '\"' が閉じられていません。": "The '\"' of a text field is not closed.",
+  "コンボボックスの '^' が閉じられていません。": "The '^' of a combo box is not closed.",
+  "グループのタイトルの '\"' が閉じられていません。": "The '\"' of a group title is not closed.",
+  "Salt のブロック '{ }' がありません。": "There is no Salt block '{ }'.",
+
+  // Style checks
+  "'{marker}' のグリッドは位置合わせにしか使われていません。罫線なしの '{' にできます。": "The '{marker}' grid is only used for alignment. It can be a borderless '{'.",
+  'この行のセルは{count}個で、同じグリッドの他の行 ({columns}個) より少ないため列がずれます。': {
+    one: 'This row has {count} cell, fewer than the other rows of its grid ({columns}), so its columns are shifted.',
+    other: 'This row has {count} cells, fewer than the other rows of its grid ({columns}), so its columns are shifted.',
+  },
+  'タブ「{label}」が重複しています。': 'The tab "{label}" appears more than once.',
+  '空のセルがあります。空白セルには "." を書いてください。': 'There is an empty cell. Write "." for a blank cell.',
+  '空のテキストフィールド "" は幅がなく、ほとんど表示されません。': 'The empty text field "" has no width and is barely visible.',
+  '空のコンボボックスがあります。': 'There is an empty combo box.',
+
+  // Editor snippets
+  'ボタン': 'Button',
+  'テキスト入力フィールド': 'Text field',
+  'チェックボックス': 'Checkbox',
+  'チェックボックス (選択済み)': 'Checkbox (checked)',
+  'ラジオボタン': 'Radio button',
+  'ラジオボタン (選択済み)': 'Radio button (selected)',
+  'コンボボックス': 'Combo box',
+  '罫線なしグリッド': 'Grid without lines',
+  '罫線付きグリッド (外枠)': 'Grid with outer border',
+  '罫線付きグリッド (全罫線)': 'Grid with all lines',
+  'タブ': 'Tabs',
+  'ツリー構造': 'Tree',
+  'グループボックス': 'Group box',
+  '水平セパレータ': 'Horizontal separator',
+  '垂直セパレータ': 'Vertical separator',
+};
+
+const DICTIONARIES: Record<Locale, Record<string, Message>> = { ja: {}, en: EN };
+
+/**
+ * Looks up the message for the Japanese source text and fills in its {name} placeholders.
+ * Text without a translation, such as user data, is returned as it is.
+ */
+export const translate = (locale: Locale, text: string, params?: MessageParams): string => {
+  const entry = DICTIONARIES[locale][text] ?? text;
+  const message = typeof entry === 'string' ? entry
+    : new Intl.PluralRules(dateLocale(locale)).select(Number(params?.count)) === 'one' ? entry.one : entry.other;
+  return params ? message.replace(/\{(\w+)\}/g, (match, key: string) => key in params ? String(params[key]) : match) : message;
+};
+
+/** The Japanese message, for logs, the CLI and prompts sent to the model. */
+export const formatMessage = (text: string, params?: MessageParams): string => translate('ja', text, params);
+
+/**
+ * An error whose message is translated when it is shown: messageKey is the Japanese source text with
+ * its {name} placeholders, and message the Japanese text for logs and the command-line tool.
+ */
+export class LocalizedError extends Error {
+  readonly messageKey: string;
+  readonly messageParams?: MessageParams;
+
+  constructor(messageKey: string, messageParams?: MessageParams, options: { cause?: unknown } = {}) {
+    super(formatMessage(messageKey, messageParams), { cause: options.cause });
+    this.name = 'LocalizedError';
+    this.messageKey = messageKey;
+    this.messageParams = messageParams;
+  }
+}
+
+/**
+ * The message of a thrown error in the given language. Errors without a key are looked up by their
+ * text. The provider label filled into LLM errors is a UI label and is translated as well.
+ */
+export const translateError = (locale: Locale, error: unknown): string => {
+  if (error instanceof LocalizedError) {
+    const params = error.messageParams;
+    return translate(locale, error.messageKey, typeof params?.provider === 'string' ? { ...params, provider: translate(locale, params.provider) } : params);
+  }
+  return error instanceof Error ? translate(locale, error.message) : '';
+};
+
+/**
+ * Wraps anything thrown in a LocalizedError, so that it can be kept and shown in the language current
+ * at that time. Errors without a message get the fallback.
+ */
+export const toLocalizedError = (error: unknown, fallbackKey: string): LocalizedError => {
+  if (error instanceof LocalizedError) return error;
+  return new LocalizedError((error instanceof Error && error.message) || fallbackKey, undefined, { cause: error });
+};
+
+/** BCP 47 tag for formatting dates and numbers. */
+export const dateLocale = (locale: Locale): string => locale === 'ja' ? 'ja-JP' : 'en-US';
+
+const LOCALE_KEY = 'image2salt.locale';
+
+/** The saved language, or the browser's language on first use. */
+export const loadLocale = (): Locale => {
+  try {
+    const stored = localStorage.getItem(LOCALE_KEY);
+    if (stored === 'ja' || stored === 'en') return stored;
+  } catch {
+    // Fall through to the browser language.
+  }
+  return typeof navigator !== 'undefined' && !navigator.language.startsWith('ja') ? 'en' : 'ja';
+};
+
+export const saveLocale = (locale: Locale): void => {
+  try {
+    localStorage.setItem(LOCALE_KEY, locale);
+  } catch (e) {
+    console.error("Failed to save locale", e);
+  }
+};
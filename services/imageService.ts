@@ -0,0 +1,246 @@
+/** Rectangle on an image, in fractions (0-1) of its width and height. */
+export interface ImageRegion {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/** Regions smaller than this fraction of the image on either side are treated as accidental clicks. */
+export const MIN_REGION_SIZE = 0.02;
+
+/**
+ * Normalizes a rectangle dragged between two points so that width and height are positive
+ * and the rectangle stays inside the image.
+ */
+export const regionFromPoints = (x1: number, y1: number, x2: number, y2: number): ImageRegion => {
+  const clamp = (value: number) => Math.min(1, Math.max(0, value));
+  const left = clamp(Math.min(x1, x2));
+  const top = clamp(Math.min(y1, y2));
+  return { x: left, y: top, width: clamp(Math.max(x1, x2)) - left, height: clamp(Math.max(y1, y2)) - top };
+};
+
+export const isUsableRegion = (region: ImageRegion | null): region is ImageRegion =>
+  !!region && region.width >= MIN_REGION_SIZE && region.height >= MIN_REGION_SIZE;
+
+const loadImage = (file: Blob): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => { URL.revokeObjectURL(url); resolve(image); };
+    image.onerror = () => { URL.revokeObjectURL(url); reject(new Error('画像を読み込めませんでした。')); };
+    image.src = url;
+  });
+};
+
+/**
+ * Crops the region out of an image file. The crop is always encoded as PNG so that
+ * thin lines and small text survive.
+ */
+export const cropImage = async (file: File, region: ImageRegion): Promise<File> => {
+  const image = await loadImage(file);
+  const sx = Math.round(region.x * image.naturalWidth);
+  const sy = Math.round(region.y * image.naturalHeight);
+  const width = Math.max(1, Math.round(region.width * image.naturalWidth));
+  const height = Math.max(1, Math.round(region.height * image.naturalHeight));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('画像の切り出しに失敗しました。');
+  context.drawImage(image, sx, sy, width, height, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('画像の切り出しに失敗しました。');
+  const baseName = file.name.replace(/\.[^.]+$/, '');
+  return new File([blob], `${baseName}-crop.png`, { type: 'image/png' });
+};
+
+/**
+ * Rasterizes an SVG image to PNG on a white background, enlarged by scale for sharper output.
+ */
+export const svgToPng = async (svg: Blob, scale = 2): Promise<Blob> => {
+  const image = await loadImage(svg);
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('PNGへの変換に失敗しました。');
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('PNGへの変換に失敗しました。');
+  return blob;
+};
+
+/**
+ * Draws an image onto a white canvas and returns its pixels. Without a height the image keeps
+ * its aspect ratio; with one it is stretched to exactly width x height.
+ */
+export const rasterizeImage = async (file: Blob, width: number, height?: number): Promise<ImageData> => {
+  const image = await loadImage(file);
+  const targetHeight = height ?? Math.max(1, Math.round(width * image.naturalHeight / Math.max(1, image.naturalWidth)));
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = targetHeight;
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('画像の読み込みに失敗しました。');
+  context.fillStyle = '#fff';
+  context.fillRect(0, 0, width, targetHeight);
+  context.drawImage(image, 0, 0, width, targetHeight);
+  return context.getImageData(0, 0, width, targetHeight);
+};
+
+// --- PREPROCESSING ---
+
+export interface PreprocessSettings {
+  /** Longest side in pixels; larger images are scaled down. 0 keeps the original size. */
+  maxDimension: number;
+  /** 'auto' keeps JPEG photos as JPEG and turns everything else into lossless PNG. */
+  outputFormat: 'auto' | 'png' | 'jpeg';
+  /** Crops uniform margins around the screen content. */
+  trimBorders: boolean;
+  /** Re-encodes even when nothing else changes, which drops EXIF and other embedded metadata. */
+  stripMetadata: boolean;
+}
+
+export interface PreprocessResult {
+  file: File;
+  original: { size: number; width: number; height: number };
+  width: number;
+  height: number;
+  /** False when the original file is passed through untouched. */
+  changed: boolean;
+}
+
+const PREPROCESS_SETTINGS_KEY = 'image2salt.preprocessSettings';
+
+export const DEFAULT_PREPROCESS_SETTINGS: PreprocessSettings = {
+  maxDimension: 2048,
+  outputFormat: 'auto',
+  trimBorders: false,
+  stripMetadata: true,
+};
+
+export const loadPreprocessSettings = (): PreprocessSettings => {
+  try {
+    const stored = localStorage.getItem(PREPROCESS_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_PREPROCESS_SETTINGS, ...JSON.parse(stored) } : DEFAULT_PREPROCESS_SETTINGS;
+  } catch {
+    return DEFAULT_PREPROCESS_SETTINGS;
+  }
+};
+
+export const savePreprocessSettings = (settings: PreprocessSettings): void => {
+  try {
+    localStorage.setItem(PREPROCESS_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save preprocess settings", e);
+  }
+};
+
+/** Formats every model backend accepts as is; anything else is converted. */
+const PASSTHROUGH_TYPES = ['image/png', 'image/jpeg', 'image/webp'];
+
+const isHeic = (file: File) => /^image\/hei[cf]/.test(file.type) || /\.hei[cf]$/i.test(file.name);
+
+/**
+ * Finds the bounding box of pixels that differ from the corner colour by more than tolerance
+ * (0-255 per channel), i.e. the content inside a uniform border. Returns null for a blank image.
+ */
+export const findContentBounds = (
+  image: { data: Uint8ClampedArray; width: number; height: number },
+  tolerance = 12
+): { x: number; y: number; width: number; height: number } | null => {
+  const { data, width, height } = image;
+  const [r, g, b] = [data[0], data[1], data[2]];
+  let left = width, top = height, right = -1, bottom = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (Math.abs(data[i] - r) > tolerance || Math.abs(data[i + 1] - g) > tolerance || Math.abs(data[i + 2] - b) > tolerance) {
+        if (x < left) left = x;
+        if (x > right) right = x;
+        if (y < top) top = y;
+        if (y > bottom) bottom = y;
+      }
+    }
+  }
+  return right < 0 ? null : { x: left, y: top, width: right - left + 1, height: bottom - top + 1 };
+};
+
+/** Margin kept around trimmed content so that outer borders are not cut. */
+const TRIM_PADDING = 4;
+
+/**
+ * Prepares an image for upload: scales it down to maxDimension, converts formats the models do not
+ * take (BMP, GIF, whose first frame is used) and optionally trims uniform borders and strips metadata.
+ */
+export const preprocessImage = async (file: File, settings: PreprocessSettings): Promise<PreprocessResult> => {
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(file);
+  } catch {
+    throw new Error(isHeic(file)
+      ? 'HEIC形式の画像はこのブラウザでは読み込めません。PNGまたはJPEGに変換してから読み込んでください。'
+      : '画像を読み込めませんでした。');
+  }
+  const original = { size: file.size, width: image.naturalWidth, height: image.naturalHeight };
+
+  let source = { x: 0, y: 0, width: original.width, height: original.height };
+  let canvas = document.createElement('canvas');
+  let context = canvas.getContext('2d');
+  if (!context) throw new Error('画像の前処理に失敗しました。');
+
+  if (settings.trimBorders) {
+    canvas.width = original.width;
+    canvas.height = original.height;
+    context.drawImage(image, 0, 0);
+    const bounds = findContentBounds(context.getImageData(0, 0, original.width, original.height));
+    if (bounds) {
+      const x = Math.max(0, bounds.x - TRIM_PADDING);
+      const y = Math.max(0, bounds.y - TRIM_PADDING);
+      source = {
+        x, y,
+        width: Math.min(original.width, bounds.x + bounds.width + TRIM_PADDING) - x,
+        height: Math.min(original.height, bounds.y + bounds.height + TRIM_PADDING) - y,
+      };
+    }
+  }
+
+  const scale = settings.maxDimension > 0 ? Math.min(1, settings.maxDimension / Math.max(source.width, source.height)) : 1;
+  const width = Math.max(1, Math.round(source.width * scale));
+  const height = Math.max(1, Math.round(source.height * scale));
+  const trimmed = source.width !== original.width || source.height !== original.height;
+  const type = settings.outputFormat === 'jpeg' || (settings.outputFormat === 'auto' && file.type === 'image/jpeg') ? 'image/jpeg' : 'image/png';
+  const needsEncoding = trimmed || scale < 1 || settings.stripMetadata
+    || !PASSTHROUGH_TYPES.includes(file.type) || (settings.outputFormat !== 'auto' && type !== file.type);
+  if (!needsEncoding) return { file, original, width, height, changed: false };
+
+  canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  context = canvas.getContext('2d');
+  if (!context) throw new Error('画像の前処理に失敗しました。');
+  // JPEG has no transparency; PNG keeps it.
+  if (type === 'image/jpeg') {
+    context.fillStyle = '#fff';
+    context.fillRect(0, 0, width, height);
+  }
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, source.x, source.y, source.width, source.height, 0, 0, width, height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, type, 0.9));
+  if (!blob) throw new Error('画像の前処理に失敗しました。');
+  const baseName = file.name.replace(/\.[^.]+$/, '') || 'image';
+  return {
+    file: new File([blob], `${baseName}.${type === 'image/jpeg' ? 'jpg' : 'png'}`, { type }),
+    original,
+    width,
+    height,
+    changed: true,
+  };
+};
@@ -0,0 +1,162 @@
+import * as pako from 'pako';
+import { renderSaltToSvg } from './saltRenderer';
+
+// --- PLANTUML ENCODING UTILS ---
+const encode6bit = (b: number): string => {
+  if (b < 10) return String.fromCharCode(48 + b);
+  if (b < 36) return String.fromCharCode(65 + b - 10);
+  if (b < 62) return String.fromCharCode(97 + b - 36);
+  if (b === 62) return '-';
+  if (b === 63) return '_';
+  return '?';
+};
+
+const encode3bytes = (b1: number, b2: number, b3: number): string => {
+  const c1 = b1 >> 2;
+  const c2 = ((b1 & 0x3) << 4) | (b2 >> 4);
+  const c3 = ((b2 & 0xf) << 2) | (b3 >> 6);
+  const c4 = b3 & 0x3f;
+  return encode6bit(c1 & 0x3f) +
+         encode6bit(c2 & 0x3f) +
+         encode6bit(c3 & 0x3f) +
+         encode6bit(c4 & 0x3f);
+};
+
+export const encode64 = (data: Uint8Array): string => {
+  let r = "";
+  for (let i = 0; i < data.length; i += 3) {
+    if (i + 2 < data.length) {
+      r += encode3bytes(data[i], data[i + 1], data[i + 2]);
+    } else if (i + 1 < data.length) {
+      const b1 = data[i];
+      const b2 = data[i + 1];
+      const c1 = b1 >> 2;
+      const c2 = ((b1 & 0x3) << 4) | (b2 >> 4);
+      const c3 = (b2 & 0xf) << 2;
+      r += encode6bit(c1 & 0x3f) + encode6bit(c2 & 0x3f) + encode6bit(c3 & 0x3f);
+    } else {
+      const b1 = data[i];
+      const c1 = b1 >> 2;
+      const c2 = (b1 & 0x3) << 4;
+      r += encode6bit(c1 & 0x3f) + encode6bit(c2 & 0x3f);
+    }
+  }
+  return r;
+};
+
+const decode6bit = (c: string): number => {
+  const code = c.charCodeAt(0);
+  if (code >= 48 && code <= 57) return code - 48;
+  if (code >= 65 && code <= 90) return code - 65 + 10;
+  if (code >= 97 && code <= 122) return code - 97 + 36;
+  if (c === '-') return 62;
+  if (c === '_') return 63;
+  throw new Error(`Invalid character in encoded PlantUML: ${c}`);
+};
+
+/**
+ * Reverses encode64. A trailing group of two or three characters holds one or two bytes.
+ */
+export const decode64 = (text: string): Uint8Array => {
+  const bytes: number[] = [];
+  for (let i = 0; i < text.length; i += 4) {
+    const [c1, c2, c3, c4] = Array.from(text.slice(i, i + 4)).map(decode6bit);
+    if (c2 === undefined) break;
+    bytes.push((c1 << 2) | (c2 >> 4));
+    if (c3 !== undefined) bytes.push(((c2 & 0xf) << 4) | (c3 >> 2));
+    if (c4 !== undefined) bytes.push(((c3 & 0x3) << 6) | c4);
+  }
+  return new Uint8Array(bytes);
+};
+
+/**
+ * Removes the markdown code fence the model wraps around its PlantUML output.
+ */
+export const stripCodeFence = (code: string): string =>
+  code.replace(/```[a-z]*\n?/gi, '').replace(/```\n?/gi, '').trim();
+
+/**
+ * Encodes PlantUML source in the deflate + custom base64 format used in PlantUML server URLs.
+ */
+export const encodePlantUML = (code: string): string => {
+  const utf8Encoder = new TextEncoder();
+  const data = utf8Encoder.encode(stripCodeFence(code));
+  const compressed = pako.deflate(data, { level: 9 });
+  return encode64(compressed);
+};
+
+/**
+ * Restores PlantUML source from the encoding produced by encodePlantUML.
+ */
+export const decodePlantUML = (encoded: string): string => {
+  const data = pako.inflate(decode64(encoded));
+  // pako returns nothing instead of throwing when the stream ends early, e.g. for a truncated link.
+  if (!data) throw new Error("Incomplete deflate stream");
+  return new TextDecoder().decode(data);
+};
+
+export const getPlantUMLUrl = (code: string, serverUrl: string = PUBLIC_PLANTUML_SERVER): string => {
+  if (!code) return "";
+  try {
+    return `${serverUrl.replace(/\/+$/, '')}/svg/~1${encodePlantUML(code)}`;
+  } catch (e) {
+    console.error("Encoding error", e);
+    return "";
+  }
+};
+
+// --- RENDER BACKENDS ---
+
+/**
+ * 'local' renders in the browser, 'server' uses a self-hosted PlantUML server and 'public' uses plantuml.com.
+ */
+export type RenderBackend = 'local' | 'server' | 'public';
+
+export interface RenderSettings {
+  backend: RenderBackend;
+  /** Base URL of a self-hosted PlantUML server, e.g. 'http://localhost:8080'. */
+  serverUrl: string;
+}
+
+export const PUBLIC_PLANTUML_SERVER = 'https://plantuml.com/plantuml';
+
+const RENDER_SETTINGS_KEY = 'image2salt.renderSettings';
+
+export const getDefaultRenderSettings = (): RenderSettings => {
+  const serverUrl = process.env.PLANTUML_SERVER_URL || '';
+  return { backend: serverUrl ? 'server' : 'local', serverUrl };
+};
+
+export const loadRenderSettings = (): RenderSettings => {
+  const defaults = getDefaultRenderSettings();
+  try {
+    const stored = localStorage.getItem(RENDER_SETTINGS_KEY);
+    return stored ? { ...defaults, ...JSON.parse(stored) } : defaults;
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveRenderSettings = (settings: RenderSettings): void => {
+  try {
+    localStorage.setItem(RENDER_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save render settings", e);
+  }
+};
+
+/**
+ * Returns an image URL for the preview of the given code using the configured backend.
+ * The local backend returns an SVG data URL, so no diagram source leaves the browser.
+ */
+export const getPreviewUrl = (code: string, settings: RenderSettings): string => {
+  if (!code) return "";
+  switch (settings.backend) {
+    case 'local':
+      return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(renderSaltToSvg(code))}`;
+    case 'server':
+      return settings.serverUrl ? getPlantUMLUrl(code, settings.serverUrl) : "";
+    case 'public':
+      return getPlantUMLUrl(code);
+  }
+};
@@ -0,0 +1,139 @@
+import { PROJECTS_STORE, withStore } from "./idb";
+import type { ImageRegion } from "./imageService";
+
+export type VersionKind = 'convert' | 'refine' | 'edit';
+
+export interface ProjectVersion {
+  id: string;
+  /** Version this one was derived from; versions form a tree so any of them can be branched. */
+  parentId: string | null;
+  kind: VersionKind;
+  code: string;
+  model: string;
+  /** Refinement instruction that produced this version. */
+  instruction?: string;
+  /** Part of the image the version was generated from, when it was not the whole screenshot. */
+  region?: ImageRegion;
+  createdAt: number;
+}
+
+/** One exchange of the refinement chat. */
+export interface ChatTurn {
+  id: string;
+  instruction: string;
+  /** The model's note on what it changed, or the error message of a failed request. */
+  reply: string;
+  /** Code the model proposed; null while the request is running or when it failed. */
+  code: string | null;
+  status: 'pending' | 'accepted' | 'rejected' | 'failed';
+  region?: ImageRegion;
+  /** Version created when the proposal was accepted. */
+  versionId?: string;
+  createdAt: number;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  image: Blob;
+  imageName: string;
+  model: string;
+  fidelity: number;
+  versions: ProjectVersion[];
+  currentVersionId: string;
+  /** Refinement chat, sent back to the model as context with every refinement. */
+  conversation?: ChatTurn[];
+  /** Standing instructions included in every refinement. */
+  constraints?: string[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export const createId = (): string =>
+  typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const listProjects = async (): Promise<Project[]> => {
+  const projects = await withStore<Project[]>(PROJECTS_STORE, 'readonly', store => store.getAll());
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const getProject = (id: string): Promise<Project | undefined> =>
+  withStore<Project | undefined>(PROJECTS_STORE, 'readonly', store => store.get(id));
+
+export const saveProject = async (project: Project): Promise<void> => {
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.put(project));
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await withStore(PROJECTS_STORE, 'readwrite', store => store.delete(id));
+};
+
+/**
+ * Creates (without saving) a project whose first version is the initial conversion of the image.
+ */
+export const createProject = (
+  image: File,
+  code: string,
+  options: { model: string; fidelity: number; region?: ImageRegion }
+): Project => {
+  const now = Date.now();
+  const version: ProjectVersion = { id: createId(), parentId: null, kind: 'convert', code, model: options.model, region: options.region, createdAt: now };
+  return {
+    id: createId(),
+    name: image.name.replace(/\.[^.]+$/, '') || image.name,
+    image,
+    imageName: image.name,
+    model: options.model,
+    fidelity: options.fidelity,
+    versions: [version],
+    currentVersionId: version.id,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+/**
+ * Returns a copy of the project with a new version derived from the current one.
+ */
+export const addVersion = (
+  project: Project,
+  version: Omit<ProjectVersion, 'id' | 'parentId' | 'createdAt'> & { parentId?: string | null }
+): Project => {
+  const now = Date.now();
+  const created: ProjectVersion = {
+    ...version,
+    id: createId(),
+    parentId: version.parentId !== undefined ? version.parentId : project.currentVersionId,
+    createdAt: now,
+  };
+  return { ...project, versions: [...project.versions, created], currentVersionId: created.id, updatedAt: now };
+};
+
+export const getCurrentVersion = (project: Project): ProjectVersion | undefined =>
+  project.versions.find(v => v.id === project.currentVersionId);
+
+/**
+ * Copies a project into a new one that ends at the given version, keeping only its ancestry.
+ */
+export const branchProject = (project: Project, versionId: string): Project => {
+  const byId = new Map(project.versions.map(v => [v.id, v]));
+  const lineage: ProjectVersion[] = [];
+  for (let v = byId.get(versionId); v; v = v.parentId ? byId.get(v.parentId) : undefined) {
+    lineage.unshift(v);
+  }
+  const now = Date.now();
+  return {
+    ...project,
+    id: createId(),
+    name: `${project.name} (分岐)`,
+    versions: lineage,
+    currentVersionId: versionId,
+    createdAt: now,
+    updatedAt: now,
+  };
+};
+
+export const projectImageFile = (project: Project): File =>
+  new File([project.image], project.imageName, { type: project.image.type });
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildConvertPrompt, buildLabelRule, buildRefinePrompt, DEFAULT_PROMPT_PROFILE, parsePromptProfiles, PromptProfile,
+  resolveFidelityLevel, serializePromptProfiles,
+} from './promptProfiles';
+
+const profile = (overrides: Partial<PromptProfile> = {}): PromptProfile => ({
+  id: 'p1',
+  name: 'Team',
+  baseRules: 'BASE',
+  fidelityLevels: [
+    { value: 30, label: 'simple', rules: 'SIMPLE' },
+    { value: 100, label: 'detailed', rules: 'DETAILED' },
+  ],
+  refineTemplate: 'CODE {{currentSalt}} DO {{instruction}}',
+  outputLanguage: '',
+  ...overrides,
+});
+
+describe('resolveFidelityLevel', () => {
+  it('picks the first level at or above the value, else the highest', () => {
+    expect(resolveFidelityLevel(profile(), 10)?.label).toBe('simple');
+    expect(resolveFidelityLevel(profile(), 31)?.label).toBe('detailed');
+    expect(resolveFidelityLevel(profile({ fidelityLevels: [{ value: 50, label: 'only', rules: '' }] }), 90)?.label).toBe('only');
+  });
+});
+
+describe('prompt construction', () => {
+  it('adds the rules of the fidelity level to the base rules', () => {
+    expect(buildConvertPrompt(profile(), 20)).toBe('BASE\nSIMPLE');
+  });
+
+  it('substitutes code containing replacement patterns literally', () => {
+    expect(buildRefinePrompt(profile(), 'a $& b', 'right')).toBe('CODE a $& b DO right');
+  });
+
+  it("follows the profile's output language unless another label handling is picked", () => {
+    const english = profile({ outputLanguage: 'English' });
+    expect(buildLabelRule(english)).toContain('English');
+    expect(buildLabelRule(english, { mode: 'profile', targetLanguage: '' })).toContain('English');
+    expect(buildLabelRule(profile(), { mode: 'profile', targetLanguage: '' })).toBe('');
+    expect(buildLabelRule(english, { mode: 'verbatim', targetLanguage: '' })).not.toContain('English');
+    expect(buildLabelRule(english, { mode: 'translate', targetLanguage: '' })).toContain('English');
+    expect(buildLabelRule(english, { mode: 'translate', targetLanguage: 'French' })).toContain('French');
+    expect(buildLabelRule(english, { mode: 'placeholder', targetLanguage: '' })).toContain('Label 1');
+  });
+});
+
+describe('parsePromptProfiles', () => {
+  it('reads exported profiles back under new ids', () => {
+    const [imported] = parsePromptProfiles(serializePromptProfiles([profile()]));
+    expect(imported).toEqual({ ...profile(), id: expect.any(String) });
+    expect(imported.id).not.toBe('p1');
+  });
+
+  it('fills in fields missing from a bare array of profiles', () => {
+    const [imported] = parsePromptProfiles(JSON.stringify([{ baseRules: 'BASE' }]));
+    expect(imported.refineTemplate).toBe(DEFAULT_PROMPT_PROFILE.refineTemplate);
+    expect(imported.fidelityLevels).toEqual(DEFAULT_PROMPT_PROFILE.fidelityLevels);
+  });
+
+  it('rejects files that are not profiles', () => {
+    expect(() => parsePromptProfiles('{')).toThrow();
+    expect(() => parsePromptProfiles('{"format":"other","profiles":[]}')).toThrow();
+    expect(() => parsePromptProfiles('[null]')).toThrow('1件目のプロファイルに変換ルール (baseRules) がありません。');
+    expect(() => parsePromptProfiles('[{"baseRules":"BASE","refineTemplate":"no code"}]'))
+      .toThrow('1件目のプロファイルの修正テンプレートに {{currentSalt}} がありません。');
+  });
+});
@@ -0,0 +1,255 @@
+import { createId } from "./projectStore";
+import { LocalizedError } from "./i18n";
+
+/** One step of the fidelity selector and the rules added to the prompt at that step. */
+export interface FidelityLevel {
+  /** 1-100; a requested fidelity uses the first level whose value is at least as high. */
+  value: number;
+  label: string;
+  rules: string;
+}
+
+export interface PromptProfile {
+  id: string;
+  name: string;
+  /** Conversion rules sent with every image. */
+  baseRules: string;
+  fidelityLevels: FidelityLevel[];
+  /** Prompt for refinement and repair requests; {{currentSalt}} and {{instruction}} are substituted. */
+  refineTemplate: string;
+  /** Language for labels in the output, e.g. '英語'; empty keeps the text as it appears in the image. */
+  outputLanguage: string;
+}
+
+export const DEFAULT_PROFILE_ID = 'default';
+
+export const DEFAULT_PROMPT_PROFILE: PromptProfile = {
+  id: DEFAULT_PROFILE_ID,
+  name: '標準',
+  baseRules: `あなたはPlantUML、特にSalt（UIプロトタイプ用モジュール）のエキスパートです。
+
+提供されたUI画像を、PlantUML Saltの記法に変換してください。
+
+以下の要件を厳守してください:
+- 出力は必ずマークダウンのコードブロック ' \`\`\`plantuml ' で始めてください。
+- コード内は '@startsalt' で始まり、'@endsalt' で終わる形式にしてください。
+- **レイアウトの使い分けを徹底してください：**
+  - **表形式や枠組みとして境界線が必要な箇所には、罫線付きグリッド '{+ }' を使用してください。**
+  - **単なる位置合わせ（ラベルと入力フィールドの整列など）が目的で、視覚的に枠線が不要な場合は、罫線なしのグリッド '{ }' または {# } を使用し、無駄な罫線を出力しないでください。**
+- **垂直方向の整列：** ラベルと入力フィールドが並ぶ場合は、グリッド記法を用いて、列の開始位置が綺麗に揃うようにしてください。
+- 以下の主要なウィジェットを適切に使用してください:
+  - ボタン: '[ボタン名]'
+  - テキスト入力フィールド: '"テキスト"'
+  - チェックボックス: '[ ]' または '[X]'
+  - ラジオボタン: '( )' または '(X)'
+  - コンボボックス: '^ドロップダウン^'
+  - ツリー構造: '{T Tree構造 }'
+  - 水平セパレータ: '--'
+  - 垂直セパレータ: '||'
+  - タブ: '{/ タブ1 | タブ2 | タブ3 }'
+- 画像から読み取れるテキストを可能な限り正確に反映させてください。
+- 余計な説明やコメントは含めず、マークダウン形式のPlantUMLコードのみを出力してください。`,
+  fidelityLevels: [
+    { value: 10, label: 'シンプル', rules: "- 主要なコンポーネントのみを抽出したシンプルな構成にしてください。" },
+    { value: 50, label: '標準', rules: "- レイアウトと主要なテキストをバランスよく再現してください。" },
+    {
+      value: 100,
+      label: '詳細',
+      rules: [
+        "- **最重要事項：詳細再現モードです。オブジェクトの横方向の揃え（垂直アライメント）を完璧に再現してください。ラベルの長さが異なる場合でも、グリッド記法を用いて入力項目やボタンが縦に美しく整列するようにしてください。**",
+        "- **位置合わせのためのグリッドには罫線（+）を付けず、表として意味のある箇所にのみ罫線を使用してください。**",
+        "- 細部のスペーシングや、すべての細かいラベルまで極力再現してください。",
+      ].join("\n"),
+    },
+  ],
+  refineTemplate: `あなたはPlantUML Saltのエキスパートです。
+提供された元のUI画像と、現在のSaltコードを参考に、ユーザーの指示に従ってコードを修正してください。
+
+現在のSaltコード:
+{{currentSalt}}
+
+ユーザーの修正指示:
+{{instruction}}
+
+要件:
+- **位置合わせのためのグリッドには無駄な罫線を出力せず、視覚的に枠線が必要な箇所にのみ '{+ }' を使用してください。**
+- **項目の縦方向の揃えが崩れないようにグリッド記法を適切に維持・修正してください。**
+- 出力は修正後のコードのみをマークダウンのコードブロック ' \`\`\`plantuml ' で囲んで出力してください。`,
+  outputLanguage: '',
+};
+
+// --- PROMPT CONSTRUCTION ---
+
+/** Returns the level a fidelity value falls into: the first level at or above it, else the highest. */
+export const resolveFidelityLevel = (profile: PromptProfile, fidelity: number): FidelityLevel | undefined => {
+  const levels = [...profile.fidelityLevels].sort((a, b) => a.value - b.value);
+  return levels.find(level => fidelity <= level.value) || levels[levels.length - 1];
+};
+
+const outputLanguageRule = (language: string): string =>
+  language.trim() ? `\n- UI上のラベルやテキストは${language.trim()}で出力してください。` : '';
+
+/**
+ * Requirement line for the text read from the image. Without label settings, or in 'profile' mode,
+ * the profile's output language decides; a translation without a target language also falls back to it.
+ */
+export const buildLabelRule = (profile: PromptProfile | null, labels?: LabelSettings): string => {
+  const profileLanguage = profile?.outputLanguage || '';
+  switch (labels?.mode) {
+    case 'verbatim':
+      return '\n- UI上のラベルやテキストは翻訳や要約をせず、画像の表記のまま出力してください。';
+    case 'translate':
+      return outputLanguageRule(labels.targetLanguage || profileLanguage);
+    case 'placeholder':
+      return "\n- UI上のラベルやテキストは画像の文言を使わず、'Label 1'、'Button 1'、'Input 1' のように要素の種類と通し番号からなるプレースホルダーに置き換えてください。";
+    default:
+      return outputLanguageRule(profileLanguage);
+  }
+};
+
+export const buildConvertPrompt = (profile: PromptProfile, fidelity: number, labels?: LabelSettings): string => {
+  const level = resolveFidelityLevel(profile, fidelity);
+  return profile.baseRules + (level?.rules.trim() ? `\n${level.rules.trim()}` : '') + buildLabelRule(profile, labels);
+};
+
+export const buildRefinePrompt = (profile: PromptProfile, currentSalt: string, instruction: string, labels?: LabelSettings): string => {
+  // Substituted with a callback so that '$' in the code is not read as a replacement pattern.
+  const values: Record<string, string> = { currentSalt, instruction };
+  return profile.refineTemplate.replace(/\{\{(currentSalt|instruction)\}\}/g, (_, key: string) => values[key])
+    + buildLabelRule(profile, labels);
+};
+
+// --- LABEL HANDLING ---
+
+/** How text read from the image appears in the generated Salt. */
+export type LabelMode = 'profile' | 'verbatim' | 'translate' | 'placeholder';
+
+export interface LabelSettings {
+  mode: LabelMode;
+  /** Language to translate into, e.g. 'English'; empty uses the profile's output language. */
+  targetLanguage: string;
+}
+
+export const LABEL_MODES: { value: LabelMode; label: string }[] = [
+  { value: 'profile', label: 'プロファイルに従う' },
+  { value: 'verbatim', label: '画像のまま' },
+  { value: 'translate', label: '翻訳する' },
+  { value: 'placeholder', label: 'プレースホルダーに置換' },
+];
+
+// The profile's output language applies unless another handling is picked, as in the command-line tool.
+export const DEFAULT_LABEL_SETTINGS: LabelSettings = { mode: 'profile', targetLanguage: '' };
+
+const LABEL_SETTINGS_KEY = 'image2salt.labelSettings';
+
+export const loadLabelSettings = (): LabelSettings => {
+  try {
+    const stored = localStorage.getItem(LABEL_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_LABEL_SETTINGS, ...JSON.parse(stored) } : DEFAULT_LABEL_SETTINGS;
+  } catch {
+    return DEFAULT_LABEL_SETTINGS;
+  }
+};
+
+export const saveLabelSettings = (settings: LabelSettings): void => {
+  try {
+    localStorage.setItem(LABEL_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save label settings", e);
+  }
+};
+
+// --- STORAGE ---
+
+export interface PromptProfileSettings {
+  /** User profiles; the built-in default profile is not stored. */
+  profiles: PromptProfile[];
+  selectedId: string;
+}
+
+const PROMPT_PROFILES_KEY = 'image2salt.promptProfiles';
+
+export const loadPromptProfileSettings = (): PromptProfileSettings => {
+  const defaults: PromptProfileSettings = { profiles: [], selectedId: DEFAULT_PROFILE_ID };
+  try {
+    const stored = localStorage.getItem(PROMPT_PROFILES_KEY);
+    if (!stored) return defaults;
+    const parsed = JSON.parse(stored);
+    return {
+      profiles: Array.isArray(parsed.profiles) ? parsed.profiles.map(normalizeProfile) : [],
+      selectedId: parsed.selectedId || DEFAULT_PROFILE_ID,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const savePromptProfileSettings = (settings: PromptProfileSettings): void => {
+  try {
+    localStorage.setItem(PROMPT_PROFILES_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save prompt profiles", e);
+  }
+};
+
+/** All selectable profiles, the built-in one first. */
+export const listPromptProfiles = (settings: PromptProfileSettings): PromptProfile[] =>
+  [DEFAULT_PROMPT_PROFILE, ...settings.profiles];
+
+export const getSelectedPromptProfile = (settings: PromptProfileSettings): PromptProfile =>
+  settings.profiles.find(p => p.id === settings.selectedId) || DEFAULT_PROMPT_PROFILE;
+
+/** Copies a profile under a new id, e.g. to customize the built-in one. */
+export const duplicatePromptProfile = (profile: PromptProfile, name = `${profile.name} のコピー`): PromptProfile => ({
+  ...profile,
+  fidelityLevels: profile.fidelityLevels.map(level => ({ ...level })),
+  id: createId(),
+  name,
+});
+
+// --- IMPORT / EXPORT ---
+
+const PROFILE_FILE_FORMAT = 'image2salt-prompt-profiles';
+
+/** Fills in fields missing from older or hand-written profiles. */
+const normalizeProfile = (profile: Partial<PromptProfile>): PromptProfile => ({
+  id: profile.id || createId(),
+  name: profile.name || '無題のプロファイル',
+  baseRules: profile.baseRules ?? DEFAULT_PROMPT_PROFILE.baseRules,
+  fidelityLevels: Array.isArray(profile.fidelityLevels) && profile.fidelityLevels.length > 0
+    ? profile.fidelityLevels.map(level => ({ value: Number(level.value) || 100, label: String(level.label ?? ''), rules: String(level.rules ?? '') }))
+    : DEFAULT_PROMPT_PROFILE.fidelityLevels,
+  refineTemplate: profile.refineTemplate ?? DEFAULT_PROMPT_PROFILE.refineTemplate,
+  outputLanguage: profile.outputLanguage ?? '',
+});
+
+export const serializePromptProfiles = (profiles: PromptProfile[]): string =>
+  JSON.stringify({ format: PROFILE_FILE_FORMAT, version: 1, profiles }, null, 2);
+
+/**
+ * Reads profiles exported by serializePromptProfiles (or a bare array of profiles).
+ * Imported profiles get fresh ids so they never overwrite existing ones.
+ */
+export const parsePromptProfiles = (json: string): PromptProfile[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    throw new Error("プロファイルファイルがJSONとして読み込めませんでした。");
+  }
+  const file = parsed as { format?: unknown; profiles?: unknown } | null;
+  const profiles: unknown = Array.isArray(parsed) ? parsed : file?.format === PROFILE_FILE_FORMAT ? file.profiles : null;
+  if (!Array.isArray(profiles) || profiles.length === 0) {
+    throw new Error("プロファイルが含まれていないか、形式が正しくありません。");
+  }
+  return profiles.map((entry: unknown, index: number) => {
+    const profile = entry as Partial<PromptProfile> | null;
+    if (typeof profile !== 'object' || profile === null || typeof profile.baseRules !== 'string') {
+      throw new LocalizedError('{index}件目のプロファイルに変換ルール (baseRules) がありません。', { index: index + 1 });
+    }
+    if (profile.refineTemplate !== undefined && !/\{\{currentSalt\}\}/.test(profile.refineTemplate)) {
+      throw new LocalizedError('{index}件目のプロファイルの修正テンプレートに {{currentSalt}} がありません。', { index: index + 1 });
+    }
+    return { ...normalizeProfile(profile), id: createId() };
+  });
+};
@@ -0,0 +1,186 @@
+import { LocalizedError, MessageParams } from "../i18n";
+
+export type LLMErrorKind =
+  | 'missing-key'
+  | 'auth'
+  | 'quota'
+  | 'safety'
+  | 'timeout'
+  | 'empty-response'
+  | 'network'
+  | 'server'
+  | 'bad-request'
+  | 'missing-recording'
+  | 'unknown';
+
+/** Heading and suggested remedy shown with each kind of failure. */
+export const LLM_ERROR_INFO: Record<LLMErrorKind, { title: string; hint: string; retryable: boolean }> = {
+  'missing-key': {
+    title: '接続設定がありません',
+    hint: '.env.local の GEMINI_API_KEY、または変換オプションのプロバイダー設定 (URL・APIキー) を確認してください。',
+    retryable: false,
+  },
+  auth: {
+    title: '認証に失敗しました',
+    hint: 'APIキーが正しいか、選択したモデルを利用する権限があるかを確認してください。',
+    retryable: false,
+  },
+  quota: {
+    title: '利用上限に達しました',
+    hint: 'しばらく待ってから再試行するか、プロバイダー設定の「1分あたりのリクエスト数」を下げてください。',
+    retryable: true,
+  },
+  safety: {
+    title: '安全フィルターでブロックされました',
+    hint: '画像に個人情報などが含まれていないか確認し、該当部分を隠すか範囲選択で除外してから再試行してください。',
+    retryable: false,
+  },
+  timeout: {
+    title: '応答がタイムアウトしました',
+    hint: 'ネットワーク状況を確認するか、より高速なモデルや低い再現レベルで再試行してください。',
+    retryable: true,
+  },
+  'empty-response': {
+    title: '応答が空でした',
+    hint: '再試行するか、別のモデルを選択してください。',
+    retryable: true,
+  },
+  network: {
+    title: '接続できませんでした',
+    hint: 'インターネット接続と、プロバイダーのURL・CORS設定を確認してください。',
+    retryable: true,
+  },
+  server: {
+    title: 'サーバーでエラーが発生しました',
+    hint: 'プロバイダー側の一時的な障害の可能性があります。時間をおいて再試行してください。',
+    retryable: true,
+  },
+  'bad-request': {
+    title: 'リクエストが受け付けられませんでした',
+    hint: 'モデル名が正しいか、モデルが画像入力に対応しているかを確認してください。',
+    retryable: false,
+  },
+  'missing-recording': {
+    title: '記録された応答がありません',
+    hint: 'プロンプトかモデルが記録時と異なります。--record で記録し直してください。',
+    retryable: false,
+  },
+  unknown: {
+    title: 'エラーが発生しました',
+    hint: '詳細はブラウザのコンソールを確認してください。',
+    retryable: false,
+  },
+};
+
+/**
+ * A failed LLM request, classified so that callers can decide whether to retry and what to tell the user.
+ */
+export class LLMError extends LocalizedError {
+  readonly kind: LLMErrorKind;
+  readonly status?: number;
+  /** Delay requested by the server (Retry-After) before the next attempt. */
+  readonly retryAfterMs?: number;
+
+  /** A {provider} placeholder in the message is filled with the provider label from params. */
+  constructor(
+    kind: LLMErrorKind,
+    messageKey: string,
+    options: { params?: MessageParams; status?: number; retryAfterMs?: number; cause?: unknown } = {}
+  ) {
+    super(messageKey, options.params, { cause: options.cause });
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  get retryable(): boolean {
+    return LLM_ERROR_INFO[this.kind].retryable;
+  }
+
+  get hint(): string {
+    return LLM_ERROR_INFO[this.kind].hint;
+  }
+}
+
+const kindForStatus = (status: number): LLMErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status === 504) return 'timeout';
+  if (status >= 500) return 'server';
+  if (status === 400 || status === 404 || status === 422) return 'bad-request';
+  return 'unknown';
+};
+
+const STATUS_MESSAGES: Partial<Record<LLMErrorKind, string>> = {
+  auth: 'APIキーが拒否されました',
+  quota: 'リクエストが多すぎるか、利用枠を使い切りました',
+  timeout: '応答がタイムアウトしました',
+  server: 'サーバーでエラーが発生しました',
+  'bad-request': 'リクエストが不正です',
+};
+
+export const errorForStatus = (status: number, providerLabel: string, options: { retryAfterMs?: number; cause?: unknown } = {}): LLMError => {
+  const kind = kindForStatus(status);
+  return new LLMError(kind, `{provider}: ${STATUS_MESSAGES[kind] || '通信に失敗しました'} (HTTP {status})。`, {
+    params: { provider: providerLabel, status }, status, ...options,
+  });
+};
+
+/** Reads Retry-After, given either in seconds or as an HTTP date. */
+const parseRetryAfter = (value: string | null): number | undefined => {
+  if (!value) return undefined;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return seconds * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+};
+
+/**
+ * Builds the error for a non-2xx response of a fetch-based provider.
+ */
+export const httpError = async (response: Response, providerLabel: string): Promise<LLMError> => {
+  const body = await response.text().catch(() => '');
+  return errorForStatus(response.status, providerLabel, {
+    retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+    cause: body,
+  });
+};
+
+export const safetyError = (providerLabel: string, reason: string): LLMError =>
+  new LLMError('safety', '{provider}: 安全フィルターにより応答がブロックされました ({reason})。', { params: { provider: providerLabel, reason } });
+
+const networkError = (providerLabel: string, cause: unknown): LLMError =>
+  new LLMError('network', '{provider}: サーバーに接続できませんでした。', { params: { provider: providerLabel }, cause });
+
+/**
+ * The TypeError fetch rejects with when the server cannot be reached ('Failed to fetch' in Chrome,
+ * 'NetworkError when attempting to fetch resource.' in Firefox, 'Load failed' in Safari, 'fetch failed'
+ * in Node). Other TypeErrors are bugs and must not be retried as connection problems.
+ */
+const isFetchFailure = (error: unknown): boolean =>
+  error instanceof TypeError && /fetch|network|load failed/i.test(error.message);
+
+/**
+ * fetch() for the fetch-based providers: a request that never reaches the server becomes a network
+ * LLMError, while aborts and everything else are rethrown as they are.
+ */
+export const fetchOrThrow = async (url: string, init: RequestInit | undefined, providerLabel: string): Promise<Response> => {
+  try {
+    return await fetch(url, init);
+  } catch (error) {
+    throw error instanceof TypeError ? networkError(providerLabel, error) : error;
+  }
+};
+
+/**
+ * Classifies anything a provider threw. SDK errors carrying an HTTP status are mapped like fetch
+ * responses, and a failed fetch inside an SDK means the server could not be reached at all.
+ */
+export const toLLMError = (error: unknown, providerLabel: string): LLMError => {
+  if (error instanceof LLMError) return error;
+  const status = (error as { status?: unknown })?.status;
+  if (typeof status === 'number' && status >= 400) return errorForStatus(status, providerLabel, { cause: error });
+  if (isFetchFailure(error)) return networkError(providerLabel, error);
+  return new LLMError('unknown', '{provider}: 通信に失敗しました。', { params: { provider: providerLabel }, cause: error });
+};
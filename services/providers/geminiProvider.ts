@@ -0,0 +1,78 @@
+import { GoogleGenAI } from "@google/genai";
+import { safetyError, LLMError } from "./errors";
+import { GenerateRequest, LLMProvider, ModelOption, TokenUsage } from "./types";
+
+const GEMINI_MODELS: ModelOption[] = [
+  { label: 'Gemini 3.0 Flash Preview', value: 'gemini-3-flash-preview' },
+  { label: 'Gemini 3.0 Pro Preview', value: 'gemini-3-pro-preview' },
+];
+
+const toUsage = (metadata: { promptTokenCount?: number; candidatesTokenCount?: number } | undefined): TokenUsage | null =>
+  metadata ? { inputTokens: metadata.promptTokenCount || 0, outputTokens: metadata.candidatesTokenCount || 0 } : null;
+
+/** Finish reasons meaning the answer was withheld rather than completed. */
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'RECITATION'];
+
+const blockReason = (response: { promptFeedback?: { blockReason?: string }; candidates?: { finishReason?: string }[] }): string | undefined => {
+  const finishReason = response.candidates?.[0]?.finishReason;
+  return response.promptFeedback?.blockReason || (finishReason && BLOCKED_FINISH_REASONS.includes(finishReason) ? finishReason : undefined);
+};
+
+export const createGeminiProvider = (): LLMProvider => ({
+  id: 'gemini',
+  label: 'Gemini',
+
+  assertConfigured: () => {
+    if (!process.env.API_KEY) {
+      throw new LLMError('missing-key', "APIキーが設定されていません。");
+    }
+  },
+
+  listModels: async () => GEMINI_MODELS,
+
+  generate: async ({ model, prompt, image, signal, onText, onUsage }: GenerateRequest) => {
+    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+    const imagePart = {
+      inlineData: {
+        data: image.base64,
+        mimeType: image.mimeType,
+      },
+    };
+
+    const textPart = {
+      text: prompt,
+    };
+
+    if (onText) {
+      const stream = await ai.models.generateContentStream({
+        model: model,
+        contents: { parts: [imagePart, textPart] },
+        config: { abortSignal: signal },
+      });
+      let text = "";
+      let usage: TokenUsage | null = null;
+      for await (const chunk of stream) {
+        const blocked = blockReason(chunk);
+        if (blocked) throw safetyError('Gemini', blocked);
+        text += chunk.text || "";
+        usage = toUsage(chunk.usageMetadata) || usage;
+        onText(text);
+      }
+      if (usage) onUsage?.(usage);
+      return text.trim();
+    }
+
+    const response = await ai.models.generateContent({
+      model: model,
+      contents: { parts: [imagePart, textPart] },
+      config: { abortSignal: signal },
+    });
+
+    const usage = toUsage(response.usageMetadata);
+    if (usage) onUsage?.(usage);
+    const blocked = blockReason(response);
+    if (blocked) throw safetyError('Gemini', blocked);
+    return (response.text || "").trim();
+  },
+});
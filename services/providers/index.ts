@@ -0,0 +1,81 @@
+import { createGeminiProvider } from "./geminiProvider";
+import { createMockProvider } from "./mockProvider";
+import { createOllamaProvider } from "./ollamaProvider";
+import { createOpenAIProvider } from "./openaiProvider";
+import { createRecordingProvider, createReplayProvider, recordingKey, RecordedResponse, ResponseRecording } from "./replayProvider";
+import { LLMProvider, ProviderId } from "./types";
+
+export * from "./types";
+export * from "./errors";
+export { createGeminiProvider, createMockProvider, createOllamaProvider, createOpenAIProvider };
+export { createRecordingProvider, createReplayProvider, recordingKey };
+export type { RecordedResponse, ResponseRecording };
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  openai: { baseUrl: string; apiKey: string };
+  ollama: { baseUrl: string };
+  /** Client-side limit on requests started per minute, shared by all conversions; 0 disables it. */
+  requestsPerMinute: number;
+}
+
+export const DEFAULT_REQUESTS_PER_MINUTE = 10;
+
+export const PROVIDER_OPTIONS: { value: ProviderId; label: string }[] = [
+  { value: 'gemini', label: 'Gemini' },
+  { value: 'openai', label: 'OpenAI互換API' },
+  { value: 'ollama', label: 'Ollama (ローカル)' },
+  { value: 'mock', label: 'モック (APIキー不要)' },
+];
+
+const PROVIDER_SETTINGS_KEY = 'image2salt.providerSettings';
+
+export const getDefaultProviderSettings = (): ProviderSettings => ({
+  provider: 'gemini',
+  openai: { baseUrl: process.env.OPENAI_BASE_URL || 'https://api.openai.com/v1', apiKey: process.env.OPENAI_API_KEY || '' },
+  ollama: { baseUrl: process.env.OLLAMA_BASE_URL || 'http://localhost:11434' },
+  requestsPerMinute: DEFAULT_REQUESTS_PER_MINUTE,
+});
+
+export const loadProviderSettings = (): ProviderSettings => {
+  const defaults = getDefaultProviderSettings();
+  try {
+    const stored = localStorage.getItem(PROVIDER_SETTINGS_KEY);
+    if (!stored) return defaults;
+    const parsed = JSON.parse(stored);
+    return {
+      provider: parsed.provider || defaults.provider,
+      openai: { ...defaults.openai, ...parsed.openai },
+      ollama: { ...defaults.ollama, ...parsed.ollama },
+      requestsPerMinute: typeof parsed.requestsPerMinute === 'number' ? parsed.requestsPerMinute : defaults.requestsPerMinute,
+    };
+  } catch {
+    return defaults;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings): void => {
+  try {
+    localStorage.setItem(PROVIDER_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save provider settings", e);
+  }
+};
+
+/** Base URL of the server the provider talks to; empty for Gemini and the mock, whose endpoint is fixed. */
+export const getProviderEndpoint = (settings: ProviderSettings): string => {
+  switch (settings.provider) {
+    case 'openai': return settings.openai.baseUrl.replace(/\/+$/, '');
+    case 'ollama': return settings.ollama.baseUrl.replace(/\/+$/, '');
+    default: return '';
+  }
+};
+
+export const createProvider = (settings: ProviderSettings): LLMProvider => {
+  switch (settings.provider) {
+    case 'gemini': return createGeminiProvider();
+    case 'openai': return createOpenAIProvider(settings.openai);
+    case 'ollama': return createOllamaProvider(settings.ollama);
+    case 'mock': return createMockProvider();
+  }
+};
@@ -0,0 +1,89 @@
+import { GenerateRequest, LLMProvider } from "./types";
+
+const MOCK_SALT = `\`\`\`plantuml
+@startsalt
+{
+  {/ <b>ログイン | 新規登録 }
+  {
+    ユーザー名 | "user@example.com"
+    パスワード | "********        "
+    . | [X] ログイン状態を保持する
+  }
+  --
+  {
+    [キャンセル] | [ ログイン ]
+  }
+}
+@endsalt
+\`\`\``;
+
+const MOCK_LABELS = `\`\`\`json
+["ログイン", "新規登録", "ユーザー名", "パスワード", "ログイン状態を保持する", "パスワードを忘れた方", "キャンセル"]
+\`\`\``;
+
+/** Answers a region refinement by replacing everything between @startsalt and @endsalt with itself. */
+const echoRegion = (currentSalt: string): string => {
+  const lines = currentSalt.split('\n');
+  const start = lines.findIndex(line => line.trim().startsWith('@startsalt')) + 2;
+  const endIndex = lines.findIndex(line => line.trim().startsWith('@endsalt'));
+  const end = endIndex < 0 ? lines.length : endIndex;
+  return ['```plantuml', `@@ ${start}-${end}`, ...lines.slice(start - 1, end), '```'].join('\n');
+};
+
+/** Answers an element location request by stacking the listed elements (E1, E2, ...) down the image. */
+const stackElements = (prompt: string): string => {
+  const ids = prompt.match(/^E\d+(?=:)/gm) || [];
+  const height = 1 / Math.max(ids.length, 1);
+  const boxes = ids.map((id, i) => ({ id, x: 0.1, y: i * height, width: 0.8, height }));
+  return ['```json', JSON.stringify(boxes), '```'].join('\n');
+};
+
+/**
+ * Offline provider that answers with canned Salt, for trying the UI without an API key.
+ */
+export const createMockProvider = (delayMs = 800): LLMProvider => ({
+  id: 'mock',
+  label: 'モック (APIキー不要)',
+
+  assertConfigured: () => {},
+
+  listModels: async () => [{ label: 'Mock', value: 'mock' }],
+
+  generate: async ({ task, prompt, currentSalt, signal, onText, onUsage }: GenerateRequest) => {
+    const wait = async (ms: number) => {
+      let onAbort = () => {};
+      try {
+        await new Promise<void>((resolve, reject) => {
+          const timer = setTimeout(resolve, ms);
+          onAbort = () => { clearTimeout(timer); reject(new DOMException('Aborted', 'AbortError')); };
+          signal?.addEventListener('abort', onAbort, { once: true });
+        });
+      } finally {
+        signal?.removeEventListener('abort', onAbort);
+      }
+    };
+
+    // Refinements echo the current code so the refine flow can be exercised end to end.
+    const answer = task === 'extract-labels' ? MOCK_LABELS
+      : task === 'locate-elements' ? stackElements(prompt)
+      : task === 'convert' || !currentSalt ? MOCK_SALT
+      : task === 'refine-region' ? echoRegion(currentSalt)
+      : currentSalt;
+    // Rough counts (about four characters per token) so usage displays can be tried out too.
+    const reportUsage = () => onUsage?.({ inputTokens: Math.ceil(prompt.length / 4), outputTokens: Math.ceil(answer.length / 4) });
+    if (!onText) {
+      await wait(delayMs);
+      reportUsage();
+      return answer;
+    }
+
+    // Stream line by line to mimic token-by-token output.
+    const lines = answer.split('\n');
+    for (let i = 1; i <= lines.length; i++) {
+      await wait(delayMs / lines.length);
+      onText(lines.slice(0, i).join('\n'));
+    }
+    reportUsage();
+    return answer;
+  },
+});
@@ -0,0 +1,64 @@
+import { readLines } from "./streaming";
+import { fetchOrThrow, httpError, LLMError } from "./errors";
+import { GenerateRequest, LLMProvider, TokenUsage } from "./types";
+
+export interface OllamaProviderConfig {
+  /** Server root, e.g. 'http://localhost:11434'. */
+  baseUrl: string;
+}
+
+/** The final message of a chat response carries the prompt and generated token counts. */
+const toUsage = (body: { prompt_eval_count?: number; eval_count?: number }): TokenUsage =>
+  ({ inputTokens: body.prompt_eval_count || 0, outputTokens: body.eval_count || 0 });
+
+/**
+ * Provider for a local Ollama-style server using its native chat API with a vision model.
+ */
+export const createOllamaProvider = ({ baseUrl }: OllamaProviderConfig): LLMProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  return {
+    id: 'ollama',
+    label: 'Ollama (ローカル)',
+
+    assertConfigured: () => {
+      if (!root) throw new LLMError('missing-key', "OllamaサーバーのURLが設定されていません。");
+    },
+
+    listModels: async () => {
+      const response = await fetchOrThrow(`${root}/api/tags`, undefined, 'Ollama');
+      if (!response.ok) throw await httpError(response, 'Ollama');
+      const body = await response.json();
+      return (body.models || []).map((m: { name: string }) => ({ label: m.name, value: m.name }));
+    },
+
+    generate: async ({ model, prompt, image, signal, onText, onUsage }: GenerateRequest) => {
+      const response = await fetchOrThrow(`${root}/api/chat`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        signal,
+        body: JSON.stringify({
+          model,
+          stream: !!onText,
+          messages: [{ role: 'user', content: prompt, images: [image.base64] }],
+        }),
+      }, 'Ollama');
+      if (!response.ok) throw await httpError(response, 'Ollama');
+
+      if (onText) {
+        let text = "";
+        await readLines(response, line => {
+          const chunk = JSON.parse(line);
+          text += chunk.message?.content || "";
+          if (chunk.done) onUsage?.(toUsage(chunk));
+          onText(text);
+        });
+        return text.trim();
+      }
+
+      const body = await response.json();
+      onUsage?.(toUsage(body));
+      return (body.message?.content || "").trim();
+    },
+  };
+};
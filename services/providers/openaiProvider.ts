@@ -0,0 +1,78 @@
+import { readLines } from "./streaming";
+import { fetchOrThrow, httpError, safetyError, LLMError } from "./errors";
+import { GenerateRequest, LLMProvider, TokenUsage } from "./types";
+
+export interface OpenAIProviderConfig {
+  /** Base URL including the version path, e.g. 'https://api.openai.com/v1'. */
+  baseUrl: string;
+  apiKey: string;
+}
+
+const toUsage = (usage: { prompt_tokens?: number; completion_tokens?: number }): TokenUsage =>
+  ({ inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 });
+
+/**
+ * Provider for any server implementing the OpenAI chat completions API with image input.
+ */
+export const createOpenAIProvider = ({ baseUrl, apiKey }: OpenAIProviderConfig): LLMProvider => {
+  const root = baseUrl.replace(/\/+$/, '');
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (apiKey) headers.Authorization = `Bearer ${apiKey}`;
+
+  return {
+    id: 'openai',
+    label: 'OpenAI互換API',
+
+    assertConfigured: () => {
+      if (!root) throw new LLMError('missing-key', "OpenAI互換APIのURLが設定されていません。");
+    },
+
+    listModels: async () => {
+      const response = await fetchOrThrow(`${root}/models`, { headers }, 'OpenAI互換API');
+      if (!response.ok) throw await httpError(response, 'OpenAI互換API');
+      const body = await response.json();
+      return (body.data || []).map((m: { id: string }) => ({ label: m.id, value: m.id }));
+    },
+
+    generate: async ({ model, prompt, image, signal, onText, onUsage }: GenerateRequest) => {
+      const response = await fetchOrThrow(`${root}/chat/completions`, {
+        method: 'POST',
+        headers,
+        signal,
+        body: JSON.stringify({
+          model,
+          stream: !!onText,
+          // Asks for a final chunk with token counts; servers that do not know the option ignore it.
+          ...(onText ? { stream_options: { include_usage: true } } : {}),
+          messages: [{
+            role: 'user',
+            content: [
+              { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.base64}` } },
+              { type: 'text', text: prompt },
+            ],
+          }],
+        }),
+      }, 'OpenAI互換API');
+      if (!response.ok) throw await httpError(response, 'OpenAI互換API');
+
+      if (onText) {
+        let text = "";
+        await readLines(response, line => {
+          const data = line.replace(/^data:\s*/, '');
+          if (!line.startsWith('data:') || data === '[DONE]') return;
+          const chunk = JSON.parse(data);
+          if (chunk.choices?.[0]?.finish_reason === 'content_filter') throw safetyError('OpenAI互換API', 'content_filter');
+          text += chunk.choices?.[0]?.delta?.content || "";
+          if (chunk.usage) onUsage?.(toUsage(chunk.usage));
+          onText(text);
+        });
+        return text.trim();
+      }
+
+      const body = await response.json();
+      if (body.usage) onUsage?.(toUsage(body.usage));
+      if (body.choices?.[0]?.finish_reason === 'content_filter') throw safetyError('OpenAI互換API', 'content_filter');
+      return (body.choices?.[0]?.message?.content || "").trim();
+    },
+  };
+};
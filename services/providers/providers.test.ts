@@ -0,0 +1,90 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { createOllamaProvider, createOpenAIProvider, LLMError, toLLMError } from '.';
+
+const image = { base64: 'AAAA', mimeType: 'image/png' };
+
+const stubFetch = (respond: (url: string, init?: RequestInit) => Response | Promise<Response>) => {
+  const fetchMock = vi.fn(async (url: string, init?: RequestInit) => respond(url, init));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+};
+
+const rejection = async (promise: Promise<unknown>): Promise<LLMError> => {
+  const error = await promise.then(() => null, (e: unknown) => e);
+  expect(error).toBeInstanceOf(LLMError);
+  return error as LLMError;
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('OpenAI-compatible provider', () => {
+  const provider = createOpenAIProvider({ baseUrl: 'https://api.example.com/v1/', apiKey: 'secret' });
+
+  it('sends the image and prompt and reports token usage', async () => {
+    const fetchMock = stubFetch(() => Response.json({
+      choices: [{ message: { content: ' @startsalt\n@endsalt \n' } }],
+      usage: { prompt_tokens: 10, completion_tokens: 5 },
+    }));
+    const onUsage = vi.fn();
+    const text = await provider.generate({ task: 'convert', model: 'vision-1', prompt: 'convert', image, onUsage });
+    expect(text).toBe('@startsalt\n@endsalt');
+    expect(onUsage).toHaveBeenCalledWith({ inputTokens: 10, outputTokens: 5 });
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://api.example.com/v1/chat/completions');
+    expect((init!.headers as Record<string, string>).Authorization).toBe('Bearer secret');
+    expect(JSON.parse(init!.body as string).messages[0].content[0].image_url.url).toBe('data:image/png;base64,AAAA');
+  });
+
+  it('streams the text as it arrives', async () => {
+    const chunks = ['Hel', 'lo'].map(content => `data: ${JSON.stringify({ choices: [{ delta: { content } }] })}\n\n`);
+    stubFetch(() => new Response([...chunks, 'data: [DONE]\n\n'].join('')));
+    const seen: string[] = [];
+    const text = await provider.generate({ task: 'convert', model: 'vision-1', prompt: 'convert', image, onText: partial => seen.push(partial) });
+    expect(text).toBe('Hello');
+    expect(seen).toEqual(['Hel', 'Hello']);
+  });
+
+  it('classifies HTTP errors and keeps the Retry-After delay', async () => {
+    stubFetch(() => new Response('slow down', { status: 429, headers: { 'Retry-After': '3' } }));
+    const error = await rejection(provider.generate({ task: 'convert', model: 'vision-1', prompt: 'convert', image }));
+    expect(error).toMatchObject({ kind: 'quota', status: 429, retryAfterMs: 3000, retryable: true });
+  });
+
+  it('reports a content filter stop as a safety error', async () => {
+    stubFetch(() => Response.json({ choices: [{ finish_reason: 'content_filter', message: { content: '' } }] }));
+    const error = await rejection(provider.generate({ task: 'convert', model: 'vision-1', prompt: 'convert', image }));
+    expect(error.kind).toBe('safety');
+  });
+
+  it('reports an unreachable server as a network error, also when listing models', async () => {
+    stubFetch(() => { throw new TypeError('fetch failed'); });
+    expect((await rejection(provider.generate({ task: 'convert', model: 'vision-1', prompt: 'convert', image }))).kind).toBe('network');
+    expect((await rejection(provider.listModels())).kind).toBe('network');
+  });
+
+  it('classifies a rejected model list request', async () => {
+    stubFetch(() => new Response('', { status: 401 }));
+    expect((await rejection(provider.listModels())).kind).toBe('auth');
+  });
+});
+
+describe('Ollama provider', () => {
+  it('lists the installed models', async () => {
+    stubFetch(url => {
+      expect(url).toBe('http://localhost:11434/api/tags');
+      return Response.json({ models: [{ name: 'llava:13b' }] });
+    });
+    expect(await createOllamaProvider({ baseUrl: 'http://localhost:11434' }).listModels()).toEqual([{ label: 'llava:13b', value: 'llava:13b' }]);
+  });
+});
+
+describe('toLLMError', () => {
+  it('maps SDK errors by their HTTP status and leaves other errors unknown', () => {
+    expect(toLLMError(Object.assign(new Error('denied'), { status: 403 }), 'Gemini').kind).toBe('auth');
+    expect(toLLMError(Object.assign(new Error('boom'), { status: 503 }), 'Gemini').kind).toBe('server');
+    expect(toLLMError(new TypeError('Failed to fetch'), 'Gemini').kind).toBe('network');
+    expect(toLLMError(new TypeError('x is not a function'), 'Gemini').kind).toBe('unknown');
+  });
+});
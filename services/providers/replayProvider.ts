@@ -0,0 +1,65 @@
+import { LLMError } from "./errors";
+import { GenerateRequest, LLMProvider, TokenUsage } from "./types";
+
+/** One recorded model answer. */
+export interface RecordedResponse {
+  text: string;
+  usage?: TokenUsage;
+}
+
+/** Recorded answers keyed by recordingKey(), as stored in a recording file. */
+export type ResponseRecording = Record<string, RecordedResponse>;
+
+/** 32-bit FNV-1a, enough to tell prompts and images apart; not a cryptographic hash. */
+const fnv1a = (text: string): string => {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+};
+
+/**
+ * Identifies a request by everything that shapes the answer. Any change to the prompt gives a new
+ * key, so a recording only answers the prompt versions it was made with.
+ */
+export const recordingKey = (request: Pick<GenerateRequest, 'task' | 'model' | 'prompt' | 'image'>): string =>
+  [request.task, request.model, fnv1a(request.prompt), fnv1a(request.image.base64)].join(':');
+
+/** Passes requests through to another provider and stores each answer in the recording. */
+export const createRecordingProvider = (provider: LLMProvider, recording: ResponseRecording): LLMProvider => ({
+  ...provider,
+  generate: async (request: GenerateRequest) => {
+    let usage: TokenUsage | undefined;
+    const text = await provider.generate({
+      ...request,
+      onUsage: counts => {
+        usage = counts;
+        request.onUsage?.(counts);
+      },
+    });
+    recording[recordingKey(request)] = usage ? { text, usage } : { text };
+    return text;
+  },
+});
+
+/**
+ * Answers requests from a recording without contacting the backend, so evaluations can be repeated
+ * offline and give the same results every time. A request that was not recorded fails.
+ */
+export const createReplayProvider = (provider: LLMProvider, recording: ResponseRecording): LLMProvider => ({
+  ...provider,
+  assertConfigured: () => {},
+  generate: async (request: GenerateRequest) => {
+    const recorded = recording[recordingKey(request)];
+    if (!recorded) {
+      throw new LLMError('missing-recording', '{provider}: この入力に対する応答は記録されていません ({task})。', {
+        params: { provider: provider.label, task: request.task },
+      });
+    }
+    request.onText?.(recorded.text);
+    if (recorded.usage) request.onUsage?.(recorded.usage);
+    return recorded.text;
+  },
+});
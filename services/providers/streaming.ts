@@ -0,0 +1,18 @@
+/**
+ * Reads a streamed HTTP response body line by line (server-sent events and NDJSON are both line based).
+ */
+export const readLines = async (response: Response, onLine: (line: string) => void): Promise<void> => {
+  if (!response.body) throw new Error("ストリーミング応答を読み取れません。");
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    lines.forEach(line => { if (line.trim()) onLine(line.trim()); });
+  }
+  if (buffer.trim()) onLine(buffer.trim());
+};
@@ -0,0 +1,41 @@
+export type ProviderId = 'gemini' | 'openai' | 'ollama' | 'mock';
+
+export interface ModelOption {
+  value: string;
+  label: string;
+}
+
+/** Token counts reported by the backend for one request. */
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface GenerateRequest {
+  /** What the prompt asks for; the mock provider uses it to pick a canned answer. */
+  task: 'convert' | 'refine' | 'refine-region' | 'repair' | 'extract-labels' | 'locate-elements';
+  model: string;
+  prompt: string;
+  image: { base64: string; mimeType: string };
+  /** Code being refined or repaired, when the task is not 'convert'. */
+  currentSalt?: string;
+  /** Aborts the underlying HTTP request. */
+  signal?: AbortSignal;
+  /** When set, the response is streamed and this receives the accumulated text after every chunk. */
+  onText?: (text: string) => void;
+  /** Receives the token counts when the backend reports them. */
+  onUsage?: (usage: TokenUsage) => void;
+}
+
+/**
+ * A multimodal LLM backend. Prompt construction and Salt validation live in geminiService.ts,
+ * so a provider only has to turn one image + prompt into text.
+ */
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  /** Throws a user-facing error if required settings (API key, URL) are missing. */
+  assertConfigured(): void;
+  listModels(): Promise<ModelOption[]>;
+  generate(request: GenerateRequest): Promise<string>;
+}
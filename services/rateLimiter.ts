@@ -0,0 +1,41 @@
+export interface RateLimiter {
+  /** Waits until another request may start within the limit, then counts it. */
+  acquire(signal?: AbortSignal): Promise<void>;
+  /** Changes the limit; 0 or less disables limiting. */
+  setLimit(requestsPerMinute: number): void;
+}
+
+const WINDOW_MS = 60_000;
+
+const abortError = (signal: AbortSignal) => signal.reason ?? new DOMException('Aborted', 'AbortError');
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError(signal));
+  const onAbort = () => { clearTimeout(timer); reject(abortError(signal!)); };
+  const timer = setTimeout(() => { signal?.removeEventListener('abort', onAbort); resolve(); }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Sliding-window limiter: at most requestsPerMinute requests start in any 60 seconds.
+ */
+export const createRateLimiter = (requestsPerMinute: number): RateLimiter => {
+  let limit = requestsPerMinute;
+  const starts: number[] = [];
+
+  return {
+    acquire: async (signal) => {
+      while (true) {
+        if (signal?.aborted) throw abortError(signal);
+        const now = Date.now();
+        while (starts.length > 0 && starts[0] <= now - WINDOW_MS) starts.shift();
+        if (limit <= 0 || starts.length < limit) {
+          starts.push(now);
+          return;
+        }
+        await sleep(starts[0] + WINDOW_MS - now, signal);
+      }
+    },
+    setLimit: (requestsPerMinute) => { limit = requestsPerMinute; },
+  };
+};
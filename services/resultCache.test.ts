@@ -0,0 +1,31 @@
+import { describe, expect, it } from 'vitest';
+import { resultCacheKey, ResultCacheKeyInput } from './resultCache';
+
+const input = (overrides: Partial<ResultCacheKeyInput> = {}): ResultCacheKeyInput => ({
+  image: new Blob(['png bytes']),
+  provider: 'openai',
+  endpoint: 'https://api.example.com/v1',
+  model: 'vision-1',
+  prompt: 'convert',
+  maxRepairRounds: 2,
+  ...overrides,
+});
+
+describe('resultCacheKey', () => {
+  it('gives the same key for the same request', async () => {
+    expect(await resultCacheKey(input())).toBe(await resultCacheKey(input({ image: new Blob(['png bytes']) })));
+  });
+
+  it('gives a new key when anything that shapes the answer changes', async () => {
+    const key = await resultCacheKey(input());
+    const changes: Partial<ResultCacheKeyInput>[] = [
+      { image: new Blob(['other bytes']) },
+      { provider: 'ollama' },
+      { endpoint: 'http://localhost:8000/v1' },
+      { model: 'vision-2' },
+      { prompt: 'convert in English' },
+      { maxRepairRounds: 0 },
+    ];
+    for (const change of changes) expect(await resultCacheKey(input(change))).not.toBe(key);
+  });
+});
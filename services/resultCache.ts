@@ -0,0 +1,75 @@
+import { RESULTS_STORE, withStore } from "./idb";
+import type { ConversionResult } from "./geminiService";
+
+/** A stored conversion, addressed by the hash of everything that determines the request. */
+export interface CachedResult {
+  key: string;
+  code: string;
+  repairRounds: number;
+  diagnostics: ConversionResult['diagnostics'];
+  usage: ConversionResult['usage'];
+  imageName: string;
+  provider: string;
+  model: string;
+  fidelity: number;
+  profileName: string;
+  createdAt: number;
+  lastUsedAt: number;
+  hits: number;
+}
+
+export interface ResultCacheKeyInput {
+  /** The image actually sent, i.e. the crop when converting a region. */
+  image: Blob;
+  provider: string;
+  /** Base URL of the server, for providers where the same model name can be served from anywhere. */
+  endpoint?: string;
+  model: string;
+  /** The full conversion prompt, so that any edit to the profile or fidelity level is a new version. */
+  prompt: string;
+  maxRepairRounds: number;
+}
+
+const toHex = (buffer: ArrayBuffer): string =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+const sha256 = async (data: BufferSource): Promise<string> => toHex(await crypto.subtle.digest('SHA-256', data));
+
+export const resultCacheKey = async ({ image, provider, endpoint, model, prompt, maxRepairRounds }: ResultCacheKeyInput): Promise<string> => {
+  const imageHash = await sha256(await image.arrayBuffer());
+  const settings = JSON.stringify([
+    provider, model, await sha256(new TextEncoder().encode(prompt)), maxRepairRounds,
+    // Appended only when given so that entries cached for Gemini and the mock stay valid.
+    ...(endpoint ? [endpoint] : []),
+  ]);
+  return sha256(new TextEncoder().encode(imageHash + settings));
+};
+
+/**
+ * Returns the cached result for a key and records the hit.
+ */
+export const getCachedResult = async (key: string): Promise<CachedResult | undefined> => {
+  const cached = await withStore<CachedResult | undefined>(RESULTS_STORE, 'readonly', store => store.get(key));
+  if (!cached) return undefined;
+  const used = { ...cached, lastUsedAt: Date.now(), hits: cached.hits + 1 };
+  await withStore(RESULTS_STORE, 'readwrite', store => store.put(used));
+  return used;
+};
+
+export const putCachedResult = async (entry: Omit<CachedResult, 'createdAt' | 'lastUsedAt' | 'hits'>): Promise<void> => {
+  const now = Date.now();
+  await withStore(RESULTS_STORE, 'readwrite', store => store.put({ ...entry, createdAt: now, lastUsedAt: now, hits: 0 }));
+};
+
+export const listCachedResults = async (): Promise<CachedResult[]> => {
+  const results = await withStore<CachedResult[]>(RESULTS_STORE, 'readonly', store => store.getAll());
+  return results.sort((a, b) => b.lastUsedAt - a.lastUsedAt);
+};
+
+export const deleteCachedResult = async (key: string): Promise<void> => {
+  await withStore(RESULTS_STORE, 'readwrite', store => store.delete(key));
+};
+
+export const clearResultCache = async (): Promise<void> => {
+  await withStore(RESULTS_STORE, 'readwrite', store => store.clear());
+};
@@ -0,0 +1,13 @@
+import { describe, expect, it } from 'vitest';
+import { applyLintFixes, lintSalt } from './saltLint';
+
+const salt = (body: string) => `@startsalt\n{\n${body}\n}\n@endsalt`;
+
+describe('lintSalt', () => {
+  it('reports nothing once the fixes of every issue are applied', () => {
+    const source = salt('  名前 | "" | .\n  種別 | ^   ^ | .\n  [OK] | | [キャンセル]');
+    const issues = lintSalt(source);
+    expect(issues.map(issue => issue.rule)).toEqual(['empty-widget', 'empty-widget', 'empty-widget']);
+    expect(lintSalt(applyLintFixes(source, issues))).toEqual([]);
+  });
+});
@@ -0,0 +1,305 @@
+import { parseSalt, hasErrors, SaltBlock, SaltCell, SaltNode, SaltPosition } from "./saltParser";
+import { tokenizeSaltLine, SaltToken } from "./saltSyntax";
+import { formatMessage, MessageParams } from "./i18n";
+
+// --- FORMATTER ---
+
+const INDENT = '  ';
+
+/** Width of text in a monospace editor; full-width characters take two columns. */
+const displayWidth = (text: string): number =>
+  Array.from(text).reduce((sum, ch) => sum + (ch.charCodeAt(0) > 0x2e80 ? 2 : 1), 0);
+
+const padEnd = (text: string, width: number) => text + ' '.repeat(Math.max(0, width - displayWidth(text)));
+
+interface RowLine {
+  index: number;
+  indent: string;
+  cells: string[];
+  /** '|' or '||' after each cell but the last. */
+  delimiters: string[];
+}
+
+const isCellDelimiter = (token: SaltToken) => token.type === 'pipe' || (token.type === 'separator' && token.text === '||');
+
+const splitRow = (tokens: SaltToken[]): Pick<RowLine, 'cells' | 'delimiters'> => {
+  const cells: string[] = [];
+  const delimiters: string[] = [];
+  let current = '';
+  tokens.forEach(token => {
+    if (isCellDelimiter(token)) {
+      cells.push(current.trim());
+      delimiters.push(token.text);
+      current = '';
+    } else {
+      current += token.text;
+    }
+  });
+  cells.push(current.trim());
+  return { cells, delimiters };
+};
+
+/** Pads the cells of consecutive rows so that their '|' separators line up. */
+const alignRows = (rows: RowLine[], out: string[]) => {
+  const widths: number[] = [];
+  rows.forEach(row => row.cells.slice(0, -1).forEach((cell, col) => {
+    widths[col] = Math.max(widths[col] ?? 0, displayWidth(cell));
+  }));
+  rows.forEach(row => {
+    const last = row.cells.length - 1;
+    const text = row.cells
+      .map((cell, col) => col < last ? `${padEnd(cell, widths[col])} ${row.delimiters[col]} ` : cell)
+      .join('');
+    out[row.index] = (row.indent + text).trimEnd();
+  });
+};
+
+/**
+ * Normalizes the layout of Salt code: two spaces of indentation per nesting level, and the cells of
+ * consecutive one-line grid rows padded into aligned columns. Lines outside @startsalt/@endsalt are
+ * kept as they are, and code with syntax errors is returned unchanged.
+ */
+export const formatSalt = (source: string): string => {
+  if (hasErrors(parseSalt(source).diagnostics)) return source;
+  const lines = source.split('\n');
+  const start = lines.findIndex(line => /^@start/.test(line.trim()));
+  const end = lines.findIndex((line, index) => index > start && /^@end/.test(line.trim()));
+  if (start < 0 || end < 0) return source;
+
+  const out = [...lines];
+  let depth = 0;
+  let group: RowLine[] = [];
+  const flush = () => {
+    if (group.length) alignRows(group, out);
+    group = [];
+  };
+
+  for (let i = start + 1; i < end; i++) {
+    const text = lines[i].trim();
+    if (!text) {
+      flush();
+      out[i] = '';
+      continue;
+    }
+    const tokens = tokenizeSaltLine(text, 0);
+    // A line that starts by closing blocks is indented like the lines that opened them.
+    let leadingCloses = 0;
+    for (const token of tokens) {
+      if (token.type === 'brace' && token.text === '}') leadingCloses++;
+      else if (token.type !== 'whitespace') break;
+    }
+    const indent = INDENT.repeat(Math.max(0, depth - leadingCloses));
+    tokens.forEach(token => {
+      if (token.type === 'block' || (token.type === 'brace' && token.text === '{')) depth++;
+      else if (token.type === 'brace') depth--;
+    });
+
+    const isRow = tokens.some(isCellDelimiter)
+      && !tokens.some(token => token.type === 'block' || token.type === 'brace' || token.type === 'tree');
+    if (!isRow) {
+      flush();
+      out[i] = indent + text;
+      continue;
+    }
+    if (group.length && group[0].indent !== indent) flush();
+    group.push({ index: i, indent, ...splitRow(tokens) });
+  }
+  flush();
+  return out.join('\n');
+};
+
+// --- LINTER ---
+
+export type SaltLintRuleId = 'bordered-alignment-grid' | 'ragged-rows' | 'empty-widget' | 'duplicate-tab';
+
+export interface SaltLintRule {
+  id: SaltLintRuleId;
+  label: string;
+  description: string;
+}
+
+export const SALT_LINT_RULES: SaltLintRule[] = [
+  {
+    id: 'bordered-alignment-grid',
+    label: '位置合わせ用グリッドの罫線',
+    description: 'ラベルと入力欄を並べるだけのグリッドに罫線 ({+ など) が付いている',
+  },
+  {
+    id: 'ragged-rows',
+    label: 'セル数の揃わない行',
+    description: '同じグリッド内で他の行よりセルが少なく、列がずれる行',
+  },
+  {
+    id: 'empty-widget',
+    label: '空のウィジェット',
+    description: '中身のないテキストフィールド・コンボボックスや、"." のない空セル',
+  },
+  {
+    id: 'duplicate-tab',
+    label: '重複したタブ名',
+    description: '同じタブ列に同じ名前のタブが複数ある',
+  },
+];
+
+/** Which rules are enabled. */
+export type SaltLintSettings = Record<SaltLintRuleId, boolean>;
+
+export const DEFAULT_LINT_SETTINGS: SaltLintSettings = {
+  'bordered-alignment-grid': true,
+  'ragged-rows': true,
+  'empty-widget': true,
+  'duplicate-tab': true,
+};
+
+const LINT_SETTINGS_KEY = 'image2salt.lintSettings';
+
+export const loadLintSettings = (): SaltLintSettings => {
+  try {
+    const stored = localStorage.getItem(LINT_SETTINGS_KEY);
+    return stored ? { ...DEFAULT_LINT_SETTINGS, ...JSON.parse(stored) } : DEFAULT_LINT_SETTINGS;
+  } catch {
+    return DEFAULT_LINT_SETTINGS;
+  }
+};
+
+export const saveLintSettings = (settings: SaltLintSettings): void => {
+  try {
+    localStorage.setItem(LINT_SETTINGS_KEY, JSON.stringify(settings));
+  } catch (e) {
+    console.error("Failed to save lint settings", e);
+  }
+};
+
+/** Replaces source.slice(start, end) with text. */
+export interface SaltTextEdit {
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface SaltLintIssue {
+  rule: SaltLintRuleId;
+  message: string;
+  /** Dictionary key of the message, with its {name} placeholders filled from messageParams. */
+  messageKey: string;
+  messageParams?: MessageParams;
+  line: number;
+  column: number;
+  fix: SaltTextEdit[];
+}
+
+const INPUT_WIDGETS = new Set<SaltNode['type']>(['textfield', 'combo', 'checkbox', 'radio', 'button', 'empty', 'span']);
+
+const isSeparatorRow = (cells: SaltCell[]) =>
+  cells.length === 1 && cells[0].items.length > 0 && cells[0].items.every(item => item.type === 'separator');
+
+/**
+ * A form grid: every row is a label (or '.') followed by input widgets and buttons only, with at
+ * least one input field. Data tables have text in their other cells and are left alone.
+ */
+const isAlignmentGrid = (block: SaltBlock): boolean => {
+  const rows = block.rows.filter(row => !isSeparatorRow(row.cells));
+  return rows.length > 0
+    && rows.every(row => row.cells.length >= 2
+      && row.cells[0].items.every(item => item.type === 'text' || item.type === 'empty')
+      && row.cells.slice(1).every(cell => cell.items.every(item => INPUT_WIDGETS.has(item.type))))
+    && rows.some(row => row.cells.some(cell => cell.items.some(item => item.type === 'textfield' || item.type === 'combo')));
+};
+
+const cellLabel = (cell: SaltCell) => cell.items.map(item => item.type === 'text' ? item.text : '').join(' ').trim();
+
+/**
+ * Checks parsed Salt against the enabled style rules. Every issue carries the edits that fix it;
+ * code with syntax errors is not checked.
+ */
+export const lintSalt = (source: string, settings: SaltLintSettings = DEFAULT_LINT_SETTINGS): SaltLintIssue[] => {
+  const { document, diagnostics } = parseSalt(source);
+  if (hasErrors(diagnostics)) return [];
+  const issues: SaltLintIssue[] = [];
+  const report = (rule: SaltLintRuleId, at: SaltPosition, messageKey: string, messageParams: MessageParams | undefined, fix: SaltTextEdit[]) => {
+    if (!settings[rule]) return;
+    issues.push({ rule, message: formatMessage(messageKey, messageParams), messageKey, messageParams, line: at.line, column: at.column, fix });
+  };
+
+  const checkBlock = (block: SaltBlock) => {
+    const start = block.range.start;
+    if (block.kind === 'grid' && block.border !== 'none' && isAlignmentGrid(block)) {
+      const marker = source.slice(start.offset, start.offset + 2);
+      report('bordered-alignment-grid', start, "'{marker}' のグリッドは位置合わせにしか使われていません。罫線なしの '{' にできます。", { marker }, [
+        { start: start.offset + 1, end: start.offset + 2, text: '' },
+      ]);
+    }
+
+    if (block.kind === 'grid' || block.kind === 'group' || block.kind === 'scroll') {
+      // Single-cell rows (headings, nested blocks, full-width separators) are meant to stand alone.
+      const columns = Math.max(0, ...block.rows.map(row => row.cells.length));
+      block.rows.forEach(row => {
+        if (row.cells.length < 2 || row.cells.length >= columns) return;
+        let end = row.range.end.offset;
+        while (end > row.range.start.offset && /\s/.test(source[end - 1])) end--;
+        const missing = columns - row.cells.length;
+        report('ragged-rows', row.range.start, 'この行のセルは{count}個で、同じグリッドの他の行 ({columns}個) より少ないため列がずれます。', { count: row.cells.length, columns }, [
+          { start: end, end, text: ' | .'.repeat(missing) },
+        ]);
+      });
+    }
+
+    if (block.kind === 'tabs' && block.rows.length > 0) {
+      const cells = block.rows[0].cells;
+      const seen = new Set<string>();
+      cells.forEach((cell, index) => {
+        const label = cellLabel(cell);
+        if (!label) return;
+        if (seen.has(label) && index > 0) {
+          // Remove the tab together with the '|' in front of it.
+          report('duplicate-tab', cell.range.start, 'タブ「{label}」が重複しています。', { label }, [
+            { start: cells[index - 1].range.end.offset, end: cell.range.end.offset, text: '' },
+          ]);
+        }
+        seen.add(label);
+      });
+    }
+
+    block.rows.forEach(row => row.cells.forEach((cell, index) => {
+      // A trailing '|' also leaves an empty last cell; only gaps between cells are reported.
+      if (cell.items.length === 0 && index < row.cells.length - 1) {
+        report('empty-widget', cell.range.start, '空のセルがあります。空白セルには "." を書いてください。', undefined, [
+          { start: cell.range.start.offset, end: cell.range.start.offset, text: '. ' },
+        ]);
+      }
+      cell.items.forEach(item => {
+        if (item.type === 'block') {
+          checkBlock(item);
+        } else if (item.type === 'textfield' && item.value === '') {
+          report('empty-widget', item.range.start, '空のテキストフィールド "" は幅がなく、ほとんど表示されません。', undefined, [
+            { start: item.range.start.offset, end: item.range.end.offset, text: '"        "' },
+          ]);
+        } else if (item.type === 'combo' && item.value.trim() === '') {
+          // Padding alone would still be blank, so the fix writes a language-neutral placeholder choice.
+          report('empty-widget', item.range.start, '空のコンボボックスがあります。', undefined, [
+            { start: item.range.start.offset, end: item.range.end.offset, text: '^...^' },
+          ]);
+        }
+      });
+    }));
+  };
+
+  document.blocks.forEach(checkBlock);
+  return issues.sort((a, b) => a.line - b.line || a.column - b.column);
+};
+
+/**
+ * Applies the fixes of the given issues. Edits are applied from the end of the code backwards so
+ * that earlier offsets stay valid; an edit overlapping one already applied is skipped.
+ */
+export const applyLintFixes = (source: string, issues: SaltLintIssue[]): string => {
+  const edits = issues.flatMap(issue => issue.fix).sort((a, b) => b.start - a.start || b.end - a.end);
+  let result = source;
+  let limit = Infinity;
+  edits.forEach(edit => {
+    if (edit.end > limit) return;
+    result = result.slice(0, edit.start) + edit.text + result.slice(edit.end);
+    limit = edit.start;
+  });
+  return result;
+};
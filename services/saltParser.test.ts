@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { completeSaltPrefix, hasErrors, parseSalt } from './saltParser';
+
+const codes = (source: string) => parseSalt(source).diagnostics.map(d => d.code);
+
+describe('parseSalt', () => {
+  it('parses a fenced document into blocks, rows and widgets', () => {
+    const { document, diagnostics } = parseSalt('```plantuml\n@startsalt\n{\n  Login | "user"\n  [OK] | [X] Remember\n}\n@endsalt\n```');
+    expect(diagnostics).toEqual([]);
+    const [block] = document.blocks;
+    expect(block.kind).toBe('grid');
+    expect(block.rows.map(row => row.cells.flatMap(cell => cell.items.map(item => item.type))))
+      .toEqual([['text', 'textfield'], ['button', 'checkbox']]);
+  });
+
+  it('reports missing and mismatched markers', () => {
+    expect(codes('{\n  [OK]\n}')).toEqual(expect.arrayContaining(['missing-start']));
+    expect(codes('@startsalt\n{\n  [OK]\n}')).toEqual(['missing-end']);
+    expect(codes('@startsalt\n{\n  [OK]\n}\n@enduml')).toEqual(['mismatched-end']);
+  });
+
+  it('reports widgets left open at the end of the line', () => {
+    expect(codes('@startsalt\n{\n  [OK\n}\n@endsalt')).toEqual(['unclosed-button']);
+    expect(codes('@startsalt\n{\n  "name\n}\n@endsalt')).toEqual(['unclosed-textfield']);
+    expect(codes('@startsalt\n{\n  ^Choice\n}\n@endsalt')).toEqual(['unclosed-combo']);
+  });
+
+  it('reports unbalanced braces', () => {
+    expect(codes('@startsalt\n{\n  {\n    [OK]\n}\n@endsalt')).toEqual(['unclosed-block']);
+    expect(codes('@startsalt\n{\n  [OK]\n}\n}\n@endsalt')).toEqual(['unmatched-brace']);
+  });
+
+  it('gives 1-based line and column positions in the original text', () => {
+    const [diagnostic] = parseSalt('```\n@startsalt\n{\n  Name | [OK\n}\n@endsalt\n```').diagnostics;
+    expect(diagnostic).toMatchObject({ code: 'unclosed-button', line: 4, column: 10 });
+  });
+
+  it('treats only errors as failing', () => {
+    expect(hasErrors(parseSalt('@startsalt\n{\n  [OK]\n}\n@endsalt').diagnostics)).toBe(false);
+    expect(hasErrors(parseSalt('@startsalt\n{\n  [OK\n}\n@endsalt').diagnostics)).toBe(true);
+  });
+});
+
+describe('completeSaltPrefix', () => {
+  it('closes the open blocks of a partially streamed document', () => {
+    const completed = completeSaltPrefix('@startsalt\n{\n  Login | "user"\n  {\n    [OK]');
+    expect(completed).not.toBeNull();
+    expect(hasErrors(parseSalt(completed!).diagnostics)).toBe(false);
+  });
+});
@@ -0,0 +1,544 @@
+import { formatMessage, MessageParams } from "./i18n";
+
+// --- AST TYPES ---
+
+export interface SaltPosition {
+  offset: number;
+  line: number;
+  column: number;
+}
+
+export interface SaltRange {
+  start: SaltPosition;
+  end: SaltPosition;
+}
+
+export type SaltBlockKind = 'grid' | 'tree' | 'tabs' | 'menu' | 'group' | 'scroll';
+
+/** Grid line style selected by the character after '{' ('#', '!', '-', '+' or none). */
+export type SaltBorder = 'none' | 'all' | 'vertical' | 'horizontal' | 'outer';
+
+export interface SaltBlock {
+  type: 'block';
+  kind: SaltBlockKind;
+  border: SaltBorder;
+  /** Group box title for '{^"title"'. */
+  title?: string;
+  /** Scroll direction for '{S', '{SI' and '{S-'. */
+  scroll?: 'both' | 'vertical' | 'horizontal';
+  rows: SaltRow[];
+  range: SaltRange;
+}
+
+export interface SaltRow {
+  cells: SaltCell[];
+  /** Nesting depth given by the leading '+' characters of a tree row. */
+  depth?: number;
+  range: SaltRange;
+}
+
+export interface SaltCell {
+  items: SaltNode[];
+  range: SaltRange;
+}
+
+interface SaltWidgetBase {
+  range: SaltRange;
+}
+
+export interface SaltButton extends SaltWidgetBase { type: 'button'; label: string; }
+export interface SaltCheckbox extends SaltWidgetBase { type: 'checkbox'; checked: boolean; label: string; }
+export interface SaltRadio extends SaltWidgetBase { type: 'radio'; checked: boolean; label: string; }
+export interface SaltTextField extends SaltWidgetBase { type: 'textfield'; value: string; }
+export interface SaltCombo extends SaltWidgetBase { type: 'combo'; value: string; }
+export interface SaltText extends SaltWidgetBase { type: 'text'; text: string; }
+export interface SaltSeparator extends SaltWidgetBase {
+  type: 'separator';
+  orientation: 'horizontal' | 'vertical';
+  /** The repeated character the separator was written with ('-', '=', '~', '.' or '|'). */
+  style: string;
+}
+/** '.' placeholder for an empty cell. */
+export interface SaltEmpty extends SaltWidgetBase { type: 'empty'; }
+/** '*' marker that extends the cell on its left. */
+export interface SaltSpan extends SaltWidgetBase { type: 'span'; }
+
+export type SaltWidget =
+  | SaltButton
+  | SaltCheckbox
+  | SaltRadio
+  | SaltTextField
+  | SaltCombo
+  | SaltText
+  | SaltSeparator
+  | SaltEmpty
+  | SaltSpan;
+
+export type SaltNode = SaltBlock | SaltWidget;
+
+export interface SaltDirective {
+  /** Raw directive line, e.g. 'title Login' or 'scale 2'. */
+  text: string;
+  range: SaltRange;
+}
+
+export interface SaltDocument {
+  type: 'document';
+  directives: SaltDirective[];
+  blocks: SaltBlock[];
+  /** Span of the body between the start and end markers. */
+  range: SaltRange;
+}
+
+export type SaltDiagnosticSeverity = 'error' | 'warning';
+
+export type SaltDiagnosticCode =
+  | 'missing-start'
+  | 'missing-end'
+  | 'mismatched-end'
+  | 'extra-text'
+  | 'stray-text'
+  | 'unclosed-block'
+  | 'unmatched-brace'
+  | 'unclosed-button'
+  | 'unclosed-textfield'
+  | 'unclosed-combo'
+  | 'unclosed-title'
+  | 'empty-document';
+
+export interface SaltDiagnostic {
+  severity: SaltDiagnosticSeverity;
+  code: SaltDiagnosticCode;
+  /** Japanese text, as sent to the model when repairing. */
+  message: string;
+  /** Dictionary key of the message, with its {name} placeholders filled from messageParams. */
+  messageKey: string;
+  messageParams?: MessageParams;
+  line: number;
+  column: number;
+}
+
+export interface SaltParseResult {
+  document: SaltDocument;
+  diagnostics: SaltDiagnostic[];
+}
+
+// --- PARSER ---
+
+const START_MARKER = /^@start(salt|uml)\b/;
+const END_MARKER = /^@end(salt|uml)\b/;
+const FENCE = /^```/;
+const DIRECTIVE = /^(salt|title|scale|skinparam|header|footer|caption|legend|endlegend|hide|show|![a-z]+)\b/i;
+const HORIZONTAL_SEPARATOR = /^(-{2,}|={2,}|~{2,}|\.{2,})$/;
+const BORDER_CHARS: Record<string, SaltBorder> = { '#': 'all', '!': 'vertical', '-': 'horizontal', '+': 'outer' };
+
+interface CellFrame {
+  items: SaltNode[];
+  start: number;
+  textStart: number;
+  textEnd: number;
+}
+
+interface RowFrame {
+  cells: SaltCell[];
+  depth?: number;
+  start: number;
+}
+
+interface BlockFrame {
+  block: SaltBlock;
+  row: RowFrame | null;
+  cell: CellFrame | null;
+}
+
+/**
+ * Parses PlantUML Salt code (optionally wrapped in a markdown code fence, as the model returns it)
+ * into an AST and reports syntax problems with 1-based line/column positions in the given text.
+ */
+export const parseSalt = (source: string): SaltParseResult => {
+  const diagnostics: SaltDiagnostic[] = [];
+  const lineStarts = [0];
+  for (let i = 0; i < source.length; i++) {
+    if (source[i] === '\n') lineStarts.push(i + 1);
+  }
+
+  const positionAt = (offset: number): SaltPosition => {
+    let low = 0;
+    let high = lineStarts.length - 1;
+    while (low < high) {
+      const mid = (low + high + 1) >> 1;
+      if (lineStarts[mid] <= offset) low = mid; else high = mid - 1;
+    }
+    return { offset, line: low + 1, column: offset - lineStarts[low] + 1 };
+  };
+  const rangeOf = (start: number, end: number): SaltRange => ({ start: positionAt(start), end: positionAt(end) });
+  const report = (severity: SaltDiagnosticSeverity, code: SaltDiagnosticCode, messageKey: string, offset: number, messageParams?: MessageParams) => {
+    const { line, column } = positionAt(offset);
+    diagnostics.push({ severity, code, message: formatMessage(messageKey, messageParams), messageKey, messageParams, line, column });
+  };
+
+  const lineText = (index: number) => {
+    const end = index + 1 < lineStarts.length ? lineStarts[index + 1] - 1 : source.length;
+    return source.slice(lineStarts[index], end).replace(/\r$/, '');
+  };
+  const lineEndOffset = (offset: number) => {
+    const newline = source.indexOf('\n', offset);
+    return newline < 0 ? source.length : newline;
+  };
+  const firstNonSpace = (index: number) => lineStarts[index] + (lineText(index).length - lineText(index).trimStart().length);
+
+  // Locate the start and end markers; everything outside them should be blank lines or code fences.
+  const lineCount = lineStarts.length;
+  let startLine = -1;
+  let endLine = -1;
+  for (let i = 0; i < lineCount; i++) {
+    if (START_MARKER.test(lineText(i).trim())) { startLine = i; break; }
+  }
+  if (startLine >= 0) {
+    for (let i = startLine + 1; i < lineCount; i++) {
+      if (END_MARKER.test(lineText(i).trim())) { endLine = i; break; }
+    }
+  }
+
+  const checkOutside = (from: number, to: number, message: string) => {
+    for (let i = from; i < to; i++) {
+      const text = lineText(i).trim();
+      if (text && !FENCE.test(text)) {
+        report('warning', 'extra-text', message, firstNonSpace(i));
+        return;
+      }
+    }
+  };
+
+  let bodyStart: number;
+  let bodyEnd: number;
+  if (startLine >= 0) {
+    checkOutside(0, startLine, '@startsalt より前に余分なテキストがあります。');
+    bodyStart = startLine + 1 < lineCount ? lineStarts[startLine + 1] : source.length;
+    if (endLine >= 0) {
+      const startKind = lineText(startLine).trim().match(START_MARKER)![1];
+      const endKind = lineText(endLine).trim().match(END_MARKER)![1];
+      if (startKind !== endKind) {
+        report('error', 'mismatched-end', '@start{start} に対して @end{end} で終わっています。', firstNonSpace(endLine), { start: startKind, end: endKind });
+      }
+      bodyEnd = lineStarts[endLine];
+      checkOutside(endLine + 1, lineCount, '@endsalt より後に余分なテキストがあります。');
+    } else {
+      let fenceLine = -1;
+      for (let i = startLine + 1; i < lineCount; i++) {
+        if (FENCE.test(lineText(i).trim())) { fenceLine = i; break; }
+      }
+      bodyEnd = fenceLine >= 0 ? lineStarts[fenceLine] : source.length;
+      report('error', 'missing-end', '@endsalt がありません。', bodyEnd);
+    }
+  } else {
+    report('error', 'missing-start', '@startsalt がありません。', 0);
+    let from = 0;
+    while (from < lineCount && !lineText(from).trim()) from++;
+    if (from < lineCount && FENCE.test(lineText(from).trim())) from++;
+    let to = from;
+    while (to < lineCount && !FENCE.test(lineText(to).trim())) to++;
+    bodyStart = from < lineCount ? lineStarts[from] : source.length;
+    bodyEnd = to < lineCount ? lineStarts[to] : source.length;
+  }
+
+  const document: SaltDocument = { type: 'document', directives: [], blocks: [], range: rangeOf(bodyStart, bodyEnd) };
+  const stack: BlockFrame[] = [];
+
+  const flushText = (cell: CellFrame) => {
+    if (cell.textStart < 0) return;
+    const text = source.slice(cell.textStart, cell.textEnd);
+    const range = rangeOf(cell.textStart, cell.textEnd);
+    cell.textStart = cell.textEnd = -1;
+    if (text === '.') {
+      cell.items.push({ type: 'empty', range });
+    } else if (text === '*') {
+      cell.items.push({ type: 'span', range });
+    } else if (HORIZONTAL_SEPARATOR.test(text)) {
+      cell.items.push({ type: 'separator', orientation: 'horizontal', style: text[0], range });
+    } else {
+      cell.items.push({ type: 'text', text, range });
+    }
+  };
+
+  const ensureRow = (frame: BlockFrame, offset: number): RowFrame => {
+    if (!frame.row) frame.row = { cells: [], start: offset };
+    return frame.row;
+  };
+
+  const ensureCell = (frame: BlockFrame, offset: number): CellFrame => {
+    ensureRow(frame, offset);
+    if (!frame.cell) frame.cell = { items: [], start: offset, textStart: -1, textEnd: -1 };
+    return frame.cell;
+  };
+
+  // A checkbox or radio followed by text in the same cell takes that text as its label.
+  const mergeLabels = (items: SaltNode[]): SaltNode[] => {
+    const merged: SaltNode[] = [];
+    for (const item of items) {
+      const previous = merged[merged.length - 1];
+      if (item.type === 'text' && previous && (previous.type === 'checkbox' || previous.type === 'radio') && !previous.label) {
+        previous.label = item.text;
+        previous.range = { start: previous.range.start, end: item.range.end };
+      } else {
+        merged.push(item);
+      }
+    }
+    return merged;
+  };
+
+  const endCell = (frame: BlockFrame, offset: number, force: boolean) => {
+    const cell = frame.cell;
+    if (cell) flushText(cell);
+    if (!cell && !force) return;
+    const row = ensureRow(frame, offset);
+    const start = cell ? cell.start : offset;
+    row.cells.push({ items: cell ? mergeLabels(cell.items) : [], range: rangeOf(start, offset) });
+    frame.cell = null;
+  };
+
+  const endRow = (frame: BlockFrame, offset: number) => {
+    if (!frame.row) return;
+    endCell(frame, offset, frame.row.cells.length > 0);
+    const row = frame.row;
+    frame.block.rows.push({ cells: row.cells, depth: row.depth, range: rangeOf(row.start, offset) });
+    frame.row = null;
+  };
+
+  const isDelimiter = (ch: string | undefined) => ch === undefined || /\s/.test(ch);
+
+  const openBlock = (offset: number): number => {
+    let j = offset + 1;
+    const next = source[j];
+    const block: SaltBlock = { type: 'block', kind: 'grid', border: 'none', rows: [], range: rangeOf(offset, offset + 1) };
+    if (next === 'T' && (isDelimiter(source[j + 1]) || BORDER_CHARS[source[j + 1]])) {
+      block.kind = 'tree';
+      j++;
+      if (BORDER_CHARS[source[j]]) block.border = BORDER_CHARS[source[j++]];
+    } else if (next === 'S' && source[j + 1] === 'I' && isDelimiter(source[j + 2])) {
+      block.kind = 'scroll';
+      block.scroll = 'vertical';
+      j += 2;
+    } else if (next === 'S' && source[j + 1] === '-' && isDelimiter(source[j + 2])) {
+      block.kind = 'scroll';
+      block.scroll = 'horizontal';
+      j += 2;
+    } else if (next === 'S' && isDelimiter(source[j + 1])) {
+      block.kind = 'scroll';
+      block.scroll = 'both';
+      j++;
+    } else if (next === '/') {
+      block.kind = 'tabs';
+      j++;
+    } else if (next === '*') {
+      block.kind = 'menu';
+      j++;
+    } else if (next === '^') {
+      block.kind = 'group';
+      j++;
+      if (source[j] === '"') {
+        const close = source.indexOf('"', j + 1);
+        if (close < 0 || close > lineEndOffset(j)) {
+          report('error', 'unclosed-title', 'グループのタイトルの \'"\' が閉じられていません。', j);
+          j = lineEndOffset(j);
+        } else {
+          block.title = source.slice(j + 1, close);
+          j = close + 1;
+        }
+      }
+    } else if (BORDER_CHARS[next]) {
+      block.border = BORDER_CHARS[next];
+      j++;
+    }
+
+    const parent = stack[stack.length - 1];
+    if (parent) {
+      ensureCell(parent, offset).items.push(block);
+    } else {
+      document.blocks.push(block);
+    }
+    stack.push({ block, row: null, cell: null });
+    return j;
+  };
+
+  const closeBlock = (offset: number, end: number) => {
+    const frame = stack.pop()!;
+    endRow(frame, offset);
+    frame.block.range = rangeOf(frame.block.range.start.offset, end);
+  };
+
+  // Scans a delimited widget ('[...]', '"..."', '^...^') that must close on the same line.
+  const scanDelimited = (offset: number, close: string, code: SaltDiagnosticCode, message: string): string | null => {
+    const end = source.indexOf(close, offset + 1);
+    if (end < 0 || end > Math.min(lineEndOffset(offset), bodyEnd)) {
+      report('error', code, message, offset);
+      return null;
+    }
+    return source.slice(offset + 1, end);
+  };
+
+  let i = bodyStart;
+  while (i < bodyEnd) {
+    const ch = source[i];
+    const frame = stack[stack.length - 1];
+
+    if (!frame) {
+      if (/\s/.test(ch)) { i++; continue; }
+      if (ch === '{') { i = openBlock(i); continue; }
+      if (ch === '}') {
+        report('error', 'unmatched-brace', '対応する \'{\' がない \'}\' があります。', i);
+        i++;
+        continue;
+      }
+      const lineEnd = Math.min(lineEndOffset(i), bodyEnd);
+      const text = source.slice(i, lineEnd).trim();
+      if (ch === '\'') {
+        i = lineEnd;
+      } else if (DIRECTIVE.test(text)) {
+        document.directives.push({ text, range: rangeOf(i, i + text.length) });
+        i = lineEnd;
+      } else {
+        report('error', 'stray-text', 'Salt ブロックの外にテキストがあります。', i);
+        const brace = source.indexOf('{', i);
+        i = brace >= 0 && brace < lineEnd ? brace : lineEnd;
+      }
+      continue;
+    }
+
+    if (ch === '\n') {
+      endRow(frame, i);
+      i++;
+      continue;
+    }
+    if (!frame.row) {
+      if (/\s/.test(ch)) { i++; continue; }
+      if (ch === '\'') { i = Math.min(lineEndOffset(i), bodyEnd); continue; }
+      if (frame.block.kind === 'tree' && ch === '+') {
+        let depth = 0;
+        const start = i;
+        while (source[i] === '+') { depth++; i++; }
+        ensureRow(frame, start).depth = depth;
+        continue;
+      }
+    }
+
+    switch (ch) {
+      case '|': {
+        endCell(frame, i, true);
+        if (source[i + 1] === '|') {
+          frame.row!.cells.push({
+            items: [{ type: 'separator', orientation: 'vertical', style: '|', range: rangeOf(i, i + 2) }],
+            range: rangeOf(i, i + 2),
+          });
+          i += 2;
+        } else {
+          i++;
+        }
+        continue;
+      }
+      case '{': {
+        const cell = ensureCell(frame, i);
+        flushText(cell);
+        i = openBlock(i);
+        continue;
+      }
+      case '}': {
+        closeBlock(i, i + 1);
+        i++;
+        continue;
+      }
+      case '[': {
+        const cell = ensureCell(frame, i);
+        flushText(cell);
+        const content = scanDelimited(i, ']', 'unclosed-button', '\'[\' が閉じられていません。');
+        if (content === null) { i = Math.min(lineEndOffset(i), bodyEnd); continue; }
+        const end = i + content.length + 2;
+        const range = rangeOf(i, end);
+        if (content === '' || content === ' ') {
+          cell.items.push({ type: 'checkbox', checked: false, label: '', range });
+        } else if (content === 'X' || content === 'x') {
+          cell.items.push({ type: 'checkbox', checked: true, label: '', range });
+        } else {
+          cell.items.push({ type: 'button', label: content.trim(), range });
+        }
+        i = end;
+        continue;
+      }
+      case '(': {
+        const marker = source.slice(i, i + 3);
+        if (marker === '( )' || marker === '(X)' || marker === '(x)') {
+          const cell = ensureCell(frame, i);
+          flushText(cell);
+          cell.items.push({ type: 'radio', checked: marker !== '( )', label: '', range: rangeOf(i, i + 3) });
+          i += 3;
+          continue;
+        }
+        break;
+      }
+      case '"': {
+        const cell = ensureCell(frame, i);
+        flushText(cell);
+        const content = scanDelimited(i, '"', 'unclosed-textfield', 'テキストフィールドの \'"\' が閉じられていません。');
+        if (content === null) { i = Math.min(lineEndOffset(i), bodyEnd); continue; }
+        cell.items.push({ type: 'textfield', value: content, range: rangeOf(i, i + content.length + 2) });
+        i += content.length + 2;
+        continue;
+      }
+      case '^': {
+        const cell = ensureCell(frame, i);
+        flushText(cell);
+        const content = scanDelimited(i, '^', 'unclosed-combo', 'コンボボックスの \'^\' が閉じられていません。');
+        if (content === null) { i = Math.min(lineEndOffset(i), bodyEnd); continue; }
+        cell.items.push({ type: 'combo', value: content, range: rangeOf(i, i + content.length + 2) });
+        i += content.length + 2;
+        continue;
+      }
+    }
+
+    // Plain text accumulates until the next structural character.
+    if (!/\s/.test(ch)) {
+      const cell = ensureCell(frame, i);
+      if (cell.textStart < 0) cell.textStart = i;
+      cell.textEnd = i + 1;
+    }
+    i++;
+  }
+
+  while (stack.length) {
+    const frame = stack[stack.length - 1];
+    report('error', 'unclosed-block', '\'{\' が閉じられていません。', frame.block.range.start.offset);
+    closeBlock(bodyEnd, bodyEnd);
+  }
+
+  if (document.blocks.length === 0 && startLine >= 0) {
+    report('error', 'empty-document', 'Salt のブロック \'{ }\' がありません。', lineStarts[startLine]);
+  }
+
+  diagnostics.sort((a, b) => a.line - b.line || a.column - b.column);
+  return { document, diagnostics };
+};
+
+/**
+ * Returns true if any diagnostic is an error (warnings do not prevent rendering).
+ */
+export const hasErrors = (diagnostics: SaltDiagnostic[]): boolean =>
+  diagnostics.some(d => d.severity === 'error');
+
+/**
+ * Turns a partially streamed answer into renderable code: keeps only complete lines, then closes
+ * any open blocks and adds '@endsalt'. Returns null while the prefix cannot be completed cleanly.
+ */
+export const completeSaltPrefix = (partial: string): string | null => {
+  const lastNewline = partial.lastIndexOf('\n');
+  if (lastNewline < 0) return null;
+  const prefix = partial.slice(0, lastNewline).replace(/\n```\s*$/, '');
+
+  const { diagnostics } = parseSalt(prefix);
+  if (!hasErrors(diagnostics)) return prefix;
+  const recoverable = diagnostics.every(d => d.severity === 'warning' || d.code === 'unclosed-block' || d.code === 'missing-end');
+  if (!recoverable) return null;
+
+  const unclosed = diagnostics.filter(d => d.code === 'unclosed-block').length;
+  const completed = `${prefix}\n${'}\n'.repeat(unclosed)}@endsalt`;
+  return hasErrors(parseSalt(completed).diagnostics) ? null : completed;
+};
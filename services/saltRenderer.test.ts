@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { parseSalt } from './saltParser';
+import { escapeXml, layoutSalt, renderSaltToSvg } from './saltRenderer';
+
+const LOGIN = '@startsalt\n{\n  Login | "user"\n  Password | "****"\n  [Cancel] | [OK]\n}\n@endsalt';
+
+describe('renderSaltToSvg', () => {
+  it('renders the labels of every widget into a standalone SVG', () => {
+    const svg = renderSaltToSvg(LOGIN);
+    expect(svg.startsWith('<svg')).toBe(true);
+    ['Login', 'user', 'Password', 'Cancel', 'OK'].forEach(label => expect(svg).toContain(label));
+  });
+
+  it('escapes markup in labels', () => {
+    const svg = renderSaltToSvg('@startsalt\n{\n  [a < b & c]\n}\n@endsalt');
+    expect(svg).toContain(escapeXml('a < b & c'));
+    expect(svg).not.toContain('a < b');
+  });
+
+  it('renders the diagnostics instead of the diagram when the code has syntax errors', () => {
+    const svg = renderSaltToSvg('@startsalt\n{\n  [OK\n}\n@endsalt');
+    expect(svg).toContain('Salt の構文エラー:');
+    expect(svg).toContain('3:3');
+  });
+});
+
+describe('layoutSalt', () => {
+  it('places every widget inside its block, in document order', () => {
+    const layout = layoutSalt(parseSalt(LOGIN).document);
+    const [block, ...widgets] = layout.elements;
+    expect(block).toMatchObject({ depth: 0, parent: -1 });
+    expect(widgets.map(element => element.node.type)).toEqual(['text', 'textfield', 'text', 'textfield', 'button', 'button']);
+    widgets.forEach(element => {
+      expect(element.parent).toBe(0);
+      expect(element.x).toBeGreaterThanOrEqual(block.x);
+      expect(element.y).toBeGreaterThanOrEqual(block.y);
+      expect(element.x + element.width).toBeLessThanOrEqual(block.x + block.width);
+      expect(element.y + element.height).toBeLessThanOrEqual(block.y + block.height);
+    });
+    expect(widgets[2].y).toBeGreaterThan(widgets[0].y);
+  });
+});
@@ -0,0 +1,458 @@
+import { parseSalt, hasErrors, SaltBlock, SaltDocument, SaltNode, SaltCell } from "./saltParser";
+
+// --- METRICS ---
+
+const FONT_SIZE = 12;
+const CELL_PAD_X = 4;
+const CELL_PAD_Y = 2;
+const ITEM_GAP = 4;
+const TREE_INDENT = 14;
+const TAB_HEIGHT = 22;
+const GROUP_PAD = 8;
+const SCROLLBAR = 12;
+const MARGIN = 10;
+
+interface Size {
+  width: number;
+  height: number;
+}
+
+interface PlacedCell {
+  cell: SaltCell;
+  col: number;
+  span: number;
+  size: Size;
+}
+
+interface PlacedRow {
+  cells: PlacedCell[];
+  indent: number;
+  height: number;
+  /** Rows made of a single horizontal separator stretch across every column. */
+  fullWidth: boolean;
+}
+
+/** A node and the box it is drawn into; widgets are centered vertically in the box. */
+interface PlacedNode {
+  node: SaltNode;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Tab or menu label, drawn by its block rather than as a plain text widget. */
+  header?: boolean;
+}
+
+interface BlockLayout {
+  header: { label: string; width: number }[];
+  rows: PlacedRow[];
+  colWidths: number[];
+  /** Space reserved above and left of the grid for tab headers, group titles and padding. */
+  inset: { top: number; left: number; right: number; bottom: number };
+  size: Size;
+}
+
+/**
+ * Approximates rendered text width; full-width (CJK) characters take roughly one em.
+ */
+const textWidth = (text: string): number => {
+  let width = 0;
+  for (const ch of text) {
+    width += ch.charCodeAt(0) > 0x2e80 ? FONT_SIZE : FONT_SIZE * 0.6;
+  }
+  return Math.ceil(width);
+};
+
+/** Drops creole markup ('<b>', '<&icon>') that the renderer does not support. */
+export const plainText = (text: string): string => text.replace(/<&[^>]*>/g, '').replace(/<\/?[a-z]+[^>]*>/gi, '');
+
+export const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+// --- LAYOUT ---
+
+const layoutCache = new WeakMap<SaltBlock, BlockLayout>();
+
+const measureItems = (items: SaltNode[]): Size => {
+  let width = 0;
+  let height = 0;
+  items.forEach((item, index) => {
+    const size = measureNode(item);
+    width += size.width + (index > 0 ? ITEM_GAP : 0);
+    height = Math.max(height, size.height);
+  });
+  return { width, height };
+};
+
+const measureNode = (node: SaltNode): Size => {
+  switch (node.type) {
+    case 'block': return layoutBlock(node).size;
+    case 'button': return { width: textWidth(plainText(node.label)) + 16, height: 22 };
+    case 'checkbox':
+    case 'radio': return { width: 12 + (node.label ? 4 + textWidth(plainText(node.label)) : 0), height: 18 };
+    case 'textfield': return { width: Math.max(textWidth(node.value) + 8, 24), height: 20 };
+    case 'combo': return { width: textWidth(plainText(node.value)) + 24, height: 20 };
+    case 'text': return { width: textWidth(plainText(node.text)), height: 16 };
+    case 'separator': return { width: 8, height: 8 };
+    case 'empty': return { width: 4, height: 16 };
+    case 'span': return { width: 0, height: 0 };
+  }
+};
+
+const isSpanCell = (cell: SaltCell) => cell.items.length > 0 && cell.items.every(item => item.type === 'span');
+
+const layoutBlock = (block: SaltBlock): BlockLayout => {
+  const cached = layoutCache.get(block);
+  if (cached) return cached;
+
+  // Tabs and menus show their first row as a header strip above the grid.
+  const hasHeader = (block.kind === 'tabs' || block.kind === 'menu') && block.rows.length > 0;
+  const header = hasHeader
+    ? block.rows[0].cells.map(cell => {
+        const label = cell.items.map(item => item.type === 'text' ? plainText(item.text) : '').join(' ').trim();
+        return { label, width: textWidth(label) + 16 };
+      })
+    : [];
+  const gridRows = hasHeader ? block.rows.slice(1) : block.rows;
+
+  const rows: PlacedRow[] = gridRows.map(row => {
+    const cells: PlacedCell[] = [];
+    let col = 0;
+    for (const cell of row.cells) {
+      const previous = cells[cells.length - 1];
+      if (isSpanCell(cell) && previous) {
+        previous.span++;
+      } else {
+        cells.push({ cell, col, span: 1, size: measureItems(cell.items) });
+      }
+      col++;
+    }
+    const fullWidth = cells.length === 1 && cells[0].cell.items.length > 0
+      && cells[0].cell.items.every(item => item.type === 'separator' && item.orientation === 'horizontal');
+    const indent = block.kind === 'tree' ? (row.depth || 0) * TREE_INDENT : 0;
+    const height = Math.max(fullWidth ? 8 : 16, ...cells.map(c => c.size.height)) + CELL_PAD_Y * 2;
+    return { cells, indent, height, fullWidth };
+  });
+
+  const colWidths: number[] = [];
+  const cellWidth = (placed: PlacedCell, row: PlacedRow) =>
+    placed.size.width + CELL_PAD_X * 2 + (placed.col === 0 ? row.indent : 0);
+  rows.forEach(row => {
+    if (row.fullWidth) return;
+    row.cells.filter(c => c.span === 1).forEach(c => {
+      colWidths[c.col] = Math.max(colWidths[c.col] || 0, cellWidth(c, row));
+    });
+  });
+  rows.forEach(row => {
+    if (row.fullWidth) return;
+    row.cells.filter(c => c.span > 1).forEach(c => {
+      let available = 0;
+      for (let i = c.col; i < c.col + c.span; i++) available += colWidths[i] || 0;
+      const last = c.col + c.span - 1;
+      colWidths[last] = (colWidths[last] || 0) + Math.max(0, cellWidth(c, row) - available);
+    });
+  });
+  for (let i = 0; i < colWidths.length; i++) colWidths[i] = colWidths[i] || CELL_PAD_X * 2;
+
+  const inset = { top: 0, left: 0, right: 0, bottom: 0 };
+  if (hasHeader) inset.top = TAB_HEIGHT;
+  if (block.kind === 'group') {
+    inset.top = block.title ? FONT_SIZE + GROUP_PAD : GROUP_PAD;
+    inset.left = inset.right = inset.bottom = GROUP_PAD;
+  }
+  if (block.kind === 'scroll') {
+    if (block.scroll !== 'horizontal') inset.right = SCROLLBAR;
+    if (block.scroll !== 'vertical') inset.bottom = SCROLLBAR;
+  }
+
+  const gridWidth = colWidths.reduce((sum, w) => sum + w, 0);
+  const gridHeight = rows.reduce((sum, r) => sum + r.height, 0);
+  const headerWidth = header.reduce((sum, h) => sum + h.width, 0);
+  const titleWidth = block.kind === 'group' && block.title ? textWidth(block.title) + GROUP_PAD * 2 : 0;
+  const size = {
+    width: Math.max(gridWidth + inset.left + inset.right, headerWidth, titleWidth, 8),
+    height: Math.max(gridHeight + inset.top + inset.bottom, 8),
+  };
+
+  const layout = { header, rows, colWidths, inset, size };
+  layoutCache.set(block, layout);
+  return layout;
+};
+
+/**
+ * Positions the direct children of a block drawn at (x, y). Tab and menu labels are placed
+ * in their header strip, full-width separators across the whole grid.
+ */
+const placeChildren = (block: SaltBlock, x: number, y: number): PlacedNode[] => {
+  const layout = layoutBlock(block);
+  const { inset, colWidths } = layout;
+  const gridX = x + inset.left;
+  const gridWidth = colWidths.reduce((sum, w) => sum + w, 0);
+  const colX = (col: number) => gridX + colWidths.slice(0, col).reduce((sum, w) => sum + w, 0);
+  const placed: PlacedNode[] = [];
+
+  if (layout.header.length > 0) {
+    let tx = x;
+    block.rows[0].cells.forEach((cell, index) => {
+      const label = cell.items.find(item => item.type === 'text');
+      const width = layout.header[index].width;
+      if (label) placed.push({ node: label, x: tx, y, width, height: TAB_HEIGHT, header: true });
+      tx += width;
+    });
+  }
+
+  let rowY = y + inset.top;
+  layout.rows.forEach(row => {
+    if (row.fullWidth) {
+      placed.push({ node: row.cells[0].cell.items[0], x: gridX, y: rowY, width: gridWidth, height: row.height });
+    } else {
+      row.cells.forEach(cell => {
+        const cellX = colX(cell.col);
+        const cellWidth = colX(cell.col + cell.span) - cellX;
+        let itemX = cellX + CELL_PAD_X + (cell.col === 0 ? row.indent : 0);
+        cell.cell.items.forEach(item => {
+          const itemSize = measureNode(item);
+          const available = item.type === 'separator' ? cellWidth - CELL_PAD_X * 2 : itemSize.width;
+          placed.push({ node: item, x: itemX, y: rowY + CELL_PAD_Y, width: available, height: row.height - CELL_PAD_Y * 2 });
+          itemX += itemSize.width + ITEM_GAP;
+        });
+      });
+    }
+    rowY += row.height;
+  });
+  return placed;
+};
+
+// --- DRAWING ---
+
+const line = (x1: number, y1: number, x2: number, y2: number, style = '-') => {
+  const dash = style === '.' ? ' stroke-dasharray="1,2"' : style === '~' ? ' stroke-dasharray="4,2"' : '';
+  const main = `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#888"${dash}/>`;
+  if (style !== '=') return main;
+  return main + (y1 === y2
+    ? `<line x1="${x1}" y1="${y1 + 2}" x2="${x2}" y2="${y2 + 2}" stroke="#888"/>`
+    : `<line x1="${x1 + 2}" y1="${y1}" x2="${x2 + 2}" y2="${y2}" stroke="#888"/>`);
+};
+
+const text = (x: number, y: number, value: string, extra = '') =>
+  `<text x="${x}" y="${y}"${extra}>${escapeXml(value)}</text>`;
+
+/** Draws a node inside the box (x, y, width, height); widgets are vertically centered. */
+const drawNode = (node: SaltNode, x: number, y: number, width: number, height: number): string => {
+  const size = measureNode(node);
+  const cy = y + height / 2;
+  const baseline = cy + FONT_SIZE / 2 - 2;
+  switch (node.type) {
+    case 'block':
+      return drawBlock(node, x, y + (height - size.height) / 2);
+    case 'button':
+      return `<rect x="${x}" y="${cy - 10}" width="${size.width}" height="20" rx="4" fill="#f5f5f5" stroke="#333"/>`
+        + text(x + size.width / 2, baseline, plainText(node.label), ' text-anchor="middle"');
+    case 'checkbox':
+      return `<rect x="${x}" y="${cy - 6}" width="12" height="12" fill="#fff" stroke="#333"/>`
+        + (node.checked ? `<path d="M${x + 2} ${cy} l3 3 l5 -6" fill="none" stroke="#000" stroke-width="1.5"/>` : '')
+        + (node.label ? text(x + 16, baseline, plainText(node.label)) : '');
+    case 'radio':
+      return `<circle cx="${x + 6}" cy="${cy}" r="6" fill="#fff" stroke="#333"/>`
+        + (node.checked ? `<circle cx="${x + 6}" cy="${cy}" r="3" fill="#000"/>` : '')
+        + (node.label ? text(x + 16, baseline, plainText(node.label)) : '');
+    case 'textfield':
+      return `<rect x="${x}" y="${cy - 9}" width="${size.width}" height="18" fill="#fff" stroke="#888"/>`
+        + text(x + 4, baseline, node.value, ' xml:space="preserve"');
+    case 'combo':
+      return `<rect x="${x}" y="${cy - 9}" width="${size.width}" height="18" fill="#fff" stroke="#888"/>`
+        + text(x + 4, baseline, plainText(node.value))
+        + `<path d="M${x + size.width - 14} ${cy - 2} l4 4 l4 -4 z" fill="#333"/>`;
+    case 'text':
+      return text(x, baseline, plainText(node.text));
+    case 'separator':
+      return node.orientation === 'horizontal'
+        ? line(x, cy, x + width, cy, node.style)
+        : line(x + width / 2, y, x + width / 2, y + height, node.style);
+    case 'empty':
+    case 'span':
+      return '';
+  }
+};
+
+const drawBlock = (block: SaltBlock, x: number, y: number): string => {
+  const layout = layoutBlock(block);
+  const { inset, colWidths, size } = layout;
+  const parts: string[] = [];
+  const gridX = x + inset.left;
+  const gridY = y + inset.top;
+  const gridWidth = colWidths.reduce((sum, w) => sum + w, 0);
+  const gridHeight = layout.rows.reduce((sum, r) => sum + r.height, 0);
+
+  if (block.kind === 'tabs') {
+    let tx = x;
+    layout.header.forEach((tab, index) => {
+      parts.push(`<path d="M${tx} ${y + TAB_HEIGHT} v-${TAB_HEIGHT - 4} q0 -4 4 -4 h${tab.width - 8} q4 0 4 4 v${TAB_HEIGHT - 4}" fill="#fff" stroke="#333"/>`);
+      parts.push(text(tx + tab.width / 2, y + TAB_HEIGHT - 7, tab.label, index === 0 ? ' text-anchor="middle" font-weight="bold"' : ' text-anchor="middle"'));
+      tx += tab.width;
+    });
+    parts.push(line(x, y + TAB_HEIGHT, x + size.width, y + TAB_HEIGHT));
+  } else if (block.kind === 'menu') {
+    parts.push(`<rect x="${x}" y="${y}" width="${size.width}" height="${TAB_HEIGHT}" fill="#eee" stroke="#888"/>`);
+    let tx = x;
+    layout.header.forEach(item => {
+      parts.push(text(tx + 8, y + TAB_HEIGHT - 7, item.label));
+      tx += item.width;
+    });
+  } else if (block.kind === 'group') {
+    const top = y + (block.title ? FONT_SIZE / 2 : 0);
+    parts.push(`<rect x="${x}" y="${top}" width="${size.width}" height="${size.height - (top - y)}" rx="4" fill="none" stroke="#888"/>`);
+    if (block.title) {
+      parts.push(`<rect x="${x + GROUP_PAD - 2}" y="${y}" width="${textWidth(block.title) + 4}" height="${FONT_SIZE}" fill="#fff"/>`);
+      parts.push(text(x + GROUP_PAD, y + FONT_SIZE - 2, block.title));
+    }
+  } else if (block.kind === 'scroll') {
+    parts.push(`<rect x="${x}" y="${y}" width="${size.width}" height="${size.height}" fill="none" stroke="#888"/>`);
+    if (inset.right) parts.push(`<rect x="${x + size.width - SCROLLBAR}" y="${y}" width="${SCROLLBAR}" height="${size.height - inset.bottom}" fill="#eee" stroke="#888"/>`);
+    if (inset.bottom) parts.push(`<rect x="${x}" y="${y + size.height - SCROLLBAR}" width="${size.width - inset.right}" height="${SCROLLBAR}" fill="#eee" stroke="#888"/>`);
+  }
+
+  const colX = (col: number) => gridX + colWidths.slice(0, col).reduce((sum, w) => sum + w, 0);
+  placeChildren(block, x, y)
+    .filter(placed => !placed.header)
+    .forEach(placed => parts.push(drawNode(placed.node, placed.x, placed.y, placed.width, placed.height)));
+
+  let rowY = gridY;
+  layout.rows.forEach((row, rowIndex) => {
+    if (block.kind === 'tree' && row.indent > 0 && !row.fullWidth) {
+      const itemX = gridX + CELL_PAD_X + row.indent;
+      parts.push(`<path d="M${itemX - TREE_INDENT / 2 - 2} ${rowY} v${row.height / 2} h${TREE_INDENT / 2 - 2}" fill="none" stroke="#aaa"/>`);
+    }
+    if (rowIndex > 0 && (block.border === 'all' || block.border === 'horizontal')) {
+      parts.push(line(gridX, rowY, gridX + gridWidth, rowY));
+    }
+    rowY += row.height;
+  });
+
+  if (block.border === 'all' || block.border === 'vertical') {
+    for (let col = 1; col < colWidths.length; col++) {
+      parts.push(line(colX(col), gridY, colX(col), gridY + gridHeight));
+    }
+  }
+  if (block.border === 'all' || block.border === 'outer') {
+    parts.push(`<rect x="${gridX}" y="${gridY}" width="${gridWidth}" height="${gridHeight}" fill="none" stroke="#333"/>`);
+  }
+  return parts.join('');
+};
+
+const wrapSvg = (width: number, height: number, body: string, scale = 1) =>
+  `<svg xmlns="http://www.w3.org/2000/svg" width="${Math.ceil(width * scale)}" height="${Math.ceil(height * scale)}" viewBox="0 0 ${Math.ceil(width)} ${Math.ceil(height)}" font-family="sans-serif" font-size="${FONT_SIZE}">`
+  + `<rect width="100%" height="100%" fill="#fff"/>${body}</svg>`;
+
+interface DocumentLayout {
+  title?: string;
+  scale: number;
+  blocks: { block: SaltBlock; x: number; y: number }[];
+  width: number;
+  height: number;
+}
+
+const layoutDocument = (document: SaltDocument): DocumentLayout => {
+  const title = document.directives.find(d => /^title\s/i.test(d.text))?.text.replace(/^title\s+/i, '');
+  const scaleDirective = document.directives.find(d => /^scale\s/i.test(d.text));
+  const scale = scaleDirective ? parseFloat(scaleDirective.text.replace(/^scale\s+/i, '')) || 1 : 1;
+
+  const blocks: DocumentLayout['blocks'] = [];
+  let y = MARGIN;
+  let width = 0;
+  if (title) {
+    y += FONT_SIZE + 12;
+    width = textWidth(title) + 4;
+  }
+  document.blocks.forEach(block => {
+    const { size } = layoutBlock(block);
+    blocks.push({ block, x: MARGIN, y });
+    y += size.height + MARGIN;
+    width = Math.max(width, size.width);
+  });
+  return { title, scale, blocks, width: width + MARGIN * 2, height: y };
+};
+
+const renderDocument = (document: SaltDocument): string => {
+  const layout = layoutDocument(document);
+  const parts: string[] = [];
+  if (layout.title) parts.push(text(MARGIN, MARGIN + FONT_SIZE + 2, layout.title, ' font-weight="bold" font-size="14"'));
+  layout.blocks.forEach(({ block, x, y }) => parts.push(drawBlock(block, x, y)));
+  return wrapSvg(layout.width, layout.height, parts.join(''), layout.scale);
+};
+
+// --- PUBLIC LAYOUT ---
+
+export interface SaltLayoutElement {
+  node: SaltNode;
+  /** Visible bounds of the node in unscaled SVG coordinates. */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Nesting depth; top-level blocks are 0. */
+  depth: number;
+  /** Index of the enclosing block element, or -1 for top-level blocks. */
+  parent: number;
+}
+
+export interface SaltLayout {
+  title?: string;
+  /** Factor from the 'scale' directive that the SVG is enlarged by. */
+  scale: number;
+  width: number;
+  height: number;
+  /** Every block and widget in drawing order, parents before their children. */
+  elements: SaltLayoutElement[];
+}
+
+/** Shrinks a node's drawing box to the area the node actually covers. */
+const visibleBounds = (placed: PlacedNode): Pick<SaltLayoutElement, 'x' | 'y' | 'width' | 'height'> => {
+  if (placed.header || placed.node.type === 'separator') {
+    return { x: placed.x, y: placed.y, width: placed.width, height: placed.height };
+  }
+  const size = measureNode(placed.node);
+  return { x: placed.x, y: placed.y + (placed.height - size.height) / 2, width: size.width, height: size.height };
+};
+
+/**
+ * Computes where every element of a parsed document ends up in the SVG produced by
+ * renderSaltToSvg, for exporters and for mapping the preview back to the code.
+ */
+export const layoutSalt = (document: SaltDocument): SaltLayout => {
+  const layout = layoutDocument(document);
+  const elements: SaltLayoutElement[] = [];
+
+  const visitBlock = (block: SaltBlock, x: number, y: number, depth: number, parent: number) => {
+    const index = elements.length;
+    const { size } = layoutBlock(block);
+    elements.push({ node: block, x, y, width: size.width, height: size.height, depth, parent });
+    placeChildren(block, x, y).forEach(placed => {
+      const bounds = visibleBounds(placed);
+      if (placed.node.type === 'block') {
+        visitBlock(placed.node, bounds.x, bounds.y, depth + 1, index);
+      } else if (placed.node.type !== 'span' && placed.node.type !== 'empty') {
+        elements.push({ node: placed.node, ...bounds, depth: depth + 1, parent: index });
+      }
+    });
+  };
+
+  layout.blocks.forEach(({ block, x, y }) => visitBlock(block, x, y, 0, -1));
+  return { title: layout.title, scale: layout.scale, width: layout.width, height: layout.height, elements };
+};
+
+/**
+ * Renders Salt code to a standalone SVG string entirely in the browser, without a PlantUML server.
+ * Code with syntax errors renders as a list of the diagnostics instead, like PlantUML's error image.
+ */
+export const renderSaltToSvg = (source: string): string => {
+  const { document, diagnostics } = parseSalt(source);
+  if (!hasErrors(diagnostics)) return renderDocument(document);
+
+  const errors = diagnostics.filter(d => d.severity === 'error').slice(0, 8);
+  const lines = ['Salt の構文エラー:', ...errors.map(d => `${d.line}:${d.column} ${d.message}`)];
+  const body = lines
+    .map((value, index) => text(MARGIN, MARGIN + (index + 1) * 18, value, index === 0 ? ' font-weight="bold" fill="#c00"' : ' fill="#c00"'))
+    .join('');
+  return wrapSvg(Math.max(...lines.map(textWidth)) + MARGIN * 2, lines.length * 18 + MARGIN * 2, body);
+};
@@ -0,0 +1,147 @@
+// --- TOKENIZER ---
+
+export type SaltTokenType =
+  | 'marker'
+  | 'fence'
+  | 'comment'
+  | 'directive'
+  | 'block'
+  | 'brace'
+  | 'button'
+  | 'checkbox'
+  | 'radio'
+  | 'textfield'
+  | 'combo'
+  | 'separator'
+  | 'pipe'
+  | 'tree'
+  | 'text'
+  | 'whitespace';
+
+export interface SaltToken {
+  type: SaltTokenType;
+  text: string;
+  /** Offset of the token in the whole source. */
+  offset: number;
+}
+
+const TOKEN_PATTERNS: [SaltTokenType, RegExp][] = [
+  ['block', /\{(?:T[+#!-]?|SI|S-|S(?=\s)|\/|\*|\^(?:"[^"\n]*")?|[+#!-])/y],
+  ['brace', /[{}]/y],
+  ['checkbox', /\[(?: |X|x)?\]/y],
+  ['button', /\[[^\]\n]*\]?/y],
+  ['radio', /\((?: |X|x)\)/y],
+  ['textfield', /"[^"\n]*"?/y],
+  ['combo', /\^[^^\n]*\^?/y],
+  ['separator', /\|\||-{2,}|={2,}|~{2,}|\.{2,}/y],
+  ['pipe', /\|/y],
+  ['whitespace', /\s+/y],
+  ['text', /[^{}[\]"^|(\s]+|./y],
+];
+
+/**
+ * Splits one line of PlantUML Salt source into highlighting tokens. This is deliberately
+ * line-local and forgiving; use parseSalt for validation.
+ */
+export const tokenizeSaltLine = (line: string, offset: number): SaltToken[] => {
+  const trimmed = line.trim();
+  if (/^@(start|end)\w*/.test(trimmed)) return [{ type: 'marker', text: line, offset }];
+  if (trimmed.startsWith('```')) return [{ type: 'fence', text: line, offset }];
+  if (trimmed.startsWith('\'')) return [{ type: 'comment', text: line, offset }];
+  if (/^(salt|title|scale|skinparam|header|footer|caption|legend|endlegend|hide|show|![a-z]+)\b/i.test(trimmed)) {
+    return [{ type: 'directive', text: line, offset }];
+  }
+
+  const tokens: SaltToken[] = [];
+  let index = 0;
+  // Leading '+' characters are tree depth markers.
+  const tree = line.match(/^(\s*)(\++)/);
+  if (tree) {
+    if (tree[1]) tokens.push({ type: 'whitespace', text: tree[1], offset });
+    tokens.push({ type: 'tree', text: tree[2], offset: offset + tree[1].length });
+    index = tree[0].length;
+  }
+
+  while (index < line.length) {
+    for (const [type, pattern] of TOKEN_PATTERNS) {
+      pattern.lastIndex = index;
+      const match = pattern.exec(line);
+      if (match && match[0]) {
+        tokens.push({ type, text: match[0], offset: offset + index });
+        index += match[0].length;
+        break;
+      }
+    }
+  }
+  return tokens;
+};
+
+// --- BRACKET MATCHING ---
+
+const PAIRS: Record<string, { match: string; direction: 1 | -1 }> = {
+  '{': { match: '}', direction: 1 },
+  '}': { match: '{', direction: -1 },
+  '[': { match: ']', direction: 1 },
+  ']': { match: '[', direction: -1 },
+};
+
+/**
+ * Finds the bracket next to the cursor (the character after it, else before it) and its partner.
+ * Square brackets only pair within a line, since Salt buttons cannot span lines.
+ */
+export const findMatchingBracket = (source: string, cursor: number): [number, number] | null => {
+  const at = PAIRS[source[cursor]] ? cursor : PAIRS[source[cursor - 1]] ? cursor - 1 : -1;
+  if (at < 0) return null;
+  const open = source[at];
+  const { match, direction } = PAIRS[open];
+  let depth = 0;
+  for (let i = at; i >= 0 && i < source.length; i += direction) {
+    const ch = source[i];
+    if (open === '[' || open === ']') {
+      if (ch === '\n') return null;
+    }
+    if (ch === open) depth++;
+    else if (ch === match && --depth === 0) return [at, i];
+  }
+  return null;
+};
+
+// --- SNIPPETS ---
+
+export interface SaltSnippet {
+  label: string;
+  insertText: string;
+  /** Range of insertText selected after insertion (the placeholder to overwrite). */
+  select?: [number, number];
+  description: string;
+}
+
+/** Widget syntax offered by autocomplete; mirrors the widget list given to the model in BASE_PROMPT. */
+export const SALT_SNIPPETS: SaltSnippet[] = [
+  { label: '[ボタン]', insertText: '[ボタン]', select: [1, 4], description: 'ボタン' },
+  { label: '"テキスト"', insertText: '"テキスト    "', select: [1, 5], description: 'テキスト入力フィールド' },
+  { label: '[ ]', insertText: '[ ] 項目', select: [4, 6], description: 'チェックボックス' },
+  { label: '[X]', insertText: '[X] 項目', select: [4, 6], description: 'チェックボックス (選択済み)' },
+  { label: '( )', insertText: '( ) 項目', select: [4, 6], description: 'ラジオボタン' },
+  { label: '(X)', insertText: '(X) 項目', select: [4, 6], description: 'ラジオボタン (選択済み)' },
+  { label: '^ドロップダウン^', insertText: '^ドロップダウン^', select: [1, 8], description: 'コンボボックス' },
+  { label: '{ }', insertText: '{\n  \n}', select: [4, 4], description: '罫線なしグリッド' },
+  { label: '{+ }', insertText: '{+\n  \n}', select: [5, 5], description: '罫線付きグリッド (外枠)' },
+  { label: '{# }', insertText: '{#\n  \n}', select: [5, 5], description: '罫線付きグリッド (全罫線)' },
+  { label: '{/ }', insertText: '{/ タブ1 | タブ2 | タブ3 }', select: [3, 6], description: 'タブ' },
+  { label: '{T }', insertText: '{T\n + ルート\n ++ 子\n}', select: [6, 9], description: 'ツリー構造' },
+  { label: '{^ }', insertText: '{^"グループ"\n  \n}', select: [3, 7], description: 'グループボックス' },
+  { label: '--', insertText: '--', description: '水平セパレータ' },
+  { label: '||', insertText: '||', description: '垂直セパレータ' },
+];
+
+/**
+ * Returns the snippets matching the word being typed; an empty prefix matches everything.
+ */
+export const matchSnippets = (prefix: string): SaltSnippet[] => {
+  if (!prefix) return SALT_SNIPPETS;
+  const lower = prefix.toLowerCase();
+  return SALT_SNIPPETS.filter(s =>
+    s.label.toLowerCase().startsWith(lower) || s.insertText.toLowerCase().startsWith(lower) || s.description.includes(prefix)
+  );
+};
@@ -0,0 +1,45 @@
+import { describe, expect, it, vi } from 'vitest';
+import { PUBLIC_PLANTUML_SERVER } from './plantumlService';
+import { buildEmbedSnippet, buildShareUrl, getEmbedImageUrl, parseShareFragment } from './shareService';
+
+const CODE = '@startsalt\n{\n  名前 | "山田 $1"\n  [OK]\n}\n@endsalt';
+
+describe('share links', () => {
+  it('restores the code and settings from the fragment of the link', () => {
+    const url = buildShareUrl('https://example.com/app/#old', { code: CODE, model: 'gemini-3-flash-preview', fidelity: 40 });
+    expect(url.startsWith('https://example.com/app/#salt=')).toBe(true);
+    expect(parseShareFragment(new URL(url).hash)).toEqual({ code: CODE, model: 'gemini-3-flash-preview', fidelity: 40 });
+  });
+
+  it('ignores fragments that are not share links', () => {
+    expect(parseShareFragment('')).toBeNull();
+    expect(parseShareFragment('#section-2')).toBeNull();
+  });
+
+  it('falls back to full fidelity when the value is out of range', () => {
+    const hash = new URL(buildShareUrl('https://example.com/', { code: CODE, model: '', fidelity: 40 })).hash.replace('fidelity=40', 'fidelity=500');
+    expect(parseShareFragment(hash)?.fidelity).toBe(100);
+  });
+
+  it('fails on a truncated link', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const hash = new URL(buildShareUrl('https://example.com/', { code: CODE, model: '', fidelity: 40 })).hash;
+    expect(() => parseShareFragment(hash.slice(0, 12))).toThrow();
+    vi.restoreAllMocks();
+  });
+});
+
+describe('embed snippets', () => {
+  it('uses the configured server, or plantuml.com for the in-browser renderer without one', () => {
+    expect(getEmbedImageUrl(CODE, { backend: 'server', serverUrl: 'http://localhost:8080/' })).toMatch(/^http:\/\/localhost:8080\/svg\/~1/);
+    expect(getEmbedImageUrl(CODE, { backend: 'local', serverUrl: '' })).toMatch(new RegExp(`^${PUBLIC_PLANTUML_SERVER}/svg/~1`));
+    expect(getEmbedImageUrl(CODE, { backend: 'public', serverUrl: 'http://localhost:8080' })).toMatch(new RegExp(`^${PUBLIC_PLANTUML_SERVER}/`));
+  });
+
+  it('links the image back to the app when a share link is given', () => {
+    expect(buildEmbedSnippet('markdown', 'https://img/x', 'Login [draft]', 'https://app/#salt=x'))
+      .toBe('[![Login draft](https://img/x)](https://app/#salt=x)');
+    expect(buildEmbedSnippet('html', 'https://img/x?a=1&b=2', 'A "quoted" <title>'))
+      .toBe('<img src="https://img/x?a=1&amp;b=2" alt="A &quot;quoted&quot; &lt;title&gt;">');
+  });
+});
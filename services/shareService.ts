@@ -0,0 +1,73 @@
+import { decodePlantUML, encodePlantUML, getPlantUMLUrl, PUBLIC_PLANTUML_SERVER, RenderSettings } from "./plantumlService";
+
+/** What a permalink restores: the code and the settings it was generated with. */
+export interface SharedState {
+  code: string;
+  model: string;
+  fidelity: number;
+}
+
+/**
+ * Builds a link that reopens the app with the given state. Everything is kept in the URL fragment,
+ * which browsers never send to the server, using the same deflate + base64 encoding as PlantUML URLs.
+ */
+export const buildShareUrl = (pageUrl: string, state: SharedState): string => {
+  const params = new URLSearchParams({
+    salt: encodePlantUML(state.code),
+    model: state.model,
+    fidelity: String(state.fidelity),
+  });
+  return `${pageUrl.replace(/#.*$/, '')}#${params.toString()}`;
+};
+
+/** Reads the state of a share link from location.hash; returns null for any other fragment. */
+export const parseShareFragment = (hash: string): SharedState | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  const encoded = params.get('salt');
+  if (!encoded) return null;
+  let code: string;
+  try {
+    code = decodePlantUML(encoded);
+  } catch (e) {
+    console.error("Failed to decode shared Salt", e);
+    throw new Error('共有リンクのコードを読み込めませんでした。リンクが途中で切れていないか確認してください。');
+  }
+  const fidelity = Number(params.get('fidelity'));
+  return {
+    code,
+    model: params.get('model') || '',
+    fidelity: Number.isFinite(fidelity) && fidelity >= 1 && fidelity <= 100 ? fidelity : 100,
+  };
+};
+
+// --- EMBED SNIPPETS ---
+
+export type SnippetFormat = 'markdown' | 'html';
+
+export const SNIPPET_FORMATS: { value: SnippetFormat; label: string }[] = [
+  { value: 'markdown', label: 'Markdown' },
+  { value: 'html', label: 'HTML' },
+];
+
+/**
+ * Image URL for embedding the diagram elsewhere. The in-browser renderer has no URL other pages can
+ * load, so it falls back to the configured server, or to plantuml.com when none is set.
+ */
+export const getEmbedImageUrl = (code: string, settings: RenderSettings): string =>
+  getPlantUMLUrl(code, settings.backend === 'public' || !settings.serverUrl ? PUBLIC_PLANTUML_SERVER : settings.serverUrl);
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Markdown or HTML that shows the rendered diagram and, when a share link is given, links it back
+ * to the app so the code can be opened and edited.
+ */
+export const buildEmbedSnippet = (format: SnippetFormat, imageUrl: string, alt: string, shareUrl?: string): string => {
+  if (format === 'markdown') {
+    const image = `![${alt.replace(/[[\]]/g, '')}](${imageUrl})`;
+    return shareUrl ? `[${image}](${shareUrl})` : image;
+  }
+  const image = `<img src="${escapeHtml(imageUrl)}" alt="${escapeHtml(alt)}">`;
+  return shareUrl ? `<a href="${escapeHtml(shareUrl)}">${image}</a>` : image;
+};